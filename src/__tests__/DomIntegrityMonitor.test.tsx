@@ -0,0 +1,70 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import { Nis2Provider, useNis2Context } from '../context/Nis2Context';
+import { DomIntegrityMonitor } from '../components/DomIntegrityMonitor';
+
+const StatusDisplay = () => {
+    const { securityState } = useNis2Context();
+    return <span data-testid="status">{securityState.status}</span>;
+};
+
+describe('DomIntegrityMonitor', () => {
+    let mockFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        mockFetch = vi.fn().mockResolvedValue({ ok: true });
+        global.fetch = mockFetch;
+    });
+
+    afterEach(() => {
+        document.head.querySelectorAll('script').forEach(script => script.remove());
+    });
+
+    const reportedEvents = () => mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+
+    const injectScript = async (src: string) => {
+        await act(async () => {
+            const script = document.createElement('script');
+            script.src = src;
+            document.head.appendChild(script);
+            await new Promise(resolve => setTimeout(resolve, 0));
+        });
+    };
+
+    it('reports injected scripts as DOM_TAMPERING and ignores allowed origins', async () => {
+        const onTamper = vi.fn();
+        render(
+            <Nis2Provider config={{ auditEndpoint: '/api/test' }}>
+                <DomIntegrityMonitor allowedScriptOrigins={['https://js.stripe.com']} onTamper={onTamper} />
+            </Nis2Provider>
+        );
+
+        await injectScript('https://js.stripe.com/v3/');
+        await injectScript('https://evil.example/skim.js');
+        await act(async () => {
+            await new Promise(resolve => setTimeout(resolve, 50));
+        });
+
+        expect(onTamper).toHaveBeenCalledTimes(1);
+        const tampering = reportedEvents().filter(event => event.type === 'DOM_TAMPERING');
+        expect(tampering).toHaveLength(1);
+        expect(tampering[0].severity).toBe('ERROR');
+        expect(tampering[0].payload).toMatchObject({ kind: 'external_script', value: 'https://evil.example/skim.js' });
+    });
+
+    it('locks the session with lockOnTamper', async () => {
+        render(
+            <Nis2Provider config={{ auditEndpoint: '/api/test' }}>
+                <DomIntegrityMonitor lockOnTamper />
+                <StatusDisplay />
+            </Nis2Provider>
+        );
+        expect(screen.getByTestId('status').textContent).toBe('active');
+
+        await injectScript('https://evil.example/skim.js');
+
+        expect(screen.getByTestId('status').textContent).toBe('locked');
+    });
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FrameGuard } from '../components/FrameGuard';
+import { FramingInfo } from '../utils/frameGuard';
+
+const mockReportIncident = vi.fn();
+let mockFraming: FramingInfo;
+
+vi.mock('../context/Nis2Context', async () => {
+    const actual = await vi.importActual('../context/Nis2Context');
+    return {
+        ...actual,
+        useNis2Context: () => ({
+            reportIncident: mockReportIncident,
+            config: { auditEndpoint: '/api/test/' },
+        }),
+    };
+});
+
+vi.mock('../utils/frameGuard', () => ({
+    detectFraming: () => mockFraming,
+}));
+
+const hostileFrame: FramingInfo = {
+    framed: true,
+    parentOrigin: 'https://evil.example',
+    ancestorOrigins: ['https://evil.example'],
+    source: 'ancestorOrigins',
+    allowed: false,
+};
+
+describe('FrameGuard', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('renders the app and reports nothing when not framed', () => {
+        mockFraming = { framed: false, parentOrigin: null, ancestorOrigins: [], source: 'none', allowed: true };
+
+        render(<FrameGuard><div>Dashboard</div></FrameGuard>);
+
+        expect(screen.getByText('Dashboard')).toBeInTheDocument();
+        expect(mockReportIncident).not.toHaveBeenCalled();
+    });
+
+    it('renders the app on the server, where there is no frame to check', () => {
+        mockFraming = hostileFrame;
+        vi.stubGlobal('window', undefined);
+
+        const html = renderToString(<FrameGuard><div>Dashboard</div></FrameGuard>);
+        vi.unstubAllGlobals();
+
+        expect(html).toContain('Dashboard');
+        expect(mockReportIncident).not.toHaveBeenCalled();
+    });
+
+    it('hides the app in a hostile frame and reports FRAMED_CONTEXT', () => {
+        mockFraming = hostileFrame;
+        const onFramed = vi.fn();
+
+        render(<FrameGuard onFramed={onFramed}><div>Dashboard</div></FrameGuard>);
+
+        expect(screen.queryByText('Dashboard')).not.toBeInTheDocument();
+        expect(screen.getByRole('alert')).toHaveTextContent('cannot be displayed inside another website');
+        expect(mockReportIncident).toHaveBeenCalledWith('FRAMED_CONTEXT', {
+            parentOrigin: 'https://evil.example',
+            ancestorOrigins: ['https://evil.example'],
+            source: 'ancestorOrigins',
+            mode: 'hide',
+        });
+        expect(onFramed).toHaveBeenCalledWith(hostileFrame);
+    });
+
+    it('renders a custom fallback', () => {
+        mockFraming = hostileFrame;
+
+        render(<FrameGuard fallback={<p>Blocked</p>}><div>Dashboard</div></FrameGuard>);
+
+        expect(screen.getByText('Blocked')).toBeInTheDocument();
+    });
+
+    it('shows a warning above the app in warn mode', () => {
+        mockFraming = hostileFrame;
+
+        render(<FrameGuard mode="warn" warning="Framed!"><div>Dashboard</div></FrameGuard>);
+
+        expect(screen.getByRole('alert')).toHaveTextContent('Framed!');
+        expect(screen.getByText('Dashboard')).toBeInTheDocument();
+        expect(mockReportIncident).toHaveBeenCalledWith('FRAMED_CONTEXT', expect.objectContaining({ mode: 'warn' }));
+    });
+});
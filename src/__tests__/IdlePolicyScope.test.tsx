@@ -0,0 +1,65 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import { Nis2Provider, useNis2Context } from '../context/Nis2Context';
+import { IdlePolicyScope } from '../components/IdlePolicyScope';
+
+const StatusDisplay = () => {
+    const { securityState, idlePolicy } = useNis2Context();
+    return (
+        <div>
+            <span data-testid="status">{securityState.status}</span>
+            <span data-testid="timeout">{idlePolicy.idleTimeoutMinutes}</span>
+        </div>
+    );
+};
+
+describe('IdlePolicyScope', () => {
+    let mockFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.restoreAllMocks();
+        mockFetch = vi.fn().mockResolvedValue({ ok: true });
+        global.fetch = mockFetch;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const renderWithScope = (mounted: boolean) => (
+        <Nis2Provider config={{ auditEndpoint: '/api/test', idleTimeoutMinutes: 15, warningSeconds: 0 }}>
+            <StatusDisplay />
+            {mounted && (
+                <IdlePolicyScope name="payments" idleTimeoutMinutes={2} lockOnIdle>
+                    <div>Payments</div>
+                </IdlePolicyScope>
+            )}
+        </Nis2Provider>
+    );
+
+    const reportedTypes = () => mockFetch.mock.calls.map(call => JSON.parse(call[1].body).type);
+
+    it('applies the stricter timeout and locks while mounted', () => {
+        render(renderWithScope(true));
+        expect(screen.getByTestId('timeout').textContent).toBe('2');
+
+        act(() => {
+            vi.advanceTimersByTime(2 * 60 * 1000 + 100);
+        });
+
+        expect(screen.getByTestId('status').textContent).toBe('locked');
+    });
+
+    it('restores the global policy on unmount and audits both changes', async () => {
+        const { rerender } = render(renderWithScope(true));
+        rerender(renderWithScope(false));
+        await act(async () => {
+            await Promise.resolve();
+        });
+
+        expect(screen.getByTestId('timeout').textContent).toBe('15');
+        expect(reportedTypes().filter(type => type === 'IDLE_POLICY_CHANGED')).toHaveLength(2);
+    });
+});
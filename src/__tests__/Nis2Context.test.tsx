@@ -1,6 +1,6 @@
 import React from 'react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor, fireEvent, act } from '@testing-library/react';
 import { Nis2Provider, useNis2Context } from '../context/Nis2Context';
 
 // Test component that consumes the context
@@ -103,3 +103,88 @@ describe('reportIncident', () => {
         });
     });
 });
+
+describe('idle warning phase', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.restoreAllMocks();
+        global.fetch = vi.fn().mockResolvedValue({ ok: true });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const IdleState = () => {
+        const { securityState, staySignedIn } = useNis2Context();
+        return (
+            <button data-testid="state" onClick={staySignedIn}>
+                {securityState.isIdle ? 'idle' : securityState.isWarning ? 'warning' : 'active'}
+            </button>
+        );
+    };
+
+    // fireEvent dispatches untrusted events, which the provider ignores by default
+    const renderWithWarning = (warningSeconds?: number) => render(
+        <Nis2Provider config={{ auditEndpoint: '/api/test', idleTimeoutMinutes: 1, warningSeconds, ignoreUntrustedEvents: false }}>
+            <IdleState />
+        </Nis2Provider>
+    );
+
+    it('is off by default, so activity in the last minute still extends the session', () => {
+        renderWithWarning();
+
+        act(() => {
+            vi.advanceTimersByTime(50 * 1000);
+        });
+        expect(screen.getByTestId('state').textContent).toBe('active');
+
+        act(() => {
+            fireEvent.keyDown(window);
+        });
+        act(() => {
+            vi.advanceTimersByTime(50 * 1000);
+        });
+
+        expect(screen.getByTestId('state').textContent).toBe('active');
+    });
+
+    it('has a single idle timer, so an extended session outlives the original timeout', () => {
+        renderWithWarning();
+
+        act(() => {
+            vi.advanceTimersByTime(50 * 1000);
+        });
+        fireEvent.click(screen.getByTestId('state'));
+        act(() => {
+            vi.advanceTimersByTime(30 * 1000);
+        });
+
+        expect(screen.getByTestId('state').textContent).toBe('active');
+    });
+
+    it('ignores passive activity once enabled, until the user stays signed in', () => {
+        renderWithWarning(20);
+
+        act(() => {
+            vi.advanceTimersByTime(45 * 1000);
+        });
+        expect(screen.getByTestId('state').textContent).toBe('warning');
+
+        act(() => {
+            fireEvent.keyDown(window);
+        });
+        expect(screen.getByTestId('state').textContent).toBe('warning');
+
+        fireEvent.click(screen.getByTestId('state'));
+        act(() => {
+            vi.advanceTimersByTime(30 * 1000);
+        });
+        expect(screen.getByTestId('state').textContent).toBe('active');
+
+        act(() => {
+            vi.advanceTimersByTime(60 * 1000);
+        });
+        expect(screen.getByTestId('state').textContent).toBe('idle');
+    });
+});
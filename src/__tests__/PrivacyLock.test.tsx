@@ -0,0 +1,156 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { Nis2Provider } from '../context/Nis2Context';
+import { PrivacyLock, PrivacyLockUnlock } from '../components/PrivacyLock';
+
+describe('PrivacyLock', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.restoreAllMocks();
+        localStorage.clear();
+        global.fetch = vi.fn().mockResolvedValue({ ok: true });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const renderWithProvider = (unlock?: PrivacyLockUnlock) => {
+        return render(
+            <Nis2Provider config={{ auditEndpoint: '/api/test', idleTimeoutMinutes: 1, warningSeconds: 0 }}>
+                <PrivacyLock unlock={unlock}>
+                    <div data-testid="content">Account balance</div>
+                </PrivacyLock>
+            </Nis2Provider>
+        );
+    };
+
+    const goIdle = () => {
+        act(() => {
+            vi.advanceTimersByTime(60 * 1000 + 100);
+        });
+    };
+
+    it('renders the app unlocked', () => {
+        renderWithProvider();
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(screen.getByTestId('content').parentElement).not.toHaveAttribute('inert');
+    });
+
+    it('locks and makes the app inert when the session is idle', () => {
+        renderWithProvider();
+        goIdle();
+
+        expect(screen.getByRole('dialog', { name: 'Screen locked' })).toBeInTheDocument();
+        expect(screen.getByTestId('content').parentElement).toHaveAttribute('inert');
+        expect(screen.getByRole('button', { name: 'Unlock' })).toHaveFocus();
+    });
+
+    it('unlocks with a click', () => {
+        renderWithProvider();
+        goIdle();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Unlock' }));
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(screen.getByTestId('content').parentElement).not.toHaveAttribute('inert');
+    });
+
+    it('stays locked on a wrong PIN', async () => {
+        renderWithProvider({ type: 'pin', verify: (pin) => pin === '1234' });
+        goIdle();
+
+        fireEvent.change(screen.getByLabelText('PIN'), { target: { value: '0000' } });
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: 'Unlock' }));
+        });
+
+        expect(screen.getByRole('alert').textContent).toBe('Incorrect PIN');
+        expect(screen.getByRole('dialog')).toBeInTheDocument();
+
+        fireEvent.change(screen.getByLabelText('PIN'), { target: { value: '1234' } });
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: 'Unlock' }));
+        });
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('refuses PIN unlocks for lockoutMs after maxAttempts failures', async () => {
+        const verify = vi.fn((pin: string) => pin === '1234');
+        render(
+            <Nis2Provider config={{ auditEndpoint: '/api/test', idleTimeoutMinutes: 1, warningSeconds: 0 }}>
+                <PrivacyLock unlock={{ type: 'pin', verify }} maxAttempts={2} lockoutMs={60000}>
+                    <div data-testid="content">Account balance</div>
+                </PrivacyLock>
+            </Nis2Provider>
+        );
+        goIdle();
+
+        for (let i = 0; i < 2; i++) {
+            fireEvent.change(screen.getByLabelText('PIN'), { target: { value: '0000' } });
+            await act(async () => {
+                fireEvent.click(screen.getByRole('button', { name: 'Unlock' }));
+            });
+        }
+
+        expect(screen.getByRole('alert').textContent).toContain('Too many failed attempts');
+        expect(screen.getByRole('button', { name: 'Unlock' })).toBeDisabled();
+
+        fireEvent.change(screen.getByLabelText('PIN'), { target: { value: '1234' } });
+        fireEvent.submit(screen.getByRole('button', { name: 'Unlock' }).closest('form')!);
+        expect(verify).toHaveBeenCalledTimes(2);
+
+        act(() => {
+            vi.advanceTimersByTime(60000);
+        });
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: 'Unlock' }));
+        });
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('gives each lock panel its own label ids', () => {
+        render(
+            <Nis2Provider config={{ auditEndpoint: '/api/test', idleTimeoutMinutes: 1, warningSeconds: 0 }}>
+                <PrivacyLock title="Accounts locked"><div>Accounts</div></PrivacyLock>
+                <PrivacyLock title="Payments locked"><div>Payments</div></PrivacyLock>
+            </Nis2Provider>
+        );
+        goIdle();
+
+        expect(screen.getByRole('dialog', { name: 'Accounts locked' })).toBeInTheDocument();
+        expect(screen.getByRole('dialog', { name: 'Payments locked' })).toBeInTheDocument();
+    });
+
+    it('requires step-up re-authentication after idle when reauth is configured', async () => {
+        const reauthenticate = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+        render(
+            <Nis2Provider config={{ auditEndpoint: '/api/test', idleTimeoutMinutes: 1, warningSeconds: 0, ignoreUntrustedEvents: false, reauth: { reauthenticate } }}>
+                <PrivacyLock>
+                    <div data-testid="content">Account balance</div>
+                </PrivacyLock>
+            </Nis2Provider>
+        );
+        goIdle();
+
+        // Activity wakes the session up but does not unlock it
+        act(() => {
+            fireEvent.mouseMove(window);
+        });
+        expect(screen.getByRole('dialog')).toBeInTheDocument();
+
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: 'Sign in again' }));
+        });
+        expect(screen.getByRole('alert').textContent).toBe('Authentication failed (2 attempts left)');
+
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: 'Sign in again' }));
+        });
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(reauthenticate).toHaveBeenCalledTimes(2);
+    });
+});
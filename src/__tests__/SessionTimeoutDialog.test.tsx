@@ -0,0 +1,69 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { Nis2Provider } from '../context/Nis2Context';
+import { SessionTimeoutDialog } from '../components/SessionTimeoutDialog';
+
+describe('SessionTimeoutDialog', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.restoreAllMocks();
+        global.fetch = vi.fn().mockResolvedValue({ ok: true });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const renderWithProvider = (onLogout?: () => void) => {
+        return render(
+            <Nis2Provider config={{ auditEndpoint: '/api/test', idleTimeoutMinutes: 1, warningSeconds: 20, onLogout }}>
+                <SessionTimeoutDialog />
+            </Nis2Provider>
+        );
+    };
+
+    it('is hidden until the warning phase starts', () => {
+        renderWithProvider();
+        expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument();
+
+        act(() => {
+            vi.advanceTimersByTime(40 * 1000);
+        });
+
+        expect(screen.getByRole('alertdialog')).toBeInTheDocument();
+        expect(screen.getByText(/signed out in 20 seconds/)).toBeInTheDocument();
+    });
+
+    it('moves focus to "Stay signed in"', () => {
+        renderWithProvider();
+        act(() => {
+            vi.advanceTimersByTime(40 * 1000);
+        });
+
+        expect(screen.getByRole('button', { name: 'Stay signed in' })).toHaveFocus();
+    });
+
+    it('closes when the user stays signed in', () => {
+        renderWithProvider();
+        act(() => {
+            vi.advanceTimersByTime(40 * 1000);
+        });
+
+        fireEvent.click(screen.getByRole('button', { name: 'Stay signed in' }));
+
+        expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument();
+    });
+
+    it('logs out through config.onLogout', () => {
+        const onLogout = vi.fn();
+        renderWithProvider(onLogout);
+        act(() => {
+            vi.advanceTimersByTime(40 * 1000);
+        });
+
+        fireEvent.click(screen.getByRole('button', { name: 'Log out now' }));
+
+        expect(onLogout).toHaveBeenCalledWith('timeout_dialog');
+    });
+});
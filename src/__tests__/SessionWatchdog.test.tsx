@@ -15,9 +15,10 @@ describe('SessionWatchdog', () => {
         vi.useRealTimers();
     });
 
-    const renderWithProvider = (onIdle?: () => void, onActive?: () => void, timeout = 1) => {
+    // fireEvent dispatches untrusted events, which the provider ignores by default
+    const renderWithProvider = (onIdle?: () => void, onActive?: () => void, timeout = 1, ignoreUntrustedEvents = false) => {
         return render(
-            <Nis2Provider config={{ auditEndpoint: '/api/test', idleTimeoutMinutes: timeout }}>
+            <Nis2Provider config={{ auditEndpoint: '/api/test', idleTimeoutMinutes: timeout, ignoreUntrustedEvents }}>
                 <SessionWatchdog onIdle={onIdle} onActive={onActive} />
                 <div data-testid="content">Content</div>
             </Nis2Provider>
@@ -63,14 +64,32 @@ describe('SessionWatchdog', () => {
         expect(onIdle).not.toHaveBeenCalled();
     });
 
+    it('ignores script-dispatched activity by default', () => {
+        const onIdle = vi.fn();
+        renderWithProvider(onIdle, undefined, 1, true);
+
+        act(() => {
+            vi.advanceTimersByTime(30 * 1000);
+        });
+        act(() => {
+            fireEvent.mouseDown(window);
+        });
+        act(() => {
+            vi.advanceTimersByTime(30 * 1000 + 100);
+        });
+
+        expect(onIdle).toHaveBeenCalled();
+    });
+
     it('calls onActive when user becomes active', async () => {
         const onActive = vi.fn();
         renderWithProvider(undefined, onActive, 1);
 
-        // Wait a bit to allow throttle to reset
+        // onActive reports the way back from idle
         act(() => {
-            vi.advanceTimersByTime(1500);
+            vi.advanceTimersByTime(60 * 1000 + 100);
         });
+        expect(onActive).not.toHaveBeenCalled();
 
         // Simulate user activity
         act(() => {
@@ -81,19 +100,31 @@ describe('SessionWatchdog', () => {
     });
 
     it('handles visibility change (tab focus)', () => {
+        const onIdle = vi.fn();
         const onActive = vi.fn();
-        renderWithProvider(undefined, onActive, 1);
+        renderWithProvider(onIdle, onActive, 1);
 
-        // Wait for throttle
+        // Coming back to the tab restarts the idle timer
         act(() => {
-            vi.advanceTimersByTime(1500);
+            vi.advanceTimersByTime(30 * 1000);
         });
-
-        // Simulate tab becoming visible
         act(() => {
             Object.defineProperty(document, 'hidden', { value: false, writable: true });
             fireEvent(document, new Event('visibilitychange'));
         });
+        act(() => {
+            vi.advanceTimersByTime(30 * 1000 + 100);
+        });
+        expect(onIdle).not.toHaveBeenCalled();
+
+        // ...and wakes an idle session up
+        act(() => {
+            vi.advanceTimersByTime(30 * 1000);
+        });
+        expect(onIdle).toHaveBeenCalled();
+        act(() => {
+            fireEvent(document, new Event('visibilitychange'));
+        });
 
         expect(onActive).toHaveBeenCalled();
     });
@@ -0,0 +1,70 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TabnabbingGuard } from '../components/TabnabbingGuard';
+
+const mockReportIncident = vi.fn();
+
+vi.mock('../context/Nis2Context', async () => {
+    const actual = await vi.importActual('../context/Nis2Context');
+    return {
+        ...actual,
+        useNis2Context: () => ({
+            reportIncident: mockReportIncident,
+            config: { auditEndpoint: '/api/test/' },
+        }),
+    };
+});
+
+describe('TabnabbingGuard', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('fixes rendered target=_blank links and reports each one', () => {
+        const onSanitize = vi.fn();
+
+        render(
+            <TabnabbingGuard onSanitize={onSanitize}>
+                <a href="https://partner.example/docs" target="_blank">Docs</a>
+                <a href="https://safe.example" target="_blank" rel="noopener noreferrer">Safe</a>
+            </TabnabbingGuard>
+        );
+
+        expect(screen.getByText('Docs')).toHaveAttribute('rel', 'noopener noreferrer');
+        expect(mockReportIncident).toHaveBeenCalledTimes(1);
+        expect(mockReportIncident).toHaveBeenCalledWith('TABNABBING_RISK', {
+            kind: 'unsafe_link',
+            href: 'https://partner.example/docs',
+            previousRel: '',
+        });
+        expect(onSanitize).toHaveBeenCalledTimes(1);
+    });
+
+    it('fixes links added later, e.g. by injected HTML', async () => {
+        const { container } = render(
+            <TabnabbingGuard>
+                <div data-testid="content" />
+            </TabnabbingGuard>
+        );
+
+        screen.getByTestId('content').innerHTML = '<a href="https://cms.example/x" target="_blank" rel="opener">Later</a>';
+
+        await waitFor(() => {
+            expect(container.querySelector('a')).toHaveAttribute('rel', 'noopener noreferrer');
+        });
+        expect(mockReportIncident).toHaveBeenCalledWith('TABNABBING_RISK', expect.objectContaining({ previousRel: 'opener' }));
+    });
+
+    it('leaves links outside the guarded subtree alone', () => {
+        render(
+            <>
+                <a href="https://partner.example" target="_blank">Outside</a>
+                <TabnabbingGuard><span>Inside</span></TabnabbingGuard>
+            </>
+        );
+
+        expect(screen.getByText('Outside')).not.toHaveAttribute('rel');
+        expect(mockReportIncident).not.toHaveBeenCalled();
+    });
+});
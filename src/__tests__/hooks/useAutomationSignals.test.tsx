@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAutomationSignals } from '../../hooks/useAutomationSignals';
+
+describe('useAutomationSignals', () => {
+    it('scores the environment on mount', () => {
+        const { result } = renderHook(() => useAutomationSignals());
+
+        expect(result.current.score).toBe(result.current.assessment.score);
+        expect(result.current.assessment.interactions).toEqual({ keystrokes: 0, pointerMoves: 0, clicks: 0 });
+    });
+
+    it('records interactions on the tracked element and attaches the assessment to a payload', () => {
+        const { result } = renderHook(() => useAutomationSignals());
+        const form = document.createElement('form');
+
+        act(() => {
+            result.current.track(form);
+        });
+        form.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+
+        let payload: ReturnType<typeof result.current.withSignals<{ username: string }>> | undefined;
+        act(() => {
+            payload = result.current.withSignals({ username: 'alice' });
+        });
+
+        expect(payload!.username).toBe('alice');
+        expect(payload!.automation.interactions.keystrokes).toBe(1);
+        // Events dispatched from a test are untrusted
+        expect(payload!.automation.signals.map(signal => signal.id)).toContain('synthetic_events');
+        expect(result.current.score).toBe(payload!.automation.score);
+    });
+
+    it('forgets interactions on reset and stops tracking when the element is removed', () => {
+        const { result } = renderHook(() => useAutomationSignals());
+        const form = document.createElement('form');
+
+        act(() => {
+            result.current.track(form);
+        });
+        form.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+        act(() => {
+            result.current.reset();
+            result.current.track(null);
+        });
+        form.dispatchEvent(new KeyboardEvent('keydown', { key: 'b' }));
+
+        act(() => {
+            result.current.assess();
+        });
+        expect(result.current.assessment.interactions.keystrokes).toBe(0);
+    });
+});
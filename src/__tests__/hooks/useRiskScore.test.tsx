@@ -0,0 +1,66 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { Nis2Provider, Nis2Config, useNis2Context } from '../../context/Nis2Context';
+import { useRiskScore } from '../../hooks/useRiskScore';
+
+describe('useRiskScore', () => {
+    let mockFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        mockFetch = vi.fn().mockResolvedValue({ ok: true });
+        global.fetch = mockFetch;
+    });
+
+    const wrapperFor = (config: Nis2Config) => ({ children }: { children: React.ReactNode }) => (
+        <Nis2Provider config={config}>{children}</Nis2Provider>
+    );
+
+    const sentTypes = () => mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).type);
+
+    it('starts at zero and scores app signals', () => {
+        const { result } = renderHook(() => useRiskScore(), { wrapper: wrapperFor({ auditEndpoint: '/api/test' }) });
+
+        expect(result.current).toMatchObject({ score: 0, level: 'low', signals: [], triggered: [] });
+
+        act(() => {
+            result.current.setSignal({ id: 'new_device', weight: 30, detail: 'First login from this device' });
+        });
+        expect(result.current).toMatchObject({ score: 30, level: 'medium' });
+        expect(result.current.signals[0]).toMatchObject({ source: 'app', id: 'new_device' });
+
+        act(() => {
+            result.current.clearSignal('new_device');
+        });
+        expect(result.current.score).toBe(0);
+    });
+
+    it('scores reported incidents and locks the session when a policy fires', async () => {
+        const onWarn = vi.fn();
+        const { result } = renderHook(() => ({ risk: useRiskScore(), context: useNis2Context() }), {
+            wrapper: wrapperFor({
+                auditEndpoint: '/api/test',
+                risk: {
+                    policies: [{ threshold: 20, action: 'warn' }, { threshold: 50, action: 'lock' }],
+                    onWarn,
+                },
+            }),
+        });
+
+        act(() => {
+            result.current.context.reportIncident('DOM_TAMPERING', { kind: 'inline_script' });
+        });
+
+        expect(result.current.risk.score).toBe(50);
+        expect(result.current.risk.triggered).toEqual(['warn@20', 'lock@50']);
+        // Policy actions run after the report that crossed the threshold has returned
+        await waitFor(() => {
+            expect(result.current.context.securityState.isLocked).toBe(true);
+        });
+        expect(onWarn).toHaveBeenCalledWith(expect.objectContaining({ score: 50 }));
+        await waitFor(() => {
+            expect(sentTypes()).toEqual(expect.arrayContaining(['RISK_POLICY_TRIGGERED', 'SESSION_LOCKED']));
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { Nis2Provider } from '../../context/Nis2Context';
+import { useScriptInventory } from '../../hooks/useScriptInventory';
+
+describe('useScriptInventory', () => {
+    let mockFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        mockFetch = vi.fn().mockResolvedValue({ ok: true });
+        global.fetch = mockFetch;
+    });
+
+    afterEach(() => {
+        document.head.querySelectorAll('script').forEach(script => script.remove());
+    });
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Nis2Provider config={{ auditEndpoint: '/api/test', scriptInventory: { manifest: ['https://js.stripe.com'] } }}>
+            {children}
+        </Nis2Provider>
+    );
+
+    it('is disabled without config.scriptInventory', () => {
+        const { result } = renderHook(() => useScriptInventory(), {
+            wrapper: ({ children }) => <Nis2Provider config={{ auditEndpoint: '/api/test' }}>{children}</Nis2Provider>,
+        });
+
+        expect(result.current.enabled).toBe(false);
+        expect(result.current.report).toBeNull();
+        expect(result.current.scripts).toEqual([]);
+    });
+
+    it('lists scripts and reports unauthorised ones as UNAUTHORIZED_SCRIPT', async () => {
+        const { result } = renderHook(() => useScriptInventory(), { wrapper });
+        expect(result.current.enabled).toBe(true);
+
+        act(() => {
+            ['https://js.stripe.com/v3/', 'https://evil.example/skim.js'].forEach(src => {
+                const script = document.createElement('script');
+                script.src = src;
+                document.head.appendChild(script);
+            });
+            result.current.rescan();
+        });
+
+        expect(result.current.scripts).toHaveLength(2);
+        expect(result.current.unauthorized.map(entry => entry.url)).toEqual(['https://evil.example/skim.js']);
+        await waitFor(() => {
+            const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+            expect(body.type).toBe('UNAUTHORIZED_SCRIPT');
+            expect(body.severity).toBe('ERROR');
+            expect(body.payload).toMatchObject({ origin: 'https://evil.example', reason: 'not_in_manifest' });
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { Nis2Provider } from '../../context/Nis2Context';
+import { useSessionState } from '../../hooks/useSessionState';
+
+describe('useSessionState', () => {
+    let mockFetch: ReturnType<typeof vi.fn>;
+    const onStateChange = vi.fn();
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        onStateChange.mockClear();
+        mockFetch = vi.fn().mockResolvedValue({ ok: true });
+        global.fetch = mockFetch;
+    });
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Nis2Provider config={{ auditEndpoint: '/api/test', onStateChange }}>
+            {children}
+        </Nis2Provider>
+    );
+
+    it('starts active with an empty history', () => {
+        const { result } = renderHook(() => useSessionState(), { wrapper });
+
+        expect(result.current.status).toBe('active');
+        expect(result.current.reason).toBeNull();
+        expect(result.current.history).toEqual([]);
+    });
+
+    it('markCompromised moves to compromised, notifies and reports SESSION_COMPROMISED', async () => {
+        const { result } = renderHook(() => useSessionState(), { wrapper });
+
+        act(() => {
+            result.current.markCompromised('token_reuse');
+        });
+
+        expect(result.current.status).toBe('compromised');
+        expect(result.current.reason).toBe('compromised');
+        expect(onStateChange).toHaveBeenCalledWith(expect.objectContaining({
+            from: 'active',
+            to: 'compromised',
+            detail: 'token_reuse',
+        }));
+        await waitFor(() => {
+            const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+            expect(body.type).toBe('SESSION_COMPROMISED');
+            expect(body.severity).toBe('CRITICAL');
+        });
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuditChain, verifyAuditChain, canonicalJson, GENESIS_HASH } from '../../utils/auditChain';
+import { EnvelopeFactory, TelemetryEvent } from '../../utils/eventEnvelope';
+
+const SECRET = 'backend-issued-session-secret';
+
+const sealEvents = async (count: number, secret = SECRET) => {
+    const envelopes = new EnvelopeFactory();
+    const chain = new AuditChain({ sessionId: envelopes.sessionId, sessionSecret: secret });
+    const events: TelemetryEvent[] = [];
+    for (let i = 0; i < count; i++) {
+        events.push(await chain.seal(envelopes.create('INFO', { event: `EVENT_${i}` })));
+    }
+    return events;
+};
+
+describe('auditChain', () => {
+    beforeEach(() => {
+        sessionStorage.clear();
+    });
+
+    describe('canonicalJson', () => {
+        it('sorts keys at every level and drops undefined members', () => {
+            expect(canonicalJson({ b: 1, a: { d: [1, { z: true, y: null }], c: undefined } }))
+                .toBe('{"a":{"d":[1,{"y":null,"z":true}]},"b":1}');
+        });
+
+        it('hashes what JSON.stringify sends', () => {
+            expect(canonicalJson({ at: new Date(0), run: () => undefined, list: [undefined] }))
+                .toBe('{"at":"1970-01-01T00:00:00.000Z","list":[null]}');
+        });
+    });
+
+    describe('AuditChain', () => {
+        it('links each event to the previous one and signs it', async () => {
+            const [first, second] = await sealEvents(2);
+
+            expect(first.integrity).toMatchObject({ alg: 'HMAC-SHA256', prevHash: GENESIS_HASH });
+            expect(first.integrity!.hash).toMatch(/^[0-9a-f]{64}$/);
+            expect(first.integrity!.hmac).toMatch(/^[0-9a-f]{64}$/);
+            expect(second.integrity!.prevHash).toBe(first.integrity!.hash);
+        });
+
+        it('seals in call order even when called concurrently', async () => {
+            const envelopes = new EnvelopeFactory();
+            const chain = new AuditChain({ sessionId: envelopes.sessionId, sessionSecret: SECRET });
+
+            const events = await Promise.all([1, 2, 3].map(() => chain.seal(envelopes.create('INFO', {}))));
+
+            expect(events[1].integrity!.prevHash).toBe(events[0].integrity!.hash);
+            expect(events[2].integrity!.prevHash).toBe(events[1].integrity!.hash);
+        });
+
+        it('continues the chain after a reload of the tab', async () => {
+            const [first] = await sealEvents(1);
+
+            const envelopes = new EnvelopeFactory();
+            const chain = new AuditChain({ sessionId: envelopes.sessionId, sessionSecret: SECRET });
+            const next = await chain.seal(envelopes.create('INFO', {}));
+
+            expect(next.integrity!.prevHash).toBe(first.integrity!.hash);
+        });
+
+        it('keeps chaining without a signature when the secret is unavailable', async () => {
+            const envelopes = new EnvelopeFactory();
+            const sessionSecret = vi.fn().mockRejectedValue(new Error('401'));
+            const chain = new AuditChain({ sessionId: envelopes.sessionId, sessionSecret });
+
+            const event = await chain.seal(envelopes.create('INFO', {}));
+
+            expect(event.integrity!.hmac).toBeNull();
+            expect(event.integrity!.hash).toMatch(/^[0-9a-f]{64}$/);
+        });
+    });
+
+    describe('verifyAuditChain', () => {
+        it('accepts an intact chain, including replayed duplicates', async () => {
+            const events = await sealEvents(3);
+
+            const report = await verifyAuditChain([...events, events[1]], { sessionSecret: SECRET });
+
+            expect(report).toEqual({ valid: true, issues: [] });
+        });
+
+        it('verifies events carrying a Date once they went through JSON', async () => {
+            const envelopes = new EnvelopeFactory();
+            const chain = new AuditChain({ sessionId: envelopes.sessionId, sessionSecret: SECRET });
+            const event = await chain.seal(envelopes.create('INFO', { loggedInAt: new Date(0) }));
+
+            const received = JSON.parse(JSON.stringify([event]));
+
+            expect(await verifyAuditChain(received, { sessionSecret: SECRET })).toEqual({ valid: true, issues: [] });
+        });
+
+        it('detects deleted events', async () => {
+            const events = await sealEvents(4);
+
+            const report = await verifyAuditChain([events[0], events[1], events[3]], { sessionSecret: SECRET });
+
+            expect(report.valid).toBe(false);
+            expect(report.issues).toEqual([expect.objectContaining({ kind: 'missing', sequence: 3 })]);
+        });
+
+        it('detects events deleted from the head of the session', async () => {
+            const events = await sealEvents(4);
+
+            const report = await verifyAuditChain(events.slice(2), { sessionSecret: SECRET });
+
+            expect(report.valid).toBe(false);
+            expect(report.issues).toEqual([
+                expect.objectContaining({ kind: 'missing', sequence: 1, detail: 'sequence 1..2 not received' }),
+            ]);
+        });
+
+        it('detects reordered events', async () => {
+            const events = await sealEvents(3);
+
+            const report = await verifyAuditChain([events[0], events[2], events[1]], { sessionSecret: SECRET });
+
+            expect(report.issues).toEqual([expect.objectContaining({ kind: 'reordered', sequence: 2 })]);
+        });
+
+        it('detects modified events', async () => {
+            const events = await sealEvents(2);
+            const tampered = { ...events[1], payload: { event: 'NOTHING_TO_SEE' } };
+
+            const report = await verifyAuditChain([events[0], tampered], { sessionSecret: SECRET });
+
+            expect(report.issues).toEqual([expect.objectContaining({ kind: 'modified', sequence: 2 })]);
+        });
+
+        it('detects events re-hashed without the session key', async () => {
+            const genuine = await sealEvents(1);
+            sessionStorage.clear();
+            const forged = await sealEvents(1, 'attacker-guess');
+            forged[0] = { ...forged[0], sessionId: genuine[0].sessionId };
+
+            const report = await verifyAuditChain(forged, { sessionSecret: SECRET });
+
+            expect(report.issues.map(issue => issue.kind)).toContain('invalid_signature');
+        });
+
+        it('flags events without an integrity block', async () => {
+            const event = new EnvelopeFactory().create('INFO', {});
+
+            const report = await verifyAuditChain([event]);
+
+            expect(report.issues).toEqual([expect.objectContaining({ kind: 'unsigned' })]);
+        });
+    });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    InteractionTracker,
+    assessAutomation,
+    collectEnvironmentSignals,
+    directionEntropy
+} from '../../utils/automationSignals';
+
+const CHROME_UA = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+const fakeNavigator = (overrides: Record<string, unknown>) => ({
+    userAgent: CHROME_UA,
+    webdriver: false,
+    languages: ['en-GB', 'en'],
+    plugins: { length: 5 },
+    ...overrides,
+}) as unknown as Navigator;
+
+const fakeWindow = (outerWidth = 1280, outerHeight = 800) => ({ outerWidth, outerHeight }) as Window;
+
+/** jsdom events cannot be given a timeStamp at creation. */
+const dispatch = (target: HTMLElement, event: Event, timeStamp = 0) => {
+    Object.defineProperty(event, 'timeStamp', { value: timeStamp });
+    target.dispatchEvent(event);
+};
+
+const pointer = (type: string, clientX = 0, clientY = 0) => {
+    const event = new MouseEvent(type, { clientX, clientY, bubbles: true });
+    Object.defineProperty(event, 'pointerType', { value: 'mouse' });
+    return event;
+};
+
+describe('collectEnvironmentSignals', () => {
+    it('finds nothing in an ordinary desktop browser', () => {
+        expect(collectEnvironmentSignals(fakeNavigator({}), fakeWindow())).toEqual([]);
+    });
+
+    it('explains each automation indicator', () => {
+        const signals = collectEnvironmentSignals(fakeNavigator({
+            webdriver: true,
+            userAgent: CHROME_UA.replace('Chrome/', 'HeadlessChrome/'),
+            languages: [],
+            plugins: { length: 0 },
+        }), fakeWindow(0, 0));
+
+        expect(signals.map(signal => signal.id)).toEqual([
+            'webdriver', 'headless_user_agent', 'no_languages', 'no_plugins', 'zero_window_size',
+        ]);
+        expect(signals[1].explanation).toContain('HeadlessChrome');
+        expect(assessAutomation(signals, { keystrokes: 0, pointerMoves: 0, clicks: 0 }).score).toBe(100);
+    });
+
+    it('finds nothing outside a browser', () => {
+        expect(collectEnvironmentSignals(undefined, undefined)).toEqual([]);
+    });
+
+    it('does not expect plugins on mobile browsers', () => {
+        const mobile = fakeNavigator({ userAgent: `${CHROME_UA} Mobile`, plugins: { length: 0 } });
+
+        expect(collectEnvironmentSignals(mobile, fakeWindow())).toEqual([]);
+    });
+});
+
+describe('directionEntropy', () => {
+    it('is 0 for a straight line and high for varied movement', () => {
+        const line = Array.from({ length: 12 }, (_, i) => ({ x: i * 10, y: i * 5 }));
+        const wander = [0, 1, 2, 3, 4, 5, 6, 7, 0, 3, 6, 1].map(i => ({
+            x: Math.cos(i * Math.PI / 4) * 10 * (i + 1),
+            y: Math.sin(i * Math.PI / 4) * 10 * (i + 1),
+        }));
+
+        expect(directionEntropy(line)).toBe(0);
+        expect(directionEntropy(wander)).toBeGreaterThan(0.6);
+    });
+});
+
+describe('InteractionTracker', () => {
+    const element = document.createElement('form');
+    const tracker = new InteractionTracker();
+    // Events dispatched in jsdom are never trusted, so `synthetic_events` always fires here
+    const behaviourSignals = () => tracker.getSignals().filter(signal => signal.id !== 'synthetic_events');
+
+    afterEach(() => {
+        tracker.detach();
+        tracker.reset();
+    });
+
+    it('flags fast, machine-regular typing', () => {
+        tracker.attach(element);
+        for (let i = 0; i < 8; i++) dispatch(element, new KeyboardEvent('keydown', { key: 'a' }), i * 10);
+
+        expect(behaviourSignals().map(signal => signal.id)).toEqual(['inhuman_typing_speed', 'uniform_typing']);
+        expect(tracker.getCounts().keystrokes).toBe(8);
+    });
+
+    it('accepts human typing rhythm', () => {
+        tracker.attach(element);
+        [0, 140, 310, 390, 620, 700, 910, 1080].forEach(time => dispatch(element, new KeyboardEvent('keydown', { key: 'a' }), time));
+
+        expect(behaviourSignals()).toEqual([]);
+    });
+
+    it('flags untrusted events and clicks without movement', () => {
+        tracker.attach(element);
+        dispatch(element, new Event('input'));
+        dispatch(element, pointer('pointerdown'));
+        dispatch(element, pointer('pointermove', 5, 5));
+        dispatch(element, pointer('pointerdown'));
+
+        const signals = tracker.getSignals();
+        expect(signals.map(signal => signal.id)).toEqual(['synthetic_events', 'click_without_pointer_movement']);
+        expect(signals[0].explanation).toBe('4 events were dispatched by a script');
+        expect(signals[1].explanation).toBe('1 of 2 mouse clicks had no pointer movement before them');
+    });
+
+    it('flags straight-line pointer movement and stops recording when detached', () => {
+        tracker.attach(element);
+        for (let i = 0; i < 12; i++) dispatch(element, pointer('pointermove', i * 20, 100));
+
+        expect(behaviourSignals().map(signal => signal.id)).toEqual(['linear_pointer_movement']);
+
+        tracker.detach();
+        dispatch(element, new KeyboardEvent('keydown', { key: 'a' }));
+        expect(tracker.getCounts()).toEqual({ keystrokes: 0, pointerMoves: 12, clicks: 0 });
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ClockWatch } from '../../utils/clockWatch';
+
+describe('ClockWatch', () => {
+    const onResume = vi.fn();
+    const onClockSkew = vi.fn();
+    let mono = 0;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.clearAllMocks();
+        mono = 0;
+        vi.spyOn(performance, 'now').mockImplementation(() => mono);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    const advance = (ms: number) => {
+        mono += ms;
+        vi.advanceTimersByTime(ms);
+    };
+
+    it('stays quiet while heartbeats arrive on time', () => {
+        const watch = new ClockWatch({ onResume, onClockSkew });
+        watch.start();
+
+        advance(10000);
+
+        expect(onResume).not.toHaveBeenCalled();
+        expect(onClockSkew).not.toHaveBeenCalled();
+        watch.stop();
+    });
+
+    it('reports the gap when the page resumes after a suspension', () => {
+        const watch = new ClockWatch({ onResume, onClockSkew });
+        watch.start();
+
+        // Timers did not run for 10 minutes (system sleep)
+        vi.setSystemTime(Date.now() + 10 * 60000);
+        watch.tick();
+
+        expect(onResume).toHaveBeenCalledWith(10 * 60000);
+        watch.stop();
+    });
+
+    it('checks again when a frozen tab is resumed', () => {
+        const watch = new ClockWatch({ onResume, onClockSkew });
+        watch.start();
+
+        vi.setSystemTime(Date.now() + 60000);
+        document.dispatchEvent(new Event('resume'));
+
+        expect(onResume).toHaveBeenCalledTimes(1);
+        watch.stop();
+    });
+
+    it('ignores the throttled heartbeats of a hidden tab but not a suspension', () => {
+        const hidden = vi.spyOn(document, 'hidden', 'get').mockReturnValue(true);
+        const watch = new ClockWatch({ onResume, onClockSkew });
+        watch.start();
+
+        // Hidden tabs run timers about once a minute
+        for (let i = 0; i < 3; i++) {
+            vi.setSystemTime(Date.now() + 60000);
+            watch.tick();
+        }
+        hidden.mockReturnValue(false);
+        vi.setSystemTime(Date.now() + 30000);
+        document.dispatchEvent(new Event('visibilitychange'));
+        expect(onResume).not.toHaveBeenCalled();
+
+        hidden.mockReturnValue(true);
+        watch.tick();
+        vi.setSystemTime(Date.now() + 10 * 60000);
+        watch.tick();
+        expect(onResume).toHaveBeenCalledWith(10 * 60000);
+        watch.stop();
+    });
+
+    it('reports a wall clock set back, net of the elapsed time', () => {
+        const watch = new ClockWatch({ onResume, onClockSkew });
+        watch.start();
+
+        mono += 1000;
+        vi.setSystemTime(Date.now() - 3600000 + 1000);
+        watch.tick();
+
+        expect(onClockSkew).toHaveBeenCalledWith(-3600000);
+        expect(onResume).not.toHaveBeenCalled();
+        watch.stop();
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CspMonitor, CspAnalyzer, normalizeCspViolation, CspViolation } from '../../utils/cspMonitor';
+
+// jsdom has no SecurityPolicyViolationEvent: build one from a plain event
+const violationEvent = (init: Partial<SecurityPolicyViolationEvent>) =>
+    Object.assign(new Event('securitypolicyviolation'), {
+        effectiveDirective: 'script-src-elem',
+        violatedDirective: 'script-src',
+        blockedURI: 'https://evil.example/x.js?token=abc',
+        sourceFile: 'https://app.example/main.js?v=3',
+        lineNumber: 12,
+        columnNumber: 4,
+        sample: '',
+        disposition: 'enforce',
+        ...init,
+    }) as SecurityPolicyViolationEvent;
+
+describe('normalizeCspViolation', () => {
+    it('keeps the directive and location and drops query strings', () => {
+        expect(normalizeCspViolation(violationEvent({}))).toEqual({
+            directive: 'script-src-elem',
+            blockedUri: 'https://evil.example/x.js',
+            sourceFile: 'https://app.example/main.js',
+            line: 12,
+            column: 4,
+            disposition: 'enforce',
+        });
+    });
+
+    it('keeps keywords and the sample of inline violations', () => {
+        const violation = normalizeCspViolation(violationEvent({ blockedURI: 'inline', sample: 'alert(1)', disposition: 'report' }));
+
+        expect(violation.blockedUri).toBe('inline');
+        expect(violation.sample).toBe('alert(1)');
+        expect(violation.disposition).toBe('report');
+    });
+});
+
+describe('CspMonitor', () => {
+    let monitor: CspMonitor | null = null;
+
+    afterEach(() => {
+        monitor?.stop();
+    });
+
+    it('reports each distinct violation once per page load', () => {
+        const onViolation = vi.fn();
+        const onEveryViolation = vi.fn();
+        monitor = new CspMonitor({ onViolation, onEveryViolation });
+        monitor.start();
+
+        document.dispatchEvent(violationEvent({}));
+        document.dispatchEvent(violationEvent({}));
+        document.dispatchEvent(violationEvent({ lineNumber: 40 }));
+
+        expect(onViolation).toHaveBeenCalledTimes(2);
+        expect(onEveryViolation).toHaveBeenCalledTimes(3);
+    });
+
+    it('drops distinct violations beyond maxReports', () => {
+        const onViolation = vi.fn();
+        monitor = new CspMonitor({ onViolation, maxReports: 2 });
+        monitor.start();
+
+        [1, 2, 3, 4].forEach(line => document.dispatchEvent(violationEvent({ lineNumber: line })));
+
+        expect(onViolation).toHaveBeenCalledTimes(2);
+        expect(monitor.getStats()).toEqual({ reported: 2, dropped: 2 });
+    });
+});
+
+describe('CspAnalyzer', () => {
+    const violation = (directive: string, blockedUri: string): CspViolation => ({ directive, blockedUri, disposition: 'report' });
+
+    it('proposes a policy allowing the observed origins per directive', () => {
+        const analyzer = new CspAnalyzer();
+        analyzer.collect(violation('script-src-elem', 'https://cdn.example/lib.js'));
+        analyzer.collect(violation('script-src', 'https://cdn.example/other.js'));
+        analyzer.collect(violation('img-src', 'data'));
+
+        const analysis = analyzer.analyze();
+
+        expect(analysis.directives['script-src']).toEqual(["'self'", 'https://cdn.example']);
+        expect(analysis.policy).toBe("script-src 'self' https://cdn.example; img-src 'self' data:");
+        expect(analysis.total).toBe(3);
+    });
+
+    it('suggests nonces instead of unsafe-inline and removing eval', () => {
+        const analyzer = new CspAnalyzer();
+        analyzer.collect(violation('script-src-attr', 'inline'));
+        analyzer.collect(violation('script-src', 'eval'));
+
+        const suggestions = analyzer.analyze().suggestions.map(s => s.suggestion).join('\n');
+
+        expect(suggestions).toContain('nonce');
+        expect(suggestions).toContain("'unsafe-eval'");
+        expect(analyzer.analyze().policy).toBe("script-src 'self'");
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DomIntegrityWatcher, DomIntegrityOptions, matchesOrigin } from '../../utils/domIntegrity';
+
+// MutationObserver callbacks run as microtasks
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('matchesOrigin', () => {
+    it('matches exact origins and subdomain wildcards', () => {
+        expect(matchesOrigin('https://js.stripe.com', 'https://js.stripe.com')).toBe(true);
+        expect(matchesOrigin('https://m.stripe.com', 'https://*.stripe.com')).toBe(true);
+        expect(matchesOrigin('https://stripe.com.evil.example', 'https://*.stripe.com')).toBe(false);
+        expect(matchesOrigin('http://m.stripe.com', 'https://*.stripe.com')).toBe(false);
+    });
+});
+
+describe('DomIntegrityWatcher', () => {
+    let watcher: DomIntegrityWatcher | null = null;
+
+    afterEach(() => {
+        watcher?.stop();
+        watcher = null;
+        document.body.innerHTML = '';
+    });
+
+    const watch = (options: Partial<DomIntegrityOptions> = {}) => {
+        const onTampering = vi.fn();
+        watcher = new DomIntegrityWatcher({ onTampering, ...options });
+        watcher.start();
+        return onTampering;
+    };
+
+    it('reports external scripts from origins not in the allowlist', async () => {
+        const onTampering = watch({ allowedScriptOrigins: ['https://js.stripe.com'] });
+
+        const allowed = document.createElement('script');
+        allowed.src = 'https://js.stripe.com/v3/';
+        const injected = document.createElement('script');
+        injected.src = 'https://cdn.evil.example/skim.js?id=42';
+        document.head.append(allowed, injected);
+        await flush();
+
+        expect(onTampering).toHaveBeenCalledTimes(1);
+        expect(onTampering).toHaveBeenCalledWith({
+            kind: 'external_script',
+            element: 'script',
+            attribute: 'src',
+            value: 'https://cdn.evil.example/skim.js',
+        });
+        injected.remove();
+        allowed.remove();
+    });
+
+    it('reports inline handlers on added and modified elements', async () => {
+        const onTampering = watch();
+        const button = document.createElement('button');
+        document.body.appendChild(button);
+        await flush();
+
+        button.setAttribute('onclick', 'steal()');
+        document.body.insertAdjacentHTML('beforeend', '<img id="pixel" onerror="steal()">');
+        await flush();
+
+        expect(onTampering.mock.calls.map(([finding]) => [finding.kind, finding.element, finding.attribute])).toEqual([
+            ['inline_handler', 'button', 'onclick'],
+            ['inline_handler', 'img#pixel', 'onerror'],
+        ]);
+    });
+
+    it('reports hidden iframes unless their origin is allowed', async () => {
+        const onTampering = watch({ allowedFrameOrigins: ['https://*.stripe.com'] });
+
+        document.body.insertAdjacentHTML('beforeend', [
+            '<iframe src="https://hooks.stripe.com/3ds" width="1" height="1"></iframe>',
+            '<iframe src="https://evil.example/collect" style="display: none"></iframe>',
+            '<iframe src="https://maps.example/embed"></iframe>',
+        ].join(''));
+        await flush();
+
+        expect(onTampering.mock.calls.map(([finding]) => [finding.kind, finding.value])).toEqual([
+            ['hidden_iframe', 'https://evil.example/collect'],
+            ['untrusted_iframe', 'https://maps.example/embed'],
+        ]);
+    });
+
+    it('reports forms and links pointed at another origin', async () => {
+        document.body.innerHTML = '<form id="checkout" action="/pay"></form><a href="/help">Help</a><a href="https://docs.example/">Docs</a>';
+        const onTampering = watch({ allowedNavigationOrigins: ['https://pay.example'] });
+
+        const form = document.getElementById('checkout')!;
+        form.setAttribute('action', '/pay/confirm');
+        await flush();
+        expect(onTampering).not.toHaveBeenCalled();
+
+        form.setAttribute('action', 'https://pay.example/session');
+        await flush();
+        expect(onTampering).not.toHaveBeenCalled();
+
+        form.setAttribute('action', 'https://evil.example/collect?cc=1');
+        document.querySelector('a')!.setAttribute('href', 'javascript:steal()');
+        await flush();
+
+        expect(onTampering).toHaveBeenCalledTimes(2);
+        expect(onTampering).toHaveBeenNthCalledWith(1, {
+            kind: 'form_action_changed',
+            element: 'form#checkout',
+            attribute: 'action',
+            value: 'https://evil.example/collect',
+            previousValue: 'https://pay.example/session',
+        });
+        expect(onTampering.mock.calls[1][0]).toMatchObject({ kind: 'link_href_changed', value: 'javascript:' });
+    });
+
+    it('reports each finding once and stops observing on stop()', async () => {
+        const onTampering = watch();
+        const first = document.createElement('div');
+        first.setAttribute('onmouseover', 'steal()');
+        const second = document.createElement('div');
+        second.setAttribute('onmouseover', 'steal()');
+        document.body.append(first, second);
+        await flush();
+        expect(onTampering).toHaveBeenCalledTimes(1);
+
+        watcher!.stop();
+        document.body.insertAdjacentHTML('beforeend', '<script src="https://evil.example/x.js"></script>');
+        await flush();
+        expect(onTampering).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ErrorCollector, toCrashReport, classifyOrigin, markCrashReported } from '../../utils/errorCollector';
+
+const errorEvent = (init: ErrorEventInit) => new ErrorEvent('error', { cancelable: true, ...init });
+
+const rejectionEvent = (reason: unknown) =>
+    Object.assign(new Event('unhandledrejection'), { reason, promise: Promise.resolve() });
+
+describe('toCrashReport', () => {
+    it('keeps message, name and stack, and tags the first stack frame', () => {
+        const error = new TypeError('x is undefined');
+        error.stack = `TypeError: x is undefined\n    at onClick (${window.location.origin}/assets/app.js:10:5)`;
+
+        expect(toCrashReport(error, 'error')).toEqual({
+            message: 'x is undefined',
+            name: 'TypeError',
+            stack: error.stack,
+            mechanism: 'error',
+            source: { url: `${window.location.origin}/assets/app.js`, line: 10, column: 5, origin: 'same-origin' },
+        });
+    });
+
+    it('serialises non-Error rejection reasons', () => {
+        expect(toCrashReport({ code: 42 }, 'unhandledrejection')).toEqual({ message: '{"code":42}', mechanism: 'unhandledrejection' });
+    });
+});
+
+describe('classifyOrigin', () => {
+    it('tells same-origin from third-party scripts', () => {
+        expect(classifyOrigin('/main.js')).toBe('same-origin');
+        expect(classifyOrigin('https://cdn.other.example/widget.js')).toBe('third-party');
+        expect(classifyOrigin(undefined)).toBe('unknown');
+    });
+});
+
+describe('ErrorCollector', () => {
+    const onCrash = vi.fn();
+    let collector: ErrorCollector;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        onCrash.mockClear();
+    });
+
+    afterEach(() => {
+        collector.stop();
+        vi.useRealTimers();
+    });
+
+    it('reports uncaught errors with their source', () => {
+        collector = new ErrorCollector({ onCrash });
+        collector.start();
+
+        window.dispatchEvent(errorEvent({
+            message: 'boom',
+            error: new Error('boom'),
+            filename: 'https://cdn.other.example/widget.js',
+            lineno: 3,
+            colno: 7,
+        }));
+        vi.runAllTimers();
+
+        expect(onCrash).toHaveBeenCalledWith(expect.objectContaining({
+            message: 'boom',
+            mechanism: 'error',
+            source: { url: 'https://cdn.other.example/widget.js', line: 3, column: 7, origin: 'third-party' },
+        }));
+    });
+
+    it('reports unhandled rejections', () => {
+        collector = new ErrorCollector({ onCrash });
+        collector.start();
+
+        window.dispatchEvent(rejectionEvent(new Error('request failed')));
+        vi.runAllTimers();
+
+        expect(onCrash).toHaveBeenCalledWith(expect.objectContaining({ message: 'request failed', mechanism: 'unhandledrejection' }));
+    });
+
+    it('drops opaque cross-origin "Script error." events', () => {
+        collector = new ErrorCollector({ onCrash });
+        collector.start();
+
+        window.dispatchEvent(errorEvent({ message: 'Script error.' }));
+        vi.runAllTimers();
+
+        expect(onCrash).not.toHaveBeenCalled();
+        expect(collector.getIgnoredCount()).toBe(1);
+    });
+
+    it('honours ignore patterns and ignoreThirdParty', () => {
+        collector = new ErrorCollector({ onCrash, ignoreThirdParty: true, ignore: [/ResizeObserver/] });
+        collector.start();
+
+        window.dispatchEvent(errorEvent({ message: 'ResizeObserver loop limit exceeded', filename: '/main.js', lineno: 1 }));
+        window.dispatchEvent(errorEvent({ message: 'boom', filename: 'https://ads.example/ad.js', lineno: 1 }));
+        vi.runAllTimers();
+
+        expect(onCrash).not.toHaveBeenCalled();
+    });
+
+    it('matches global patterns on every message', () => {
+        collector = new ErrorCollector({ onCrash, ignore: [/ResizeObserver/g] });
+        collector.start();
+
+        window.dispatchEvent(errorEvent({ message: 'ResizeObserver loop limit exceeded', filename: '/main.js', lineno: 1 }));
+        window.dispatchEvent(errorEvent({ message: 'ResizeObserver loop completed', filename: '/main.js', lineno: 2 }));
+        vi.runAllTimers();
+
+        expect(onCrash).not.toHaveBeenCalled();
+        expect(collector.getIgnoredCount()).toBe(2);
+    });
+
+    it('skips errors already reported by AuditBoundary', () => {
+        collector = new ErrorCollector({ onCrash });
+        collector.start();
+        const error = new Error('render failed');
+
+        window.dispatchEvent(errorEvent({ message: error.message, error, filename: '/main.js', lineno: 1 }));
+        markCrashReported(error);
+        vi.runAllTimers();
+
+        expect(onCrash).not.toHaveBeenCalled();
+    });
+});
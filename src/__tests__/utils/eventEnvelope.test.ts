@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EnvelopeFactory, EVENT_SCHEMA_VERSION } from '../../utils/eventEnvelope';
+import schema from '../../../schema/nis2-event.schema.json';
+
+describe('EnvelopeFactory', () => {
+    beforeEach(() => {
+        sessionStorage.clear();
+    });
+
+    it('wraps payloads in the versioned envelope', () => {
+        const factory = new EnvelopeFactory({ appVersion: '2.4.1', tenant: 'acme' });
+        const event = factory.create('WARNING', { event: 'HIGH_VALUE_TRANSACTION' });
+
+        expect(event).toMatchObject({
+            schemaVersion: EVENT_SCHEMA_VERSION,
+            type: 'WARNING',
+            severity: 'WARNING',
+            sequence: 1,
+            sessionId: factory.sessionId,
+            url: window.location.href,
+            appVersion: '2.4.1',
+            tenant: 'acme',
+            payload: { event: 'HIGH_VALUE_TRANSACTION' },
+        });
+        expect(event.id).toBeTruthy();
+        expect(new Date(event.timestamp).toISOString()).toBe(event.timestamp);
+    });
+
+    it('derives severity from the event type unless given explicitly', () => {
+        const factory = new EnvelopeFactory();
+
+        expect(factory.create('REACT_COMPONENT_CRASH', {}).severity).toBe('ERROR');
+        expect(factory.create('INSECURE_CONNECTION', {}).severity).toBe('WARNING');
+        expect(factory.create('CUSTOM_EVENT', {}).severity).toBe('INFO');
+        expect(factory.create('CUSTOM_EVENT', {}, 'CRITICAL').severity).toBe('CRITICAL');
+    });
+
+    it('keeps session id and sequence across reloads of the tab', () => {
+        const first = new EnvelopeFactory();
+        first.create('INFO', {});
+        first.create('INFO', {});
+
+        const afterReload = new EnvelopeFactory();
+        const event = afterReload.create('INFO', {});
+
+        expect(afterReload.sessionId).toBe(first.sessionId);
+        expect(event.sequence).toBe(3);
+    });
+
+    it('omits appVersion and tenant when not configured', () => {
+        const event = new EnvelopeFactory().create('INFO', {});
+
+        expect(event).not.toHaveProperty('appVersion');
+        expect(event).not.toHaveProperty('tenant');
+    });
+
+    it('matches the published JSON Schema', () => {
+        const event = new EnvelopeFactory({ appVersion: '1.0.0', tenant: 'acme' }).create('INFO', {});
+
+        expect(schema.properties.schemaVersion.const).toBe(EVENT_SCHEMA_VERSION);
+        expect(Object.keys(event).sort()).toEqual(
+            expect.arrayContaining([...schema.required].sort())
+        );
+        Object.keys(event).forEach(key => expect(schema.properties).toHaveProperty(key));
+        expect(schema.properties.severity.enum).toContain(event.severity);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { detectFraming } from '../../utils/frameGuard';
+
+const APP = 'https://app.example.com';
+
+/** A window-like object: `framed` makes `top` differ from `self`. */
+const fakeWindow = ({ framed = true, ancestorOrigins, parentOrigin, referrer = '' }: {
+    framed?: boolean;
+    ancestorOrigins?: string[];
+    parentOrigin?: string;
+    referrer?: string;
+}) => {
+    const target: Record<string, any> = {
+        location: { origin: APP, ancestorOrigins },
+        document: { referrer },
+        parent: {
+            get location() {
+                if (!parentOrigin) throw new DOMException('Blocked a frame', 'SecurityError');
+                return { origin: parentOrigin };
+            },
+        },
+    };
+    target.self = target;
+    target.top = framed ? {} : target;
+    return target as unknown as Window;
+};
+
+describe('detectFraming', () => {
+    it('is allowed when the page is the top window', () => {
+        expect(detectFraming({}, fakeWindow({ framed: false }))).toEqual({
+            framed: false,
+            parentOrigin: null,
+            ancestorOrigins: [],
+            source: 'none',
+            allowed: true,
+        });
+    });
+
+    it('checks every ancestor from location.ancestorOrigins', () => {
+        const options = { allowedParents: ['https://*.intranet.example'] };
+
+        expect(detectFraming(options, fakeWindow({ ancestorOrigins: ['https://portal.intranet.example'] }))).toMatchObject({
+            framed: true,
+            parentOrigin: 'https://portal.intranet.example',
+            source: 'ancestorOrigins',
+            allowed: true,
+        });
+        expect(detectFraming(options, fakeWindow({
+            ancestorOrigins: ['https://portal.intranet.example', 'https://evil.example'],
+        })).allowed).toBe(false);
+    });
+
+    it('allows same-origin parents unless allowSameOrigin is false', () => {
+        const target = fakeWindow({ parentOrigin: APP });
+
+        expect(detectFraming({}, target)).toMatchObject({ parentOrigin: APP, source: 'same-origin', allowed: true });
+        expect(detectFraming({ allowSameOrigin: false }, target).allowed).toBe(false);
+    });
+
+    it('falls back to the referrer for cross-origin parents', () => {
+        expect(detectFraming({}, fakeWindow({ referrer: 'https://evil.example/landing?x=1' }))).toMatchObject({
+            parentOrigin: 'https://evil.example',
+            source: 'referrer',
+            allowed: false,
+        });
+    });
+
+    it('never allows a parent it cannot identify', () => {
+        expect(detectFraming({ allowedParents: ['https://portal.example'] }, fakeWindow({}))).toMatchObject({
+            parentOrigin: null,
+            source: 'unknown',
+            allowed: false,
+        });
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IdleCountdown } from '../../utils/idleCountdown';
+
+describe('IdleCountdown', () => {
+    const onWarning = vi.fn();
+    const onIdle = vi.fn();
+    const onActive = vi.fn();
+
+    const createCountdown = (warningMs = 10000) => {
+        const countdown = new IdleCountdown({ timeoutMs: 60000, warningMs, onWarning, onIdle, onActive });
+        countdown.start();
+        return countdown;
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('enters the warning phase before the timeout, then goes idle', () => {
+        const countdown = createCountdown();
+
+        vi.advanceTimersByTime(49999);
+        expect(onWarning).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1);
+        expect(onWarning).toHaveBeenCalledWith(10000);
+        expect(countdown.getPhase()).toBe('warning');
+
+        vi.advanceTimersByTime(10000);
+        expect(onIdle).toHaveBeenCalledTimes(1);
+        expect(countdown.getPhase()).toBe('idle');
+    });
+
+    it('restarts the timer on activity while active', () => {
+        const countdown = createCountdown();
+
+        vi.advanceTimersByTime(40000);
+        countdown.markActivity();
+        vi.advanceTimersByTime(40000);
+
+        expect(onWarning).not.toHaveBeenCalled();
+        expect(countdown.getRemainingMs()).toBe(20000);
+    });
+
+    it('ignores passive activity during the warning phase', () => {
+        const countdown = createCountdown();
+        vi.advanceTimersByTime(55000);
+
+        expect(countdown.markActivity()).toBe(false);
+        vi.advanceTimersByTime(5000);
+
+        expect(onIdle).toHaveBeenCalledTimes(1);
+    });
+
+    it('extends the session explicitly from the warning phase', () => {
+        const countdown = createCountdown();
+        vi.advanceTimersByTime(55000);
+
+        countdown.extend();
+
+        expect(onActive).toHaveBeenCalledWith('warning');
+        expect(countdown.getPhase()).toBe('active');
+        vi.advanceTimersByTime(49999);
+        expect(onWarning).toHaveBeenCalledTimes(1);
+        expect(onIdle).not.toHaveBeenCalled();
+    });
+
+    it('wakes up from idle on activity', () => {
+        const countdown = createCountdown(0);
+        vi.advanceTimersByTime(60000);
+        expect(onWarning).not.toHaveBeenCalled();
+        expect(onIdle).toHaveBeenCalledTimes(1);
+
+        expect(countdown.markActivity()).toBe(true);
+
+        expect(onActive).toHaveBeenCalledWith('idle');
+        expect(countdown.getDeadline()).toBe(Date.now() + 60000);
+    });
+
+    it('applies a stricter timeout without forgetting the last activity', () => {
+        const countdown = createCountdown(0);
+        vi.advanceTimersByTime(40000);
+
+        countdown.configure({ timeoutMs: 30000, warningMs: 0 });
+        vi.advanceTimersByTime(0);
+
+        expect(onIdle).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves the warning phase when a looser timeout moves the deadline away', () => {
+        const countdown = createCountdown();
+        vi.advanceTimersByTime(55000);
+
+        countdown.configure({ timeoutMs: 120000, warningMs: 10000 });
+
+        expect(onActive).toHaveBeenCalledWith('warning');
+        expect(countdown.getPhase()).toBe('active');
+        vi.advanceTimersByTime(65000);
+        expect(onIdle).toHaveBeenCalledTimes(1);
+    });
+
+    it('ends the session on activity that arrives after an overdue deadline', () => {
+        const countdown = createCountdown(0);
+        // The timer could not fire: the laptop was asleep
+        vi.setSystemTime(Date.now() + 120000);
+
+        expect(countdown.markActivity()).toBe(false);
+        expect(onIdle).toHaveBeenCalledTimes(1);
+        expect(countdown.getPhase()).toBe('idle');
+    });
+
+    it('keeps the deadline when the wall clock is set back', () => {
+        const countdown = createCountdown(0);
+        const deadline = countdown.getDeadline();
+
+        countdown.adjustClock(-3600000);
+
+        expect(countdown.getDeadline()).toBe(deadline - 3600000);
+    });
+});
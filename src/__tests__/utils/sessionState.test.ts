@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createSessionState, deriveSessionStatus, sessionReducer, MAX_SESSION_HISTORY } from '../../utils/sessionState';
+
+describe('sessionReducer', () => {
+    it('walks active → warning → idle → locked and records each transition with its reason', () => {
+        let state = createSessionState(0);
+        state = sessionReducer(state, { reason: 'warning', patch: { isWarning: true }, at: 1 });
+        state = sessionReducer(state, { reason: 'idle_timeout', patch: { isIdle: true, isWarning: false }, at: 2 });
+        state = sessionReducer(state, { reason: 'locked', patch: { isLocked: true }, at: 3 });
+
+        expect(state.security.status).toBe('locked');
+        expect(state.history).toEqual([
+            { from: 'active', to: 'warning', reason: 'warning', at: 1 },
+            { from: 'warning', to: 'idle', reason: 'idle_timeout', at: 2 },
+            { from: 'idle', to: 'locked', reason: 'locked', at: 3 },
+        ]);
+    });
+
+    it('stays locked when activity ends the idle state', () => {
+        let state = createSessionState(0);
+        state = sessionReducer(state, { reason: 'locked', patch: { isLocked: true, isIdle: true } });
+        state = sessionReducer(state, { reason: 'activity', patch: { isIdle: false, lastActive: 5 } });
+
+        expect(state.security.status).toBe('locked');
+        expect(state.security.lastActive).toBe(5);
+        expect(state.history).toHaveLength(1);
+    });
+
+    it('keeps the compromised status until the session is restarted', () => {
+        let state = createSessionState(0);
+        state = sessionReducer(state, { reason: 'compromised', patch: { isCompromised: true }, detail: 'token_reuse' });
+        state = sessionReducer(state, { reason: 'synced', patch: { isCompromised: false, isExpired: false } });
+        state = sessionReducer(state, { reason: 'activity', patch: { isIdle: false } });
+
+        expect(state.security.status).toBe('compromised');
+        expect(state.history[0].detail).toBe('token_reuse');
+
+        state = sessionReducer(state, { reason: 'restarted', patch: { isCompromised: false } });
+        expect(state.security.status).toBe('active');
+    });
+
+    it('ranks compromised over expired over locked', () => {
+        const flags = createSessionState(0).security;
+
+        expect(deriveSessionStatus({ ...flags, reauthRequired: true, isIdle: true })).toBe('locked');
+        expect(deriveSessionStatus({ ...flags, isExpired: true, isLocked: true })).toBe('expired');
+        expect(deriveSessionStatus({ ...flags, isCompromised: true, isExpired: true })).toBe('compromised');
+    });
+
+    it('returns the same state for a no-op change and caps the history', () => {
+        let state = createSessionState(0);
+        expect(sessionReducer(state, { reason: 'activity', patch: { isIdle: false } })).toBe(state);
+
+        for (let i = 0; i < MAX_SESSION_HISTORY + 10; i++) {
+            state = sessionReducer(state, { reason: 'manual', patch: { isIdle: i % 2 === 0 } });
+        }
+        expect(state.history).toHaveLength(MAX_SESSION_HISTORY);
+    });
+});
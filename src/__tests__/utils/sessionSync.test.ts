@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionSync, SessionSyncMessage } from '../../utils/sessionSync';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('SessionSync', () => {
+    let tabs: SessionSync[];
+
+    const openTab = (options = {}) => {
+        const tab = new SessionSync(options);
+        tab.start();
+        tabs.push(tab);
+        return tab;
+    };
+
+    beforeEach(() => {
+        localStorage.clear();
+        tabs = [];
+    });
+
+    afterEach(() => {
+        tabs.forEach(tab => tab.stop());
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('delivers messages to the other tabs but not to the sender', async () => {
+        const first = openTab();
+        const second = openTab();
+        const received: SessionSyncMessage[] = [];
+        const echoed: SessionSyncMessage[] = [];
+        second.on(message => received.push(message));
+        first.on(message => echoed.push(message));
+
+        first.post({ kind: 'logout', reason: 'user' });
+        await tick();
+
+        expect(received).toEqual([{ kind: 'logout', reason: 'user' }]);
+        expect(echoed).toEqual([]);
+    });
+
+    it('falls back to storage events without BroadcastChannel', () => {
+        vi.stubGlobal('BroadcastChannel', undefined);
+        const tab = openTab();
+        const received: SessionSyncMessage[] = [];
+        tab.on(message => received.push(message));
+
+        window.dispatchEvent(new StorageEvent('storage', {
+            key: 'nis2shield-session:message',
+            newValue: JSON.stringify({ kind: 'lock', source: 'other-tab', nonce: '1' }),
+        }));
+
+        expect(received).toEqual([{ kind: 'lock' }]);
+    });
+
+    it('elects a single leader and hands over when it closes', () => {
+        vi.useFakeTimers();
+        const first = openTab({ leaseMs: 3000 });
+        const second = openTab({ leaseMs: 3000 });
+
+        expect(first.isLeader()).toBe(true);
+        expect(second.isLeader()).toBe(false);
+
+        first.stop();
+        vi.advanceTimersByTime(1000);
+
+        expect(second.isLeader()).toBe(true);
+    });
+
+    it('replaces a leader whose lease expired', () => {
+        vi.useFakeTimers();
+        localStorage.setItem('nis2shield-session:leader', JSON.stringify({ tabId: 'frozen-tab', expiresAt: Date.now() + 500 }));
+        const tab = openTab({ leaseMs: 3000 });
+
+        expect(tab.isLeader()).toBe(false);
+
+        vi.advanceTimersByTime(1000);
+
+        expect(tab.isLeader()).toBe(true);
+    });
+
+    it('claims an expired lease on demand when the heartbeat was throttled', () => {
+        vi.useFakeTimers();
+        const tab = openTab({ leaseMs: 3000 });
+        const other = openTab({ leaseMs: 3000 });
+
+        // A hidden tab's timers did not run: the lease expired with no heartbeat
+        vi.setSystemTime(Date.now() + 10000);
+
+        expect(tab.isLeader()).toBe(true);
+        expect(other.isLeader()).toBe(false);
+    });
+});
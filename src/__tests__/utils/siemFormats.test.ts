@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { toEcs, toCef, toOcsf, formatEvents } from '../../utils/siemFormats';
+import { EnvelopeFactory } from '../../utils/eventEnvelope';
+
+const envelopes = new EnvelopeFactory({ appVersion: '2.4.1', tenant: 'acme' });
+
+describe('SIEM formats', () => {
+    describe('toEcs', () => {
+        it('maps a component crash to an ECS error event', () => {
+            const event = envelopes.create('REACT_COMPONENT_CRASH', {
+                message: 'Cannot read properties of undefined',
+                stack: 'TypeError: ...',
+            });
+            const doc = toEcs(event);
+
+            expect(doc['@timestamp']).toBe(event.timestamp);
+            expect(doc.event).toMatchObject({
+                id: event.id,
+                kind: 'event',
+                category: ['web'],
+                type: ['error'],
+                outcome: 'failure',
+                action: 'react-component-crash',
+                severity: 70,
+            });
+            expect(doc.error).toEqual({ message: 'Cannot read properties of undefined', stack_trace: 'TypeError: ...' });
+            expect(doc.service).toEqual({ version: '2.4.1' });
+            expect(doc.organization).toEqual({ id: 'acme' });
+            expect(doc.labels.session_id).toBe(event.sessionId);
+        });
+
+        it('uses the custom event name from useNis2Log as action and message', () => {
+            const doc = toEcs(envelopes.create('WARNING', { event: 'HIGH_VALUE_TRANSACTION', amount: 12000 }));
+
+            expect(doc.event.action).toBe('high-value-transaction');
+            expect(doc.message).toBe('HIGH_VALUE_TRANSACTION');
+            expect(doc.log.level).toBe('warning');
+            expect(doc.nis2shield.payload.amount).toBe(12000);
+        });
+
+        it('raises alerts for insecure connections', () => {
+            const doc = toEcs(envelopes.create('INSECURE_CONNECTION', { protocol: 'http:' }));
+
+            expect(doc.event).toMatchObject({ kind: 'alert', category: ['network'] });
+        });
+    });
+
+    describe('toCef', () => {
+        it('builds a CEF line with header and extensions', () => {
+            const event = envelopes.create('OUTDATED_BROWSER', { browser: 'chrome', version: 80 });
+            const line = toCef(event);
+
+            expect(line.startsWith('CEF:0|NIS2 Shield|react-guard|2.4.1|NIS2-201|OUTDATED_BROWSER|6|')).toBe(true);
+            expect(line).toContain(`externalId=${event.id}`);
+            expect(line).toContain(`cs1=${event.sessionId}`);
+            expect(line).toContain('cs2=acme');
+            expect(line).toContain(`cn1=${event.sequence}`);
+        });
+
+        it('escapes reserved characters', () => {
+            const line = toCef(envelopes.create('CRITICAL', { event: 'a=b|c\\d\nnext' }));
+
+            expect(line).toContain('msg=a\\=b|c\\\\d\\nnext');
+            expect(line.split('\n')).toHaveLength(1);
+        });
+    });
+
+    describe('toOcsf', () => {
+        it('maps insecure connections to a Detection Finding', () => {
+            const event = envelopes.create('INSECURE_CONNECTION', { protocol: 'http:' });
+            const doc = toOcsf(event);
+
+            expect(doc).toMatchObject({
+                class_uid: 2004,
+                category_uid: 2,
+                activity_id: 1,
+                type_uid: 200401,
+                severity_id: 3,
+                finding_info: { uid: event.id },
+                actor: { session: { uid: event.sessionId } },
+            });
+            expect(doc.metadata).toMatchObject({ uid: event.id, tenant_uid: 'acme', product: { name: 'react-guard' } });
+        });
+
+        it('maps device fingerprints to Device Inventory Info', () => {
+            const doc = toOcsf(envelopes.create('DEVICE_FINGERPRINT', { fingerprint: {} }));
+
+            expect(doc).toMatchObject({ class_uid: 5001, activity_id: 2, type_uid: 500102, severity_id: 1 });
+        });
+
+        it('falls back to a Base Event for unknown types', () => {
+            expect(toOcsf(envelopes.create('CUSTOM', {})).class_uid).toBe(0);
+        });
+    });
+
+    describe('formatEvents', () => {
+        it('wraps JSON batches and joins CEF lines', () => {
+            const events = [envelopes.create('INFO', {}), envelopes.create('WARNING', {})];
+
+            expect(JSON.parse(formatEvents(events, true, 'ecs')).events).toHaveLength(2);
+            expect(formatEvents(events, true, 'cef').split('\n')).toHaveLength(2);
+            expect(JSON.parse(formatEvents(events.slice(0, 1), false)).id).toBe(events[0].id);
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TabnabbingWatcher, TabnabbingWatcherOptions, isUnsafeLink, sanitizeLink } from '../../utils/tabnabbing';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const setVisibility = (state: 'visible' | 'hidden') => {
+    Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+};
+
+const link = (attributes: Record<string, string>) => {
+    const anchor = document.createElement('a');
+    Object.entries(attributes).forEach(([name, value]) => anchor.setAttribute(name, value));
+    return anchor;
+};
+
+describe('sanitizeLink', () => {
+    it('adds noopener noreferrer to target=_blank links and drops rel=opener', () => {
+        const anchor = link({ href: 'https://partner.example/page?ref=1', target: '_blank', rel: 'opener external' });
+
+        expect(sanitizeLink(anchor)).toEqual({
+            kind: 'unsafe_link',
+            href: 'https://partner.example/page',
+            previousRel: 'opener external',
+        });
+        expect(anchor.getAttribute('rel')).toBe('external noopener noreferrer');
+        expect(isUnsafeLink(anchor)).toBe(false);
+    });
+
+    it('leaves safe links and same-tab links alone', () => {
+        const safe = link({ href: '/a', target: '_blank', rel: 'noreferrer noopener' });
+        const sameTab = link({ href: '/b' });
+
+        expect(sanitizeLink(safe)).toBeNull();
+        expect(sanitizeLink(sameTab)).toBeNull();
+        expect(sameTab.hasAttribute('rel')).toBe(false);
+    });
+});
+
+describe('TabnabbingWatcher', () => {
+    let watcher: TabnabbingWatcher | null = null;
+
+    afterEach(() => {
+        watcher?.stop();
+        watcher = null;
+        setVisibility('visible');
+        document.title = '';
+        document.head.querySelectorAll('link').forEach(element => element.remove());
+        Object.defineProperty(window, 'opener', { value: null, writable: true, configurable: true });
+    });
+
+    const watch = (options: Partial<TabnabbingWatcherOptions> = {}) => {
+        const onFinding = vi.fn();
+        watcher = new TabnabbingWatcher({ onFinding, ...options });
+        watcher.start();
+        return onFinding;
+    };
+
+    it('reports an opener and detaches it when asked', () => {
+        Object.defineProperty(window, 'opener', { value: { location: { origin: 'https://mail.example' } }, writable: true, configurable: true });
+
+        const onFinding = watch({ detachOpener: true });
+
+        expect(onFinding).toHaveBeenCalledWith({ kind: 'opener_present', openerOrigin: 'https://mail.example' });
+        expect(window.opener).toBeNull();
+    });
+
+    it('reports title and favicon changes made while hidden, once per hide', async () => {
+        document.title = 'Inbox';
+        document.head.insertAdjacentHTML('beforeend', '<link rel="icon" href="/favicon.ico">');
+        const onFinding = watch();
+
+        document.title = 'Visible change';
+        await flush();
+        expect(onFinding).not.toHaveBeenCalled();
+
+        setVisibility('hidden');
+        document.title = 'Sign in - Your Bank';
+        document.querySelector('link')!.setAttribute('href', 'https://evil.example/bank.ico?x=1');
+        await flush();
+        document.title = 'Sign in again';
+        await flush();
+
+        expect(onFinding.mock.calls.map(([finding]) => finding)).toEqual([
+            { kind: 'hidden_title_change', previous: 'Visible change', current: 'Sign in - Your Bank' },
+            { kind: 'hidden_favicon_change', previous: `${window.location.origin}/favicon.ico`, current: 'https://evil.example/bank.ico' },
+        ]);
+    });
+
+    it('ignores title changes with watchTitle: false', async () => {
+        const onFinding = watch({ watchTitle: false });
+
+        setVisibility('hidden');
+        document.title = '(3) Inbox';
+        await flush();
+
+        expect(onFinding).not.toHaveBeenCalled();
+    });
+
+    it('reports a background navigation only after opening a window with opener access', () => {
+        const open = vi.fn().mockReturnValue(null);
+        window.open = open;
+        const onFinding = watch();
+
+        setVisibility('hidden');
+        window.dispatchEvent(new Event('beforeunload'));
+        expect(onFinding).not.toHaveBeenCalled();
+
+        window.open('https://partner.example', '_blank', 'noopener');
+        window.dispatchEvent(new Event('beforeunload'));
+        expect(onFinding).not.toHaveBeenCalled();
+
+        window.open('https://partner.example', '_blank');
+        window.dispatchEvent(new Event('beforeunload'));
+        expect(onFinding).toHaveBeenCalledWith({ kind: 'background_navigation' });
+        expect(open).toHaveBeenCalledTimes(2);
+
+        watcher!.stop();
+        expect(window.open).toBe(open);
+    });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TelemetryQueue, MemoryQueueStorage, QueueEntry } from '../../utils/telemetryQueue';
+import { EnvelopeFactory } from '../../utils/eventEnvelope';
+
+const envelopes = new EnvelopeFactory();
+const makeEvent = (type: string, payload: Record<string, any> = {}) => envelopes.create(type, payload);
+
+describe('TelemetryQueue', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('delivers enqueued events', async () => {
+        const deliver = vi.fn().mockResolvedValue(undefined);
+        const queue = new TelemetryQueue({ deliver, storage: new MemoryQueueStorage() });
+
+        await queue.enqueue(makeEvent('TEST_EVENT', { foo: 'bar' }));
+
+        expect(deliver).toHaveBeenCalledTimes(1);
+        const [event] = deliver.mock.calls[0][0];
+        expect(event.type).toBe('TEST_EVENT');
+        expect(event.payload).toEqual({ foo: 'bar' });
+        expect(queue.getStatus()).toMatchObject({ depth: 0, lastFlushStatus: 'success' });
+    });
+
+    it('keeps failed events and retries with exponential backoff', async () => {
+        const deliver = vi.fn()
+            .mockRejectedValueOnce(new Error('network down'))
+            .mockRejectedValueOnce(new Error('network down'))
+            .mockResolvedValue(undefined);
+        const queue = new TelemetryQueue({ deliver, storage: new MemoryQueueStorage(), baseRetryDelayMs: 1000 });
+        queue.start();
+
+        await queue.enqueue(makeEvent('TEST_EVENT', {}));
+        expect(queue.getStatus()).toMatchObject({ depth: 1, lastFlushStatus: 'error', lastError: 'network down' });
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(deliver).toHaveBeenCalledTimes(2);
+
+        // Second retry waits twice as long
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(deliver).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(deliver).toHaveBeenCalledTimes(3);
+        expect(queue.getStatus().depth).toBe(0);
+
+        queue.stop();
+    });
+
+    it('drops the oldest events beyond maxQueueSize', async () => {
+        const deliver = vi.fn().mockRejectedValue(new Error('offline'));
+        const queue = new TelemetryQueue({ deliver, storage: new MemoryQueueStorage(), maxQueueSize: 2 });
+
+        await queue.enqueue(makeEvent('FIRST', {}));
+        await queue.enqueue(makeEvent('SECOND', {}));
+        await queue.enqueue(makeEvent('THIRD', {}));
+
+        expect(queue.getStatus().depth).toBe(2);
+    });
+
+    it('discards events older than maxEventAgeMs', async () => {
+        const storage = new MemoryQueueStorage();
+        const stale: QueueEntry = {
+            id: 'stale',
+            event: { ...makeEvent('OLD'), id: 'stale' },
+            enqueuedAt: Date.now() - 10_000,
+            attempts: 3,
+            nextAttemptAt: 0,
+        };
+        await storage.save(stale);
+
+        const deliver = vi.fn().mockResolvedValue(undefined);
+        const queue = new TelemetryQueue({ deliver, storage, maxEventAgeMs: 5_000 });
+        queue.start();
+        await vi.runOnlyPendingTimersAsync();
+
+        expect(deliver).not.toHaveBeenCalled();
+        expect(await storage.load()).toHaveLength(0);
+        queue.stop();
+    });
+
+    it('replays persisted events and flushes when the browser comes back online', async () => {
+        const storage = new MemoryQueueStorage();
+        const deliver = vi.fn().mockResolvedValue(undefined);
+        const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+        const queue = new TelemetryQueue({ deliver, storage });
+        queue.start();
+        await queue.enqueue(makeEvent('OFFLINE_EVENT', {}));
+
+        expect(deliver).not.toHaveBeenCalled();
+        expect(queue.getStatus().lastFlushStatus).toBe('offline');
+        expect(await storage.load()).toHaveLength(1);
+
+        onLine.mockReturnValue(true);
+        window.dispatchEvent(new Event('online'));
+        await vi.runOnlyPendingTimersAsync();
+
+        expect(deliver).toHaveBeenCalledTimes(1);
+        expect(await storage.load()).toHaveLength(0);
+
+        queue.stop();
+        onLine.mockRestore();
+    });
+
+    it('holds events until a batch is full when flushIntervalMs is set', async () => {
+        const deliver = vi.fn().mockResolvedValue(undefined);
+        const queue = new TelemetryQueue({
+            deliver,
+            storage: new MemoryQueueStorage(),
+            batchSize: 3,
+            flushIntervalMs: 5000,
+        });
+        queue.start();
+        await vi.runOnlyPendingTimersAsync();
+
+        await queue.enqueue(makeEvent('ONE', {}));
+        await queue.enqueue(makeEvent('TWO', {}));
+        expect(deliver).not.toHaveBeenCalled();
+
+        await queue.enqueue(makeEvent('THREE', {}));
+        expect(deliver).toHaveBeenCalledTimes(1);
+        expect(deliver.mock.calls[0][0].map((e: { type: string }) => e.type)).toEqual(['ONE', 'TWO', 'THREE']);
+
+        queue.stop();
+    });
+
+    it('flushes partial batches on the interval', async () => {
+        const deliver = vi.fn().mockResolvedValue(undefined);
+        const queue = new TelemetryQueue({
+            deliver,
+            storage: new MemoryQueueStorage(),
+            batchSize: 10,
+            flushIntervalMs: 5000,
+        });
+        queue.start();
+        await vi.runOnlyPendingTimersAsync();
+
+        await queue.enqueue(makeEvent('ONLY', {}));
+        expect(deliver).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(deliver).toHaveBeenCalledTimes(1);
+        expect(deliver.mock.calls[0][0]).toHaveLength(1);
+
+        queue.stop();
+    });
+
+    it('hands pending events to deliverOnUnload on pagehide', async () => {
+        const deliver = vi.fn().mockRejectedValue(new Error('network down'));
+        const deliverOnUnload = vi.fn().mockReturnValue(true);
+        const queue = new TelemetryQueue({
+            deliver,
+            deliverOnUnload,
+            storage: new MemoryQueueStorage(),
+        });
+        queue.start();
+
+        await queue.enqueue(makeEvent('LAST_WORDS', {}));
+        expect(queue.getStatus().depth).toBe(1);
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(deliverOnUnload).toHaveBeenCalledTimes(1);
+        expect(deliverOnUnload.mock.calls[0][0][0].type).toBe('LAST_WORDS');
+        expect(queue.getStatus().depth).toBe(0);
+
+        queue.stop();
+    });
+
+    it('keeps events queued when the browser refuses unload delivery', async () => {
+        const deliver = vi.fn().mockRejectedValue(new Error('network down'));
+        const deliverOnUnload = vi.fn().mockReturnValue(false);
+        const queue = new TelemetryQueue({ deliver, deliverOnUnload, storage: new MemoryQueueStorage() });
+
+        await queue.enqueue(makeEvent('LAST_WORDS', {}));
+        queue.flushOnUnload();
+
+        expect(queue.getStatus().depth).toBe(1);
+    });
+
+    it('hands pending events to the unload delivery when the tab is hidden', async () => {
+        const deliver = vi.fn().mockResolvedValue(undefined);
+        const deliverOnUnload = vi.fn().mockReturnValue(true);
+        const storage = new MemoryQueueStorage();
+        const queue = new TelemetryQueue({ deliver, deliverOnUnload, storage, batchSize: 10, flushIntervalMs: 60000 });
+        const visibility = vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+        queue.start();
+
+        await queue.enqueue(makeEvent('HELD_EVENT', {}));
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        expect(deliverOnUnload).toHaveBeenCalledWith([expect.objectContaining({ type: 'HELD_EVENT' })]);
+        expect(deliver).not.toHaveBeenCalled();
+        expect(queue.getStatus().depth).toBe(0);
+        expect(await storage.load()).toEqual([]);
+
+        queue.stop();
+        visibility.mockRestore();
+    });
+
+    it('keeps events persisted when the tab is hidden or unloaded while offline', async () => {
+        const deliver = vi.fn().mockResolvedValue(undefined);
+        const deliverOnUnload = vi.fn().mockReturnValue(true);
+        const storage = new MemoryQueueStorage();
+        const queue = new TelemetryQueue({ deliver, deliverOnUnload, storage });
+        const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        const visibility = vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+        queue.start();
+
+        await queue.enqueue(makeEvent('OFFLINE_EVENT', {}));
+        document.dispatchEvent(new Event('visibilitychange'));
+        window.dispatchEvent(new Event('pagehide'));
+        await vi.runOnlyPendingTimersAsync();
+
+        expect(deliverOnUnload).not.toHaveBeenCalled();
+        expect(deliver).not.toHaveBeenCalled();
+        expect(queue.getStatus().depth).toBe(1);
+        expect((await storage.load()).map(entry => entry.event.type)).toEqual(['OFFLINE_EVENT']);
+
+        queue.stop();
+        onLine.mockRestore();
+        visibility.mockRestore();
+    });
+});
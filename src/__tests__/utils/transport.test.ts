@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    postEvents,
+    beaconEvents,
+    createFetchTransport,
+    createBeaconTransport,
+    createConsoleTransport,
+} from '../../utils/transport';
+import { EnvelopeFactory } from '../../utils/eventEnvelope';
+
+const envelopes = new EnvelopeFactory();
+const makeEvent = (type: string, payload: Record<string, any> = {}) => envelopes.create(type, payload);
+
+describe('transport', () => {
+    const originalSendBeacon = navigator.sendBeacon;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        global.fetch = vi.fn().mockResolvedValue({ ok: true });
+    });
+
+    afterEach(() => {
+        Object.defineProperty(navigator, 'sendBeacon', { value: originalSendBeacon, configurable: true });
+    });
+
+    describe('postEvents', () => {
+        it('sends a single event as the request body', async () => {
+            await postEvents('/api/test', [makeEvent('INFO')], false);
+
+            const body = JSON.parse((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body);
+            expect(body.type).toBe('INFO');
+        });
+
+        it('wraps batches in an events array', async () => {
+            await postEvents('/api/test', [makeEvent('INFO'), makeEvent('WARNING')], true);
+
+            const body = JSON.parse((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body);
+            expect(body.events).toHaveLength(2);
+        });
+
+        it('rejects when the endpoint does not accept the events', async () => {
+            global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503 });
+
+            await expect(postEvents('/api/test', [makeEvent('INFO')], false)).rejects.toThrow('503');
+        });
+    });
+
+    describe('beaconEvents', () => {
+        it('uses navigator.sendBeacon when available', () => {
+            const sendBeacon = vi.fn().mockReturnValue(true);
+            Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+
+            expect(beaconEvents('/api/test', [makeEvent('INFO'), makeEvent('WARNING')], true)).toBe(true);
+            expect(sendBeacon).toHaveBeenCalledTimes(1);
+            expect(global.fetch).not.toHaveBeenCalled();
+        });
+
+        it('falls back to fetch with keepalive', () => {
+            const sendBeacon = vi.fn().mockReturnValue(false);
+            Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+
+            expect(beaconEvents('/api/test', [makeEvent('INFO')], false)).toBe(true);
+            expect(global.fetch).toHaveBeenCalledWith('/api/test', expect.objectContaining({ keepalive: true }));
+        });
+    });
+
+    describe('createFetchTransport', () => {
+        it('adds custom headers resolved before every request', async () => {
+            const headers = vi.fn().mockResolvedValue({ Authorization: 'Bearer token-1' });
+            const transport = createFetchTransport({ endpoint: '/gateway/events', headers });
+
+            await transport.send([makeEvent('INFO')]);
+
+            expect(headers).toHaveBeenCalledTimes(1);
+            expect(global.fetch).toHaveBeenCalledWith('/gateway/events', expect.objectContaining({
+                headers: expect.objectContaining({
+                    'Content-Type': 'application/json',
+                    Authorization: 'Bearer token-1',
+                }),
+            }));
+        });
+
+        it('reuses the last headers with keepalive on unload', async () => {
+            const transport = createFetchTransport({
+                endpoint: '/gateway/events',
+                headers: () => ({ Authorization: 'Bearer token-1' }),
+            });
+            await transport.send([makeEvent('INFO')]);
+
+            expect(transport.sendOnUnload!([makeEvent('WARNING'), makeEvent('CRITICAL')])).toBe(true);
+
+            expect(global.fetch).toHaveBeenCalledTimes(3);
+            expect((global.fetch as ReturnType<typeof vi.fn>).mock.calls[2][1]).toMatchObject({
+                keepalive: true,
+                headers: expect.objectContaining({ Authorization: 'Bearer token-1' }),
+            });
+        });
+
+        it('keeps events over the keepalive budget queued instead of sending them', () => {
+            // Browsers reject the promise, they do not throw
+            global.fetch = vi.fn().mockRejectedValue(new TypeError('Keepalive body exceeds 64 KB'));
+            const transport = createFetchTransport({ endpoint: '/gateway/events' });
+
+            expect(transport.sendOnUnload!([makeEvent('WARNING', { dump: 'x'.repeat(70 * 1024) })])).toBe(false);
+            expect(global.fetch).not.toHaveBeenCalled();
+        });
+
+        it('counts the keepalive requests still in flight against the budget', async () => {
+            let settle: (value: unknown) => void = () => undefined;
+            global.fetch = vi.fn(() => new Promise(resolve => {
+                settle = resolve;
+            })) as unknown as typeof fetch;
+            const transport = createFetchTransport({ endpoint: '/gateway/events' });
+            const event = () => makeEvent('WARNING', { dump: 'x'.repeat(40 * 1024) });
+
+            expect(transport.sendOnUnload!([event()])).toBe(true);
+            expect(transport.sendOnUnload!([event()])).toBe(false);
+
+            settle({ ok: true });
+            await new Promise(resolve => setTimeout(resolve, 0));
+            expect(transport.sendOnUnload!([event()])).toBe(true);
+            settle({ ok: true });
+        });
+    });
+
+    describe('createBeaconTransport', () => {
+        it('rejects when the browser refuses the beacon', async () => {
+            Object.defineProperty(navigator, 'sendBeacon', { value: vi.fn().mockReturnValue(false), configurable: true });
+            global.fetch = undefined as unknown as typeof fetch;
+
+            await expect(createBeaconTransport({ endpoint: '/api/test' }).send([makeEvent('INFO')]))
+                .rejects.toThrow('Browser refused beacon delivery');
+        });
+    });
+
+    describe('createConsoleTransport', () => {
+        it('logs events instead of sending them', async () => {
+            const info = vi.spyOn(console, 'info').mockImplementation(() => { });
+
+            await createConsoleTransport().send([makeEvent('INFO')]);
+
+            expect(info).toHaveBeenCalledWith('🛡️ [NIS2 Guard] INFO', expect.objectContaining({ type: 'INFO' }));
+        });
+    });
+});
@@ -16,7 +16,8 @@ interface Props {
 // So we will use a "Higher Order Component" or pass the report function as prop if we were strict,
 // but let's try to consume context in the class.
 
-import { useNis2Context } from '../context/Nis2Context';
+import { useNis2Context, ReportIncidentOptions } from '../context/Nis2Context';
+import { markCrashReported, toCrashReport } from '../utils/errorCollector';
 
 // Wrapper to inject context into the class component
 const AuditBoundaryWrapper: React.FC<Props> = (props) => {
@@ -25,7 +26,7 @@ const AuditBoundaryWrapper: React.FC<Props> = (props) => {
 };
 
 interface InternalProps extends Props {
-    reportIncident: (type: string, payload: Record<string, any>) => void;
+    reportIncident: (type: string, payload: Record<string, any>, options?: ReportIncidentOptions) => void;
 }
 
 interface State {
@@ -46,9 +47,9 @@ class AuditBoundaryClass extends Component<InternalProps, State> {
         // though in browser JS paths are usually standard).
         // The main goal is to report it.
 
+        markCrashReported(error);
         this.props.reportIncident('REACT_COMPONENT_CRASH', {
-            message: error.message,
-            stack: error.stack,
+            ...toCrashReport(error, 'react'),
             componentStack: errorInfo.componentStack,
         });
     }
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef } from 'react';
+import { useNis2Context } from '../context/Nis2Context';
+import { DomIntegrityWatcher, DomTamperingFinding } from '../utils/domIntegrity';
+
+export interface DomIntegrityMonitorProps {
+    /**
+     * Origins allowed to add scripts besides the page's own, e.g. `'https://js.stripe.com'`.
+     * `'https://*.example.com'` matches any subdomain.
+     */
+    allowedScriptOrigins?: string[];
+    /** Origins allowed in iframes, hidden or not (payment fields, 3-D Secure, captchas). */
+    allowedFrameOrigins?: string[];
+    /** Origins that forms and links may be pointed at after render (payment redirects, SSO). */
+    allowedNavigationOrigins?: string[];
+    /**
+     * Locks the session (`PrivacyLock`) on the first detection.
+     * @default false
+     */
+    lockOnTamper?: boolean;
+    /** Called for each detection, after it is reported. */
+    onTamper?: (finding: DomTamperingFinding) => void;
+}
+
+/**
+ * Invisible component that watches the page for formjacking (Magecart) patterns:
+ * injected external or inline scripts, inline event handlers, hidden or foreign iframes,
+ * and forms or links rewritten to point at another origin.
+ *
+ * Each detection is reported once as a `DOM_TAMPERING` incident.
+ * The page's own origin is always allowed; list third parties you load on purpose.
+ *
+ * @example
+ * ```tsx
+ * <Nis2Provider config={config}>
+ *   <DomIntegrityMonitor
+ *     allowedScriptOrigins={['https://js.stripe.com']}
+ *     allowedFrameOrigins={['https://js.stripe.com', 'https://hooks.stripe.com']}
+ *     lockOnTamper
+ *   />
+ *   <PrivacyLock>
+ *     <Checkout />
+ *   </PrivacyLock>
+ * </Nis2Provider>
+ * ```
+ */
+export const DomIntegrityMonitor: React.FC<DomIntegrityMonitorProps> = ({
+    allowedScriptOrigins,
+    allowedFrameOrigins,
+    allowedNavigationOrigins,
+    lockOnTamper = false,
+    onTamper,
+}) => {
+    const { config, securityState, reportIncident, setLocked } = useNis2Context();
+
+    // The watcher lives across renders; read the latest context and props through a ref
+    const handleRef = useRef<(finding: DomTamperingFinding) => void>(() => undefined);
+    handleRef.current = (finding) => {
+        reportIncident('DOM_TAMPERING', { ...finding });
+        if (lockOnTamper && !securityState.isLocked) {
+            reportIncident('SESSION_LOCKED', { reason: 'dom_tampering', kind: finding.kind });
+            setLocked(true);
+        }
+        if (onTamper) onTamper(finding);
+    };
+
+    // Inline arrays would otherwise restart the observer on every render
+    const allowlistKey = JSON.stringify([allowedScriptOrigins, allowedFrameOrigins, allowedNavigationOrigins]);
+
+    useEffect(() => {
+        const watcher = new DomIntegrityWatcher({
+            allowedScriptOrigins,
+            allowedFrameOrigins,
+            allowedNavigationOrigins,
+            onTampering: finding => handleRef.current(finding),
+            debug: config.debug,
+        });
+        watcher.start();
+        return () => watcher.stop();
+    }, [allowlistKey, config.debug]);
+
+    return null;
+};
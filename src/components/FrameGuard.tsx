@@ -0,0 +1,123 @@
+import React, { ReactNode, useEffect, useRef, useState } from 'react';
+import { useNis2Context } from '../context/Nis2Context';
+import { FramingInfo, detectFraming } from '../utils/frameGuard';
+
+export interface FrameGuardProps {
+    /** Origins allowed to frame the app, e.g. an intranet portal. `https://*.example.com` matches subdomains. */
+    allowedParents?: string[];
+    /**
+     * The app may frame itself.
+     * @default true
+     */
+    allowSameOrigin?: boolean;
+    /**
+     * What to do when framed by a parent that is not allowed:
+     * - `hide`: render `fallback` instead of the app
+     * - `warn`: render the app under a warning banner
+     * - `break-out`: navigate the top window to the app, hiding it if the browser refuses
+     * @default 'hide'
+     */
+    mode?: 'hide' | 'warn' | 'break-out';
+    /** Rendered instead of the app in `hide` and `break-out` modes. */
+    fallback?: ReactNode;
+    /**
+     * Banner text in `warn` mode.
+     * @default "⚠️ This page is displayed inside another website. Do not enter credentials here."
+     */
+    warning?: string;
+    /** Called once when framing by a parent that is not allowed is detected. */
+    onFramed?: (framing: FramingInfo) => void;
+    children: ReactNode;
+}
+
+const panelStyles: React.CSSProperties = {
+    padding: '24px',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+    fontSize: '14px',
+    color: '#333',
+    textAlign: 'center',
+};
+
+const bannerStyles: React.CSSProperties = {
+    padding: '12px 16px',
+    backgroundColor: '#f8d7da',
+    borderBottom: '1px solid #dc3545',
+    color: '#721c24',
+    fontSize: '14px',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+};
+
+/**
+ * Detects that the app runs inside a frame of another site (clickjacking, UI redressing)
+ * and reports it as `FRAMED_CONTEXT`.
+ *
+ * A client-side second line for deployments that cannot send `Content-Security-Policy: frame-ancestors`
+ * or `X-Frame-Options`. The check runs during the first render, so in `hide` mode the app is never shown.
+ * Server rendering cannot see the frame: the server HTML shows the app until it hydrates.
+ *
+ * @example
+ * ```tsx
+ * <Nis2Provider config={config}>
+ *   <FrameGuard allowedParents={['https://portal.intranet.example']}>
+ *     <App />
+ *   </FrameGuard>
+ * </Nis2Provider>
+ * ```
+ */
+export const FrameGuard: React.FC<FrameGuardProps> = ({
+    allowedParents,
+    allowSameOrigin = true,
+    mode = 'hide',
+    fallback,
+    warning = '⚠️ This page is displayed inside another website. Do not enter credentials here.',
+    onFramed,
+    children,
+}) => {
+    const { reportIncident } = useNis2Context();
+    // Framing does not change during the page's life; there is no frame to see on the server
+    const [framing] = useState(() =>
+        typeof window === 'undefined' ? null : detectFraming({ allowedParents, allowSameOrigin }));
+
+    const handleRef = useRef<(framing: FramingInfo) => void>(() => undefined);
+    handleRef.current = (detected) => {
+        const { framed, allowed, ...details } = detected;
+        reportIncident('FRAMED_CONTEXT', { ...details, mode });
+        if (onFramed) onFramed(detected);
+
+        if (mode === 'break-out') {
+            try {
+                window.top!.location.href = window.location.href;
+            } catch {
+                // Sandboxed frames may not navigate the top window; the app stays hidden
+            }
+        }
+    };
+
+    useEffect(() => {
+        if (framing && !framing.allowed) handleRef.current(framing);
+    }, [framing]);
+
+    if (!framing || framing.allowed) return <>{children}</>;
+
+    if (mode === 'warn') {
+        return (
+            <>
+                <div role="alert" style={bannerStyles}>{warning}</div>
+                {children}
+            </>
+        );
+    }
+
+    return (
+        <>
+            {fallback ?? (
+                <div role="alert" style={panelStyles}>
+                    <p>For your security, this page cannot be displayed inside another website.</p>
+                    <a href={window.location.href} target="_blank" rel="noopener noreferrer">
+                        Open it in a new window
+                    </a>
+                </div>
+            )}
+        </>
+    );
+};
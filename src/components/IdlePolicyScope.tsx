@@ -0,0 +1,47 @@
+import React, { ReactNode, useEffect } from 'react';
+import { useNis2Context } from '../context/Nis2Context';
+import { IdlePolicy } from '../utils/idlePolicy';
+
+export interface IdlePolicyScopeProps extends IdlePolicy {
+    /**
+     * Identifies the scope in audit events, e.g. `'payments'`.
+     */
+    name: string;
+    children: ReactNode;
+}
+
+/**
+ * Applies a stricter idle policy while the wrapped subtree is mounted.
+ *
+ * The tightest value of each field among the global config and all mounted scopes wins:
+ * the shortest timeout, the shortest warning window, and locking if any scope locks.
+ * Changes of the policy in force are audited as `IDLE_POLICY_CHANGED`.
+ *
+ * @example
+ * ```tsx
+ * <Nis2Provider config={{ auditEndpoint: '/api/nis2/', idleTimeoutMinutes: 30 }}>
+ *   <Route path="/catalogue" element={<Catalogue />} />
+ *   <Route path="/payments" element={
+ *     <IdlePolicyScope name="payments" idleTimeoutMinutes={3} warningSeconds={30} lockOnIdle>
+ *       <Payments />
+ *     </IdlePolicyScope>
+ *   } />
+ * </Nis2Provider>
+ * ```
+ */
+export const IdlePolicyScope: React.FC<IdlePolicyScopeProps> = ({
+    name,
+    idleTimeoutMinutes,
+    warningSeconds,
+    lockOnIdle,
+    children,
+}) => {
+    const { registerIdlePolicy } = useNis2Context();
+
+    useEffect(
+        () => registerIdlePolicy({ name, idleTimeoutMinutes, warningSeconds, lockOnIdle }),
+        [registerIdlePolicy, name, idleTimeoutMinutes, warningSeconds, lockOnIdle]
+    );
+
+    return <>{children}</>;
+};
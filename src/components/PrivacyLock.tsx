@@ -0,0 +1,363 @@
+import React, { ReactNode, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { useNis2Context } from '../context/Nis2Context';
+import { useReauth } from '../hooks/useReauth';
+import { ReauthAttempt, ReauthGate } from '../utils/reauthGate';
+
+/**
+ * How the user unlocks the screen.
+ * - `click`: a single button press
+ * - `pin`: a PIN checked by `verify`
+ * - `custom`: your own re-authentication (password prompt, OTP, SSO popup); resolve true to unlock
+ */
+export type PrivacyLockUnlock =
+    | { type: 'click' }
+    | { type: 'pin'; verify: (pin: string) => boolean | Promise<boolean> }
+    | { type: 'custom'; reauthenticate: () => Promise<boolean>; label?: string };
+
+export interface PrivacyLockProps {
+    children: ReactNode;
+
+    /**
+     * Lock when the session becomes idle.
+     * @default true
+     */
+    lockOnIdle?: boolean;
+
+    /**
+     * Also lock when this tab is hidden (tab switch, minimised window).
+     * Only this tab is locked; idle and manual locks apply to every tab.
+     * @default false
+     */
+    lockOnHidden?: boolean;
+
+    /**
+     * @default { type: 'click' }
+     */
+    unlock?: PrivacyLockUnlock;
+
+    /**
+     * Failed `pin` or `custom` unlocks in a row before unlocking is refused for `lockoutMs`.
+     * The count is shared by all tabs and survives reloads.
+     * @default 5
+     */
+    maxAttempts?: number;
+
+    /** @default 300000 (5 minutes) */
+    lockoutMs?: number;
+
+    /**
+     * `blur` keeps the layout visible but unreadable, `cover` hides it behind an opaque panel.
+     * @default 'blur'
+     */
+    mode?: 'blur' | 'cover';
+
+    /** @default "Screen locked" */
+    title?: string;
+
+    /** @default "Your session was locked to protect sensitive information." */
+    message?: string;
+
+    /**
+     * CSS class for the lock panel. When set, the built-in panel styles are not applied.
+     */
+    className?: string;
+
+    /**
+     * Custom styles merged into the lock panel.
+     */
+    style?: React.CSSProperties;
+}
+
+type LockReason = 'idle' | 'hidden';
+
+const PRIVACY_LOCK_STATE_KEY = 'nis2_privacy_lock_state';
+
+const overlayStyles: Record<'blur' | 'cover', React.CSSProperties> = {
+    blur: {
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10001,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: 'rgba(255, 255, 255, 0.4)',
+    },
+    cover: {
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10001,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#1f2933',
+    },
+};
+
+const panelStyles: React.CSSProperties = {
+    minWidth: '280px',
+    padding: '24px',
+    borderRadius: '8px',
+    backgroundColor: '#fff',
+    color: '#212529',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+    textAlign: 'center',
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.2)',
+};
+
+const buttonStyles: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#0d6efd',
+    color: '#fff',
+    fontSize: '14px',
+    cursor: 'pointer',
+};
+
+/**
+ * Covers the application when the session is idle (and optionally when the tab is hidden),
+ * protecting what is on screen from shoulder surfing until the user unlocks it.
+ *
+ * While locked, the wrapped app is `inert` and hidden from assistive technology, and keyboard
+ * focus stays inside the lock panel. Locks, unlocks and failed unlock attempts are audited
+ * (`SESSION_LOCKED`, `SESSION_UNLOCKED`, `SESSION_UNLOCK_FAILED`). After `maxAttempts` failed
+ * PIN or custom unlocks in a row, unlocking is refused for `lockoutMs`.
+ *
+ * With `Nis2Config.reauth`, the lock also stays up while re-authentication is required and
+ * the `unlock` method is replaced by your `reauthenticate` flow, with its retry limit and lockout.
+ *
+ * @example
+ * ```tsx
+ * <Nis2Provider config={config}>
+ *   <PrivacyLock lockOnHidden unlock={{ type: 'pin', verify: (pin) => api.checkPin(pin) }}>
+ *     <App />
+ *   </PrivacyLock>
+ * </Nis2Provider>
+ * ```
+ */
+export const PrivacyLock: React.FC<PrivacyLockProps> = ({
+    children,
+    lockOnIdle = true,
+    lockOnHidden = false,
+    unlock = { type: 'click' },
+    maxAttempts = 5,
+    lockoutMs = 300000,
+    mode = 'blur',
+    title = 'Screen locked',
+    message = 'Your session was locked to protect sensitive information.',
+    className,
+    style,
+}) => {
+    const { securityState, setLocked, reportIncident, idlePolicy } = useNis2Context();
+    const reauth = useReauth();
+    const [hiddenLock, setHiddenLock] = useState(false);
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [verifying, setVerifying] = useState(false);
+    const appRef = useRef<HTMLDivElement>(null);
+    const panelRef = useRef<HTMLDivElement>(null);
+    const restoreFocusRef = useRef<HTMLElement | null>(null);
+    const wasIdle = useRef(false);
+    const id = useId();
+    const attemptRef = useRef<() => Promise<unknown>>(async () => false);
+    const lastAttemptRef = useRef<ReauthAttempt | null>(null);
+
+    // Counts failed PIN and custom unlocks, and locks them out like step-up re-authentication
+    const gate = useMemo(() => new ReauthGate({
+        reauthenticate: () => attemptRef.current(),
+        maxAttempts,
+        lockoutMs,
+        onAttempt: (attempt) => {
+            lastAttemptRef.current = attempt;
+        },
+        storageKey: PRIVACY_LOCK_STATE_KEY,
+    }), [maxAttempts, lockoutMs]);
+    const [lockedOutUntil, setLockedOutUntil] = useState<number | null>(() => gate.getState().lockedOutUntil);
+
+    // Step-up re-authentication takes over the unlock method while it is required
+    const stepUp = reauth.enabled && reauth.required;
+    const locked = securityState.isLocked || hiddenLock || stepUp;
+    const method = stepUp ? 'reauth' : unlock.type;
+    const lockoutEnd = stepUp
+        ? (reauth.isLockedOut ? reauth.lockedOutUntil : null)
+        : (unlock.type !== 'click' ? lockedOutUntil : null);
+
+    const lock = (reason: LockReason) => {
+        reportIncident('SESSION_LOCKED', { reason });
+        if (reason === 'hidden') {
+            setHiddenLock(true);
+        } else {
+            setLocked(true);
+        }
+    };
+
+    useEffect(() => {
+        if (securityState.isIdle && !wasIdle.current) {
+            wasIdle.current = true;
+            // An IdlePolicyScope with lockOnIdle has already locked the session
+            if (lockOnIdle && !securityState.isLocked && !idlePolicy.lockOnIdle) lock('idle');
+        } else if (!securityState.isIdle) {
+            wasIdle.current = false;
+        }
+    }, [securityState.isIdle, lockOnIdle]);
+
+    useEffect(() => {
+        if (!lockOnHidden) return;
+        const onVisibilityChange = () => {
+            if (document.visibilityState === 'hidden' && !hiddenLock) lock('hidden');
+        };
+        document.addEventListener('visibilitychange', onVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+    }, [lockOnHidden, hiddenLock]);
+
+    useEffect(() => {
+        if (lockedOutUntil === null) return;
+        const timer = setTimeout(() => setLockedOutUntil(null), Math.max(0, lockedOutUntil - Date.now()));
+        return () => clearTimeout(timer);
+    }, [lockedOutUntil]);
+
+    useEffect(() => {
+        const app = appRef.current;
+        if (!app) return;
+        // React 18 does not know the `inert` attribute yet
+        if (locked) {
+            restoreFocusRef.current = document.activeElement as HTMLElement | null;
+            app.setAttribute('inert', '');
+            app.setAttribute('aria-hidden', 'true');
+            panelRef.current?.querySelector<HTMLElement>('input, button')?.focus();
+        } else {
+            app.removeAttribute('inert');
+            app.removeAttribute('aria-hidden');
+            restoreFocusRef.current?.focus?.();
+            restoreFocusRef.current = null;
+        }
+    }, [locked]);
+
+    const release = () => {
+        reportIncident('SESSION_UNLOCKED', { method });
+        setPin('');
+        setError(null);
+        setHiddenLock(false);
+        if (securityState.isLocked) setLocked(false);
+    };
+
+    const fail = ({ outcome, attemptsRemaining, lockedOutUntil: until }: ReauthAttempt) => {
+        reportIncident('SESSION_UNLOCK_FAILED', {
+            method: unlock.type,
+            reason: outcome,
+            attemptsRemaining,
+            ...(until !== null && { lockedOutUntil: new Date(until).toISOString() }),
+        });
+        setLockedOutUntil(until);
+        setError(unlock.type === 'pin' ? 'Incorrect PIN' : 'Authentication failed');
+    };
+
+    const handleUnlock = async (event?: React.FormEvent) => {
+        event?.preventDefault();
+        if (verifying || lockoutEnd !== null) return;
+        if (stepUp) {
+            // Attempts are audited by the provider (REAUTH_SUCCEEDED / REAUTH_FAILED)
+            if (await reauth.reauthenticate()) {
+                release();
+            } else {
+                setError('Authentication failed');
+            }
+            return;
+        }
+        if (unlock.type === 'click') {
+            release();
+            return;
+        }
+
+        setVerifying(true);
+        attemptRef.current = async () => (unlock.type === 'pin' ? unlock.verify(pin) : unlock.reauthenticate());
+        try {
+            if (await gate.attempt()) {
+                release();
+            } else {
+                if (lastAttemptRef.current?.outcome !== 'error') setPin('');
+                fail(lastAttemptRef.current!);
+            }
+        } finally {
+            setVerifying(false);
+        }
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key !== 'Tab' || !panelRef.current) return;
+
+        // Keep keyboard focus inside the lock panel
+        const focusable = Array.from(panelRef.current.querySelectorAll<HTMLElement>('input, button'));
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (event.shiftKey && document.activeElement === first) {
+            event.preventDefault();
+            last.focus();
+        } else if (!event.shiftKey && document.activeElement === last) {
+            event.preventDefault();
+            first.focus();
+        }
+    };
+
+    return (
+        <>
+            <div ref={appRef} style={locked && mode === 'blur' ? { filter: 'blur(12px)' } : undefined}>
+                {children}
+            </div>
+            {locked && (
+                <div style={overlayStyles[mode]}>
+                    <div
+                        ref={panelRef}
+                        role="dialog"
+                        aria-modal="true"
+                        aria-labelledby={`${id}-title`}
+                        aria-describedby={`${id}-message`}
+                        className={className}
+                        style={className ? style : { ...panelStyles, ...style }}
+                        onKeyDown={handleKeyDown}
+                    >
+                        <h2 id={`${id}-title`} style={{ margin: '0 0 12px', fontSize: '18px' }}>
+                            {title}
+                        </h2>
+                        <p id={`${id}-message`} style={{ margin: '0 0 20px' }}>
+                            {message}
+                        </p>
+                        <form onSubmit={handleUnlock} style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                            {!stepUp && unlock.type === 'pin' && (
+                                <input
+                                    type="password"
+                                    inputMode="numeric"
+                                    autoComplete="off"
+                                    aria-label="PIN"
+                                    value={pin}
+                                    onChange={(event) => setPin(event.target.value)}
+                                    style={{ padding: '8px', fontSize: '16px', textAlign: 'center' }}
+                                />
+                            )}
+                            {lockoutEnd !== null ? (
+                                <div role="alert" style={{ color: '#dc3545', fontSize: '14px' }}>
+                                    Too many failed attempts. Try again at{' '}
+                                    {new Date(lockoutEnd).toLocaleTimeString()}.
+                                </div>
+                            ) : error && (
+                                <div role="alert" style={{ color: '#dc3545', fontSize: '14px' }}>
+                                    {error}
+                                    {stepUp && ` (${reauth.attemptsRemaining} attempts left)`}
+                                </div>
+                            )}
+                            <button
+                                type="submit"
+                                disabled={verifying || reauth.isPending || lockoutEnd !== null}
+                                style={buttonStyles}
+                            >
+                                {stepUp || unlock.type === 'custom'
+                                    ? (unlock.type === 'custom' && unlock.label) || 'Sign in again'
+                                    : 'Unlock'}
+                            </button>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
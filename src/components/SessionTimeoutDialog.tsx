@@ -0,0 +1,181 @@
+import React, { useEffect, useRef } from 'react';
+import { useNis2Context } from '../context/Nis2Context';
+import { useIdleCountdown } from '../hooks/useIdleCountdown';
+
+export interface SessionTimeoutDialogProps {
+    /**
+     * Dialog heading.
+     * @default "Your session is about to expire"
+     */
+    title?: string;
+
+    /**
+     * Body text, given the seconds left before the automatic logout.
+     * @default seconds => `For your security you will be signed out in ${seconds} seconds.`
+     */
+    message?: (secondsRemaining: number) => string;
+
+    /** @default "Stay signed in" */
+    staySignedInLabel?: string;
+
+    /** @default "Log out now" */
+    logoutLabel?: string;
+
+    /**
+     * Called after "Log out now", in addition to `Nis2Config.onLogout` (which runs in every tab).
+     */
+    onLogout?: () => void;
+
+    /**
+     * CSS class for the dialog box. When set, the built-in box styles are not applied.
+     */
+    className?: string;
+
+    /**
+     * Custom styles merged into the dialog box.
+     */
+    style?: React.CSSProperties;
+}
+
+const backdropStyles: React.CSSProperties = {
+    position: 'fixed',
+    inset: 0,
+    zIndex: 10000,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+};
+
+const dialogStyles: React.CSSProperties = {
+    maxWidth: '420px',
+    padding: '24px',
+    borderRadius: '8px',
+    backgroundColor: '#fff',
+    color: '#212529',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.2)',
+};
+
+const buttonStyles: React.CSSProperties = {
+    padding: '8px 16px',
+    borderRadius: '4px',
+    fontSize: '14px',
+    cursor: 'pointer',
+};
+
+/**
+ * Modal warning shown during the warning phase before the idle timeout
+ * (`Nis2Config.warningSeconds`), with a live countdown.
+ *
+ * "Stay signed in" extends the session in every tab; "Log out now" calls `logoutAllTabs()`.
+ * Both choices are reported as audit events (`SESSION_EXTENDED`, `SESSION_LOGOUT`).
+ *
+ * Accessible: `alertdialog` role, focus moved to the primary action and kept inside the dialog,
+ * Escape keeps the session.
+ *
+ * @example
+ * ```tsx
+ * <Nis2Provider config={{ auditEndpoint: '/api/nis2/telemetry/', warningSeconds: 60, onLogout }}>
+ *   <SessionTimeoutDialog />
+ *   <App />
+ * </Nis2Provider>
+ * ```
+ */
+export const SessionTimeoutDialog: React.FC<SessionTimeoutDialogProps> = ({
+    title = 'Your session is about to expire',
+    message = (seconds) => `For your security you will be signed out in ${seconds} seconds.`,
+    staySignedInLabel = 'Stay signed in',
+    logoutLabel = 'Log out now',
+    onLogout,
+    className,
+    style,
+}) => {
+    const { reportIncident, logoutAllTabs } = useNis2Context();
+    const { isWarning, secondsRemaining, staySignedIn } = useIdleCountdown();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const stayButtonRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        if (!isWarning) return;
+        const previouslyFocused = document.activeElement as HTMLElement | null;
+        stayButtonRef.current?.focus();
+        return () => {
+            previouslyFocused?.focus?.();
+        };
+    }, [isWarning]);
+
+    if (!isWarning) {
+        return null;
+    }
+
+    const handleStay = () => {
+        reportIncident('SESSION_EXTENDED', { via: 'timeout_dialog', secondsRemaining });
+        staySignedIn();
+    };
+
+    const handleLogout = () => {
+        logoutAllTabs('timeout_dialog');
+        if (onLogout) onLogout();
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key === 'Escape') {
+            event.preventDefault();
+            handleStay();
+            return;
+        }
+        if (event.key !== 'Tab' || !dialogRef.current) return;
+
+        // Keep keyboard focus inside the dialog
+        const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>('button'));
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (event.shiftKey && document.activeElement === first) {
+            event.preventDefault();
+            last.focus();
+        } else if (!event.shiftKey && document.activeElement === last) {
+            event.preventDefault();
+            first.focus();
+        }
+    };
+
+    return (
+        <div style={backdropStyles}>
+            <div
+                ref={dialogRef}
+                role="alertdialog"
+                aria-modal="true"
+                aria-labelledby="nis2-timeout-title"
+                aria-describedby="nis2-timeout-message"
+                className={className}
+                style={className ? style : { ...dialogStyles, ...style }}
+                onKeyDown={handleKeyDown}
+            >
+                <h2 id="nis2-timeout-title" style={{ margin: '0 0 12px', fontSize: '18px' }}>
+                    {title}
+                </h2>
+                <p id="nis2-timeout-message" style={{ margin: '0 0 20px' }}>
+                    {message(secondsRemaining)}
+                </p>
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+                    <button
+                        type="button"
+                        onClick={handleLogout}
+                        style={{ ...buttonStyles, background: 'none', border: '1px solid #6c757d', color: '#6c757d' }}
+                    >
+                        {logoutLabel}
+                    </button>
+                    <button
+                        ref={stayButtonRef}
+                        type="button"
+                        onClick={handleStay}
+                        style={{ ...buttonStyles, border: 'none', backgroundColor: '#0d6efd', color: '#fff' }}
+                    >
+                        {staySignedInLabel}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -12,11 +12,17 @@ interface Props {
      * Callback fired when the user becomes active again after being idle.
      */
     onActive?: () => void;
+
+    /**
+     * Callback fired when the warning phase starts, `Nis2Config.warningSeconds` before the idle timeout.
+     * Receives the seconds left. Use `useIdleCountdown` or `SessionTimeoutDialog` for a live countdown.
+     */
+    onWarning?: (secondsRemaining: number) => void;
 }
 
 /**
  * Invisible component that monitors user activity for NIS2 compliance.
- * Handles Idle Timeout (Automatic Logout) and Tab Napping checks.
+ * Handles Idle Timeout (Automatic Logout). For tab-napping detection see `Nis2Config.tabnabbing`.
  * 
  * @example
  * // Basic usage - auto-logout after 15 minutes of inactivity
@@ -29,10 +35,27 @@ interface Props {
  *   onIdle={() => window.location.href = '/logout?reason=idle'}
  *   onActive={() => console.log('User active')}
  * />
+ *
+ * @example
+ * // Warn before logging out
+ * <SessionWatchdog
+ *   onWarning={(seconds) => toast(`Signing out in ${seconds}s`)}
+ *   onIdle={() => authService.logout()}
+ * />
  */
-export const SessionWatchdog: React.FC<Props> = ({ onIdle, onActive }) => {
-    const { securityState } = useNis2Context();
+export const SessionWatchdog: React.FC<Props> = ({ onIdle, onActive, onWarning }) => {
+    const { securityState, getIdleDeadline } = useNis2Context();
     const wasIdle = useRef(false);
+    const wasWarning = useRef(false);
+
+    useEffect(() => {
+        if (securityState.isWarning && !wasWarning.current) {
+            wasWarning.current = true;
+            if (onWarning) onWarning(Math.max(0, Math.ceil((getIdleDeadline() - Date.now()) / 1000)));
+        } else if (!securityState.isWarning) {
+            wasWarning.current = false;
+        }
+    }, [securityState.isWarning, onWarning, getIdleDeadline]);
 
     useEffect(() => {
         if (securityState.isIdle && !wasIdle.current) {
@@ -0,0 +1,63 @@
+import React, { ReactNode, useEffect, useRef } from 'react';
+import { useNis2Context } from '../context/Nis2Context';
+import { TabnabbingFinding, sanitizeLink } from '../utils/tabnabbing';
+
+export interface TabnabbingGuardProps {
+    /** Called for each link that was fixed, after it is reported. */
+    onSanitize?: (finding: TabnabbingFinding) => void;
+    children: ReactNode;
+}
+
+/**
+ * Enforces `rel="noopener noreferrer"` on every `target="_blank"` link in the wrapped subtree,
+ * including links added or changed later (CMS content, markdown, third-party widgets).
+ * Without it, the opened page can navigate this tab to a look-alike through `window.opener`.
+ *
+ * Each link fixed is reported once as `TABNABBING_RISK` with `kind: 'unsafe_link'`.
+ * The wrapper uses `display: contents` and does not affect layout.
+ *
+ * @example
+ * ```tsx
+ * <TabnabbingGuard>
+ *   <div dangerouslySetInnerHTML={{ __html: article.html }} />
+ * </TabnabbingGuard>
+ * ```
+ */
+export const TabnabbingGuard: React.FC<TabnabbingGuardProps> = ({ onSanitize, children }) => {
+    const { reportIncident } = useNis2Context();
+    const rootRef = useRef<HTMLDivElement>(null);
+
+    const handleRef = useRef<(finding: TabnabbingFinding) => void>(() => undefined);
+    handleRef.current = (finding) => {
+        reportIncident('TABNABBING_RISK', { ...finding });
+        if (onSanitize) onSanitize(finding);
+    };
+
+    useEffect(() => {
+        const root = rootRef.current;
+        if (!root) return;
+        const reported = new Set<string>();
+
+        const sanitize = (element: Element) => {
+            const finding = sanitizeLink(element);
+            if (!finding || reported.has(finding.href!)) return;
+            reported.add(finding.href!);
+            handleRef.current(finding);
+        };
+        const sanitizeTree = (node: Node) => {
+            if (node.nodeType !== Node.ELEMENT_NODE) return;
+            sanitize(node as Element);
+            (node as Element).querySelectorAll('a[target], area[target]').forEach(sanitize);
+        };
+
+        sanitizeTree(root);
+        const observer = new MutationObserver(records => records.forEach(record => {
+            if (record.type === 'attributes') sanitize(record.target as Element);
+            else record.addedNodes.forEach(sanitizeTree);
+        }));
+        observer.observe(root, { childList: true, subtree: true, attributes: true, attributeFilter: ['target', 'rel'] });
+        return () => observer.disconnect();
+    }, []);
+
+    return <div ref={rootRef} style={{ display: 'contents' }}>{children}</div>;
+};
@@ -1,5 +1,46 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect, useMemo } from 'react';
-import { SessionGuardian, TelemetryReporter, CryptoService } from '@nis2shield/core';
+import React, {
+    createContext,
+    useContext,
+    useState,
+    useReducer,
+    ReactNode,
+    useEffect,
+    useMemo,
+    useCallback,
+    useRef
+} from 'react';
+import { CryptoService } from '@nis2shield/core';
+import { TelemetryQueue, TelemetryQueueStatus } from '../utils/telemetryQueue';
+import { Nis2Transport, createFetchTransport } from '../utils/transport';
+import { EnvelopeFactory, Nis2Severity, resolveSeverity } from '../utils/eventEnvelope';
+import { SiemFormat } from '../utils/siemFormats';
+import { AuditChain, SessionSecretProvider } from '../utils/auditChain';
+import { RedactionConfig, redactEvent } from '../utils/redaction';
+import { IncidentLimiter, RateLimitConfig, SUPPRESSION_EVENT_TYPE } from '../utils/rateLimiter';
+import { SessionSync } from '../utils/sessionSync';
+import { IdleCountdown } from '../utils/idleCountdown';
+import { ClockWatch } from '../utils/clockWatch';
+import { CspAnalysis, CspAnalyzer, CspMonitor } from '../utils/cspMonitor';
+import { ErrorCollector } from '../utils/errorCollector';
+import { ScriptInventory, ScriptInventoryReport, ScriptManifestEntry } from '../utils/scriptInventory';
+import { NetworkSentinel } from '../utils/networkSentinel';
+import { TabnabbingWatcher } from '../utils/tabnabbing';
+import {
+    RISK_POLICY_EVENT_TYPE,
+    RiskAction,
+    RiskAssessment,
+    RiskEngine,
+    RiskPolicy,
+    RiskSignalInput,
+    RiskSignalSource,
+    policyName
+} from '../utils/riskEngine';
+import { SessionLifetime, createSecureClockStorage } from '../utils/sessionLifetime';
+import { ReauthGate } from '../utils/reauthGate';
+import { EffectiveIdlePolicy, ScopedIdlePolicy, resolveIdlePolicy } from '../utils/idlePolicy';
+import { Nis2SecurityState, SessionTransition, createSessionState, sessionReducer } from '../utils/sessionState';
+
+export type { Nis2SecurityState } from '../utils/sessionState';
 
 /**
  * Configuration options for the Nis2Provider.
@@ -18,10 +59,35 @@ export interface Nis2Config {
     /**
      * The full URL of the backend endpoint to receive audit logs and telemetry.
      * Must accept POST requests with JSON payload.
+     * Required unless a custom `transport` is provided.
      * 
      * @example "https://api.myapp.com/api/nis2/report/"
      */
-    auditEndpoint: string;
+    auditEndpoint?: string;
+
+    /**
+     * Custom delivery for telemetry events, replacing the default POST to `auditEndpoint`.
+     * Use `createFetchTransport`, `createBeaconTransport`, `createConsoleTransport`
+     * or your own `Nis2Transport` implementation.
+     * Create it once (outside render or with `useMemo`): a new instance restarts the queue.
+     *
+     * @example
+     * ```ts
+     * transport: createFetchTransport({
+     *   endpoint: '/gateway/nis2/events',
+     *   headers: () => ({ Authorization: `Bearer ${getToken()}` })
+     * })
+     * ```
+     */
+    transport?: Nis2Transport;
+
+    /**
+     * Wire format used by the default transport, so the SOC can ingest events without a normalization layer.
+     * `'ecs'` (Elastic Common Schema), `'cef'` (ArcSight CEF, sent as text/plain) or `'ocsf'`.
+     * Ignored when a custom `transport` is set; pass `format` to the transport factory instead.
+     * @default 'json'
+     */
+    format?: SiemFormat;
 
     /**
      * Time in minutes before the user is considered idle.
@@ -31,30 +97,436 @@ export interface Nis2Config {
      */
     idleTimeoutMinutes?: number;
 
+    /**
+     * DOM events (listened to on `window`, capture phase) that count as user activity.
+     * The tab becoming visible again always counts too.
+     * @default ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll', 'wheel']
+     */
+    activityEvents?: string[];
+
+    /**
+     * Ignore activity events dispatched by scripts (`event.isTrusted === false`),
+     * so injected code cannot keep a session alive. Disable only for automated tests.
+     * @default true
+     */
+    ignoreUntrustedEvents?: boolean;
+
+    /**
+     * Length in seconds of the warning phase before the idle timeout, during which
+     * `securityState.isWarning` is true, `SessionWatchdog.onWarning` fires and
+     * `SessionTimeoutDialog` is shown. Passive activity no longer extends the session during it, so
+     * only enable it with a warning UI that calls `staySignedIn()`. 0 disables the warning phase.
+     * @default 0
+     */
+    warningSeconds?: number;
+
+    /**
+     * Hard cap on the session length in minutes, however active the user is.
+     * Measured on the wall clock from `restartSession()` (or the first load), across reloads and tabs.
+     * A stored clock that cannot be read (corrupted or edited) counts as expired.
+     *
+     * **Compliance**: keep enforcing the same cap on the backend; the client clock is a second line.
+     */
+    maxSessionMinutes?: number;
+
+    /**
+     * Maximum minutes between two authentications. When due, `onReauthRequired` fires;
+     * call `confirmReauth()` once the user has authenticated again.
+     */
+    reauthIntervalMinutes?: number;
+
+    /**
+     * Called in every tab when `maxSessionMinutes` is reached. Log the user out here.
+     */
+    onSessionExpired?: () => void;
+
+    /**
+     * Called in every tab when `reauthIntervalMinutes` has elapsed since the last authentication.
+     */
+    onReauthRequired?: () => void;
+
     /**
      * If true, logs granular security events to the browser console.
      * Disable in production.
      */
     debug?: boolean;
+
+    /**
+     * Maximum number of undelivered events kept in the outbound queue.
+     * When full, the oldest events are dropped first.
+     * @default 500
+     */
+    maxQueueSize?: number;
+
+    /**
+     * Maximum age in milliseconds of an undelivered event before it is discarded.
+     * @default 86400000 (24 hours)
+     */
+    maxEventAgeMs?: number;
+
+    /**
+     * Maximum number of events sent in a single request.
+     * When greater than 1, requests carry a `{ events: [...] }` body instead of a single event.
+     * @default 1
+     */
+    batchSize?: number;
+
+    /**
+     * How often, in milliseconds, queued events are flushed.
+     * 0 sends each event immediately; a positive value holds events until the interval
+     * elapses or `batchSize` events are waiting.
+     * On `pagehide` or when the tab is hidden, while online, pending events are handed to the transport's unload delivery:
+     * `fetch` with `keepalive` for the default transport, `navigator.sendBeacon` for `createBeaconTransport`.
+     * Events the browser refuses stay queued and are replayed on the next page load.
+     * @default 0
+     */
+    flushIntervalMs?: number;
+
+    /**
+     * Version of your application, added to every event envelope as `appVersion`.
+     */
+    appVersion?: string;
+
+    /**
+     * Tenant identifier for multi-tenant deployments, added to every event envelope as `tenant`.
+     */
+    tenant?: string;
+
+    /**
+     * Enables tamper evidence: each event carries the hash of the previous event of the session
+     * and an HMAC keyed from a session secret issued by your backend (HKDF-SHA256, salt = session id).
+     * Verify received events with `verifyAuditChain`.
+     *
+     * @example
+     * ```ts
+     * integrity: { sessionSecret: () => fetch('/api/nis2/session-secret').then(r => r.text()) }
+     * ```
+     */
+    integrity?: {
+        sessionSecret: SessionSecretProvider;
+    };
+
+    /**
+     * PII redaction applied to every event before it is sealed, queued or sent.
+     * Enabled by default with all built-in detectors (URL secrets, JWTs, bearer tokens, emails,
+     * IBANs, card numbers) and a deny-list of credential fields. Set to `false` to disable.
+     *
+     * @example
+     * ```ts
+     * redaction: {
+     *   denyFields: ['password', 'payload.user.fiscalCode'],
+     *   rules: [{ name: 'customerId', pattern: /CUST-\d{6}/g }]
+     * }
+     * ```
+     */
+    redaction?: RedactionConfig | false;
+
+    /**
+     * Protects the audit endpoint from floods (crash loops, log calls inside a render).
+     * Enabled by default: per-type token buckets (burst 20, 60/min) and a 10s dedup window.
+     * Suppressed events are reported as a single `EVENTS_SUPPRESSED` summary;
+     * CRITICAL events are never sampled or rate limited. Set to `false` to disable.
+     *
+     * @example
+     * ```ts
+     * rateLimit: {
+     *   limits: { '*': { burst: 10, perMinute: 30 }, REACT_COMPONENT_CRASH: { burst: 3, perMinute: 5 } },
+     *   infoSampleRate: 0.1
+     * }
+     * ```
+     */
+    rateLimit?: RateLimitConfig | false;
+
+    /**
+     * Keeps activity, idle, lock and logout state consistent across all same-origin tabs
+     * (BroadcastChannel, with a `storage` event fallback). Activity in any tab keeps every tab alive,
+     * and only one elected tab reports the idle timeout.
+     * @default true
+     */
+    crossTabSync?: boolean;
+
+    /**
+     * Called in every tab when `logoutAllTabs()` is invoked from any of them.
+     * Clear your auth state and redirect here.
+     *
+     * @example
+     * ```ts
+     * onLogout: () => { authStore.clear(); window.location.assign('/login'); }
+     * ```
+     */
+    onLogout?: (reason?: string) => void;
+
+    /**
+     * Called in this tab on every change of `securityState.status`, with the reason.
+     * A single place to drive UI and backend logout from.
+     *
+     * @example
+     * ```ts
+     * onStateChange: ({ to, reason }) => {
+     *   if (to === 'compromised' || to === 'expired') api.revokeSession(reason);
+     * }
+     * ```
+     */
+    onStateChange?: (transition: SessionTransition) => void;
+
+    /**
+     * Content Security Policy violation capture. Each distinct `securitypolicyviolation` is reported
+     * once per page load as `CSP_VIOLATION` (WARNING, INFO for report-only policies).
+     * Enabled by default; set to `false` to disable.
+     *
+     * @example
+     * ```ts
+     * // Collect violations of a Content-Security-Policy-Report-Only header and get a suggested policy
+     * csp: { analyze: true }
+     * // later: useNis2Context().getCspAnalysis()?.policy
+     * ```
+     */
+    csp?: {
+        /**
+         * Distinct violations reported per page load; later ones are dropped.
+         * @default 50
+         */
+        maxReportsPerPage?: number;
+        /** Collect every violation for `getCspAnalysis()`. */
+        analyze?: boolean;
+    } | false;
+
+    /**
+     * Reports errors that escape React (event handlers, timers, async code) and unhandled promise
+     * rejections as `UNCAUGHT_ERROR`, with the same payload as `AuditBoundary` crashes.
+     * Opaque cross-origin "Script error." events are dropped. Read once when the provider mounts.
+     * @default false
+     *
+     * @example
+     * ```ts
+     * captureGlobalErrors: { ignoreThirdParty: true, ignore: ['ResizeObserver loop'] }
+     * ```
+     */
+    captureGlobalErrors?: boolean | {
+        /** Skip errors from scripts of other origins. @default false */
+        ignoreThirdParty?: boolean;
+        /** Messages to ignore: substrings or patterns. */
+        ignore?: (string | RegExp)[];
+    };
+
+    /**
+     * Inventory of the scripts loaded by the page, checked against a manifest of authorised sources
+     * (PCI DSS 4.0 req. 6.4.3). Each newly seen unauthorised script is reported as `UNAUTHORIZED_SCRIPT`,
+     * and the full inventory is reported periodically as `SCRIPT_INVENTORY`. Read with `useScriptInventory()`.
+     *
+     * @example
+     * ```ts
+     * scriptInventory: {
+     *   manifest: [
+     *     'https://js.stripe.com',
+     *     { url: 'https://cdn.example/analytics.js', integrity: 'sha384-oqVuAfXRKap7fdgcCY5uykM6+R9GqQ8K/uxy9rx7HNQlGYl1kPzQho1wx4JwY8wC' },
+     *   ],
+     * }
+     * ```
+     */
+    scriptInventory?: {
+        /** Authorised script sources: origins, URL prefixes, or URLs pinned to an SRI hash. */
+        manifest?: ScriptManifestEntry[];
+        /** Scripts from the page's own origin need no manifest entry. @default true */
+        allowSameOrigin?: boolean;
+        /** How often the page is scanned for new scripts. @default 30 */
+        scanIntervalSeconds?: number;
+        /** How often `SCRIPT_INVENTORY` is reported; the first report follows the first scan interval. @default 60 */
+        reportIntervalMinutes?: number;
+    };
+
+    /**
+     * Wraps `fetch` and `XMLHttpRequest` to flag plaintext and mixed-content requests, calls outside
+     * `allowedOrigins`, and large uploads to unknown hosts. Each distinct finding is reported once as
+     * `NETWORK_POLICY_VIOLATION`. Requests to `auditEndpoint` are never inspected.
+     *
+     * @example
+     * ```ts
+     * networkSentinel: { allowedOrigins: ['https://api.example.com', 'https://*.sentry.io'], block: true }
+     * ```
+     */
+    networkSentinel?: {
+        /** Origins the app may call besides its own. Without it, unknown origins are only flagged for large uploads. */
+        allowedOrigins?: string[];
+        /** Upload size above which a request to an unknown host is flagged. @default 100 */
+        maxUploadKB?: number;
+        /**
+         * Fail flagged requests with a network error. Add the origin of a custom `transport` to
+         * `allowedOrigins` or `exclude` first, or audit events will be blocked too.
+         * @default false
+         */
+        block?: boolean;
+        /** URLs never inspected: prefixes or patterns. */
+        exclude?: (string | RegExp)[];
+    };
+
+    /**
+     * Tab-napping and reverse tabnabbing detection, reported as `TABNABBING_RISK`: the page opened with
+     * `window.opener` access, title or favicon changed while the tab is hidden, and the page navigated away
+     * while hidden after opening a window that kept `opener` access. Use `TabnabbingGuard` to fix links.
+     * @default false
+     *
+     * @example
+     * ```ts
+     * tabnabbing: { detachOpener: true, watchTitle: false }
+     * ```
+     */
+    tabnabbing?: boolean | {
+        /** Set `window.opener` to null after reporting it. @default false */
+        detachOpener?: boolean;
+        /** Report title and favicon changes while hidden. Disable if the app shows unread counts. @default true */
+        watchTitle?: boolean;
+    };
+
+    /**
+     * Adaptive security: reported incidents (weighted by `incidentWeights`), pluggable `sources` and
+     * `setRiskSignal()` add up to a session risk score read with `useRiskScore()`. Each policy fires once
+     * when the score rises to its threshold and is reported as `RISK_POLICY_TRIGGERED`.
+     * `reauth` falls back to `lock` without `config.reauth`. Without policies the score is only tracked.
+     *
+     * @example
+     * ```ts
+     * risk: {
+     *   policies: [
+     *     { threshold: 30, action: 'warn' },
+     *     { threshold: 50, action: 'reauth' },
+     *     { name: 'contain', threshold: 80, action: ['lock', 'report_critical'] }
+     *   ],
+     *   incidentWeights: { CSP_VIOLATION: 0 },
+     *   onWarn: (assessment) => toast(`Unusual activity (${assessment.level} risk)`)
+     * }
+     * ```
+     */
+    risk?: {
+        policies?: RiskPolicy[];
+        /** Weight per incident type, merged over `DEFAULT_RISK_WEIGHTS`. 0 ignores a type. */
+        incidentWeights?: Record<string, number>;
+        /** Extra signal sources, started with the provider. Names must be unique. */
+        sources?: RiskSignalSource[];
+        /** Signals are forgotten after this long unless they set their own `ttlMs`. @default 30 */
+        signalTtlMinutes?: number;
+        /** Called when a `warn` policy fires. */
+        onWarn?: (assessment: RiskAssessment) => void;
+    };
+
+    /**
+     * Step-up re-authentication. When set, an idle session stays locked (`securityState.reauthRequired`)
+     * until `reauthenticate` succeeds: activity alone no longer resumes it. Attempts go through
+     * `useReauth()` (or `PrivacyLock`), are audited, and lock out after `maxAttempts` consecutive failures.
+     *
+     * @example
+     * ```ts
+     * reauth: {
+     *   reauthenticate: () => openPasswordPrompt().then(password => api.verifyPassword(password)),
+     *   maxAttempts: 3,
+     *   lockoutMinutes: 15,
+     *   onLockout: () => logoutEverywhere()
+     * }
+     * ```
+     */
+    reauth?: {
+        /**
+         * Your flow (password prompt, OTP, SSO popup). Resolve to confirm the user;
+         * reject or resolve `false` on failure.
+         */
+        reauthenticate: () => Promise<unknown>;
+        /** @default 3 */
+        maxAttempts?: number;
+        /** @default 5 */
+        lockoutMinutes?: number;
+        /**
+         * Require re-authentication when the session becomes idle.
+         * Set to `false` to only gate `reauthIntervalMinutes`.
+         * @default true
+         */
+        afterIdle?: boolean;
+        /** Called when `maxAttempts` consecutive failures start a lockout. */
+        onLockout?: () => void;
+    };
 }
 
 /**
- * Represents the current security state of the session.
+ * Options for a single reported incident.
  */
-export interface Nis2SecurityState {
-    isIdle: boolean;
-    isCompromised: boolean;
-    lastActive: number;
+export interface ReportIncidentOptions {
+    /**
+     * Overrides the severity derived from the event type.
+     */
+    severity?: Nis2Severity;
+}
+
+/**
+ * Progress of step-up re-authentication attempts (`Nis2Config.reauth`).
+ */
+export interface ReauthStatus {
+    /** An attempt is running. */
+    isPending: boolean;
+    /** Consecutive failed attempts. */
+    failures: number;
+    attemptsRemaining: number;
+    /** Epoch milliseconds until which attempts are refused, or null. */
+    lockedOutUntil: number | null;
 }
 
 interface Nis2ContextType {
     config: Nis2Config;
     securityState: Nis2SecurityState;
     setIdle: (idle: boolean) => void;
-    reportIncident: (type: string, payload: Record<string, any>) => void;
+    /** Locks or unlocks the session in this tab and in every other tab. */
+    setLocked: (locked: boolean) => void;
+    /**
+     * Moves the session to the terminal `compromised` status in every tab and reports
+     * `SESSION_COMPROMISED`. Only `restartSession()` leaves it.
+     */
+    markCompromised: (reason: string) => void;
+    /** Status transitions of this tab, oldest first (last 50). */
+    sessionHistory: SessionTransition[];
+    /** Idle policy in force: the global config tightened by the mounted `IdlePolicyScope`s. */
+    idlePolicy: EffectiveIdlePolicy;
+    /** Adds a scoped policy until the returned function is called. Used by `IdlePolicyScope`. */
+    registerIdlePolicy: (policy: ScopedIdlePolicy) => () => void;
+    /** Policy suggested from the CSP violations collected so far, or null without `csp.analyze`. */
+    getCspAnalysis: () => CspAnalysis | null;
+    /** Latest script inventory, or null without `config.scriptInventory`. */
+    scriptInventory: ScriptInventoryReport | null;
+    /** Scans the page for new scripts now and returns the updated inventory. */
+    scanScripts: () => ScriptInventoryReport | null;
+    /** Session risk score and the policies it currently meets. */
+    riskAssessment: RiskAssessment;
+    /** Adds or replaces a signal; `source` defaults to `app`. */
+    setRiskSignal: (signal: RiskSignalInput, source?: string) => void;
+    clearRiskSignal: (id: string, source?: string) => void;
+    /** Logs the user out of every open tab by calling `config.onLogout` in each of them. */
+    logoutAllTabs: (reason?: string) => void;
+    /** Epoch milliseconds at which the session becomes idle without further activity. */
+    getIdleDeadline: () => number;
+    /** Counts as user activity in every tab: ends the warning phase and restarts the idle timer. */
+    staySignedIn: () => void;
+    /** Starts a new session clock for `maxSessionMinutes` / `reauthIntervalMinutes`. Call after login. */
+    restartSession: () => Promise<void>;
+    /** Records a successful re-authentication. */
+    confirmReauth: () => Promise<void>;
+    /**
+     * Runs `config.reauth.reauthenticate` with retry limits and auditing.
+     * Resolves true once the user is confirmed in every tab.
+     */
+    reauthenticate: () => Promise<boolean>;
+    reauthStatus: ReauthStatus;
+    /** Resolves once the event is queued. Never rejects. */
+    reportIncident: (type: string, payload: Record<string, any>, options?: ReportIncidentOptions) => Promise<void>;
     cryptoService: CryptoService;
+    /** Depth and last flush result of the outbound telemetry queue. */
+    telemetryStatus: TelemetryQueueStatus;
+    /** Forces an immediate delivery attempt of queued events. */
+    flushTelemetry: () => Promise<void>;
 }
 
+/** Default `activityEvents`: DOM events that count as activity and are shared with the other tabs. */
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll', 'wheel'];
+
+/** Activity is broadcast at most this often; idle timeouts are minutes long. */
+const ACTIVITY_BROADCAST_INTERVAL_MS = 5000;
+
 const Nis2Context = createContext<Nis2ContextType | undefined>(undefined);
 
 interface Nis2ProviderProps {
@@ -85,56 +557,742 @@ interface Nis2ProviderProps {
  * ```
  */
 export const Nis2Provider: React.FC<Nis2ProviderProps> = ({ children, config }) => {
-    const [securityState, setSecurityState] = useState<Nis2SecurityState>({
-        isIdle: false,
-        isCompromised: false,
-        lastActive: Date.now(),
+    const [session, dispatch] = useReducer(sessionReducer, undefined, () => createSessionState());
+    const securityState = session.security;
+
+    const [telemetryStatus, setTelemetryStatus] = useState<TelemetryQueueStatus>({
+        depth: 0,
+        lastFlushAt: null,
+        lastFlushStatus: 'idle',
+        lastError: null,
     });
 
     // Initialize Core Services
-    const reporter = useMemo(() => new TelemetryReporter({
-        endpoint: config.auditEndpoint,
-        debug: config.debug
-    }), [config.auditEndpoint, config.debug]);
+    const transport = useMemo(() => {
+        if (config.transport) return config.transport;
+        if (!config.auditEndpoint) {
+            throw new Error('Nis2Provider requires either config.auditEndpoint or config.transport');
+        }
+        return createFetchTransport({
+            endpoint: config.auditEndpoint,
+            batched: (config.batchSize ?? 1) > 1,
+            format: config.format
+        });
+    }, [config.transport, config.auditEndpoint, config.batchSize, config.format]);
 
-    const guardian = useMemo(() => new SessionGuardian({
-        timeoutMinutes: config.idleTimeoutMinutes || 15,
+    const envelopes = useMemo(() => new EnvelopeFactory({
+        appVersion: config.appVersion,
+        tenant: config.tenant
+    }), [config.appVersion, config.tenant]);
+
+    const sessionSecret = config.integrity?.sessionSecret;
+    const chain = useMemo(() => sessionSecret ? new AuditChain({
+        sessionId: envelopes.sessionId,
+        sessionSecret,
         debug: config.debug
-    }), [config.idleTimeoutMinutes, config.debug]);
+    }) : null, [envelopes, sessionSecret, config.debug]);
+
+    const queue = useMemo(() => {
+        return new TelemetryQueue({
+            deliver: (events) => transport.send(events),
+            deliverOnUnload: transport.sendOnUnload
+                ? (events) => transport.sendOnUnload!(events)
+                : undefined,
+            batchSize: config.batchSize,
+            flushIntervalMs: config.flushIntervalMs,
+            maxQueueSize: config.maxQueueSize,
+            maxEventAgeMs: config.maxEventAgeMs,
+            onStatusChange: setTelemetryStatus,
+            debug: config.debug
+        });
+    }, [
+        transport,
+        config.batchSize,
+        config.flushIntervalMs,
+        config.maxQueueSize,
+        config.maxEventAgeMs,
+        config.debug
+    ]);
 
     const cryptoService = useMemo(() => new CryptoService(), []);
 
-    useEffect(() => {
-        // Bind Guardian Events to React State
-        guardian.on('idle', () => {
-            setSecurityState(prev => ({ ...prev, isIdle: true }));
+    const sync = useMemo(
+        () => config.crossTabSync === false ? null : new SessionSync({ debug: config.debug }),
+        [config.crossTabSync, config.debug]
+    );
+
+    const syncRef = useRef(sync);
+    syncRef.current = sync;
+
+    const onLogoutRef = useRef(config.onLogout);
+    onLogoutRef.current = config.onLogout;
+
+    const [idleScopes, setIdleScopes] = useState<ScopedIdlePolicy[]>([]);
+    const idlePolicy = useMemo(() => resolveIdlePolicy({
+        idleTimeoutMinutes: config.idleTimeoutMinutes || 15,
+        warningSeconds: config.warningSeconds ?? 0,
+        lockOnIdle: false
+    }, idleScopes), [config.idleTimeoutMinutes, config.warningSeconds, idleScopes]);
+
+    const idlePolicyRef = useRef(idlePolicy);
+    idlePolicyRef.current = idlePolicy;
+    // Assigned once setLocked exists
+    const lockForPolicyRef = useRef<() => void>(() => undefined);
+
+    const timeoutMs = idlePolicy.idleTimeoutMinutes * 60000;
+    // A warning longer than the timeout itself would start right away
+    const warningMs = Math.min(idlePolicy.warningSeconds * 1000, timeoutMs);
+    // The single idle timer: activity, scopes, `extend()` and other tabs all go through it
+    const countdown = useMemo(() => new IdleCountdown({
+        timeoutMs,
+        warningMs,
+        onWarning: (remainingMs) => {
+            dispatch({ reason: 'warning', patch: { isWarning: true } });
+            if (config.debug) console.log(`🛡️ [NIS2 Guard] Idle timeout in ${Math.ceil(remainingMs / 1000)}s`);
+        },
+        onIdle: () => {
+            dispatch({ reason: 'idle_timeout', patch: { isIdle: true, isWarning: false } });
+            syncRef.current?.post({ kind: 'idle' });
+            // Only the tab whose own policy timed out applies its lock
+            if (idlePolicyRef.current.lockOnIdle) lockForPolicyRef.current();
             if (config.debug) console.log('🛡️ [NIS2 Guard] User is Idle');
+        },
+        onActive: () => {
+            dispatch({ reason: 'activity', patch: { isIdle: false, isWarning: false, lastActive: Date.now() } });
+            if (config.debug) console.log('🛡️ [NIS2 Guard] User is Active');
+        }
+    }), [config.debug]);
+
+    useEffect(() => {
+        // Scopes tighten or relax the policy without restarting the idle timer
+        countdown.configure({ timeoutMs, warningMs });
+    }, [countdown, timeoutMs, warningMs]);
+
+    const registerIdlePolicy = useCallback((policy: ScopedIdlePolicy) => {
+        const entry = { ...policy };
+        setIdleScopes(prev => [...prev, entry]);
+        return () => setIdleScopes(prev => prev.filter(scope => scope !== entry));
+    }, []);
+
+    // Assigned once the session lifetime is built below; read by the clock watch
+    const lifetimeRef = useRef<SessionLifetime | null>(null);
+
+    // Why the session last went idle, attached to the SESSION_IDLE_TIMEOUT audit event
+    const idleCauseRef = useRef<{ cause: 'suspended'; suspendedSeconds?: number } | null>(null);
+
+    const activityEvents = config.activityEvents ?? ACTIVITY_EVENTS;
+    const activityEventsKey = activityEvents.join(',');
+    const ignoreUntrusted = config.ignoreUntrustedEvents !== false;
+
+    useEffect(() => {
+        let lastBroadcast = 0;
+        let untrustedLogged = false;
+        const onActivity = (event: Event) => {
+            if (ignoreUntrusted && !event.isTrusted) {
+                // Dispatched by a script, not the user: must not keep the session alive
+                if (config.debug && !untrustedLogged) {
+                    untrustedLogged = true;
+                    console.log(`🛡️ [NIS2 Guard] Ignoring untrusted "${event.type}" activity`);
+                }
+                return;
+            }
+            const now = Date.now();
+            // Ignored during the warning phase: only "stay signed in" extends the session then
+            if (!countdown.markActivity(now)) {
+                if (countdown.getPhase() === 'idle' && !idleCauseRef.current) idleCauseRef.current = { cause: 'suspended' };
+                return;
+            }
+            if (!sync || now - lastBroadcast < ACTIVITY_BROADCAST_INTERVAL_MS) return;
+            lastBroadcast = now;
+            sync.post({ kind: 'activity', at: now });
+        };
+
+        // Switching back to the tab is activity, as with the core SessionGuardian
+        const onVisibilityChange = (event: Event) => {
+            if (!document.hidden) onActivity(event);
+        };
+
+        const types = activityEventsKey.split(',').filter(Boolean);
+        countdown.start();
+        types.forEach(type => window.addEventListener(type, onActivity, { passive: true, capture: true }));
+        document.addEventListener('visibilitychange', onVisibilityChange);
+
+        return () => {
+            types.forEach(type => window.removeEventListener(type, onActivity, { capture: true }));
+            document.removeEventListener('visibilitychange', onVisibilityChange);
+            countdown.stop();
+        };
+    }, [countdown, sync, activityEventsKey, ignoreUntrusted, config.debug]);
+
+    useEffect(() => {
+        // Timers stand still while the laptop sleeps or the tab is frozen: re-check on resume
+        const watch = new ClockWatch({
+            onResume: (gapMs) => {
+                if (countdown.getPhase() === 'idle') return;
+                idleCauseRef.current = { cause: 'suspended', suspendedSeconds: Math.round(gapMs / 1000) };
+                countdown.sync();
+                if (countdown.getPhase() !== 'idle') idleCauseRef.current = null;
+            },
+            onClockSkew: (skewMs) => {
+                countdown.adjustClock(skewMs);
+                const leader = !syncRef.current || syncRef.current.isLeader();
+                // The hard cap and re-authentication interval must not grow either: the leader saves the shifted clock
+                lifetimeRef.current?.adjustClock(skewMs, leader);
+                if (leader) {
+                    reportRef.current('CLOCK_SKEW_DETECTED', { skewSeconds: Math.round(skewMs / 1000) });
+                }
+            },
+            debug: config.debug
         });
+        watch.start();
+        return () => watch.stop();
+    }, [countdown, config.debug]);
 
-        guardian.on('active', () => {
-            setSecurityState(prev => ({ ...prev, isIdle: false, lastActive: Date.now() }));
-            if (config.debug) console.log('🛡️ [NIS2 Guard] User is Active');
+    useEffect(() => {
+        if (!sync) return;
+
+        const unsubscribe = sync.on(message => {
+            switch (message.kind) {
+                case 'activity':
+                    // The user is active in another tab: restart this tab's idle timer too
+                    countdown.extend(message.at);
+                    dispatch({ reason: 'activity', patch: { isIdle: false, lastActive: message.at } });
+                    break;
+                case 'idle':
+                    dispatch({ reason: 'idle_timeout', patch: { isIdle: true, isWarning: false } });
+                    break;
+                case 'lock':
+                case 'unlock':
+                    dispatch({
+                        reason: message.kind === 'lock' ? 'locked' : 'unlocked',
+                        patch: { isLocked: message.kind === 'lock' }
+                    });
+                    break;
+                case 'compromised':
+                    dispatch({ reason: 'compromised', patch: { isCompromised: true }, detail: message.reason });
+                    break;
+                case 'logout':
+                    onLogoutRef.current?.(message.reason);
+                    break;
+            }
         });
 
-        guardian.start();
+        sync.start();
 
         return () => {
-            guardian.stop();
+            unsubscribe();
+            sync.stop();
         };
-    }, [guardian, config.debug]);
+    }, [sync, countdown]);
 
+    useEffect(() => {
+        queue.start();
+        return () => {
+            queue.stop();
+        };
+    }, [queue]);
 
     const setIdle = (idle: boolean) => {
-        setSecurityState(prev => ({ ...prev, isIdle: idle }));
-        // Also sync with guardian if manually set? 
-        // Guardian manages its own timer, but manual override is okay.
-        if (!idle) guardian.reset();
+        dispatch({ reason: 'manual', patch: { isIdle: idle } });
+        if (!idle) countdown.extend();
     };
 
-    const reportIncident = async (type: string, payload: Record<string, any>) => {
-        await reporter.report(type, payload);
+    // Read through a ref so an inline config object does not change reportIncident on every render
+    const redactionRef = useRef(config.redaction);
+    redactionRef.current = config.redaction;
+
+    // Never rejects: callers fire and forget, so a failure here would be an unhandled rejection and a lost event
+    const emit = useCallback(async (type: string, payload: Record<string, any>, severity?: Nis2Severity) => {
+        try {
+            const redaction = redactionRef.current;
+            const created = envelopes.create(type, payload, severity);
+            const event = redaction === false ? created : redactEvent(created, redaction);
+            if (config.debug && event.redactions) {
+                console.log('🛡️ [NIS2 Guard] Redacted event fields:', event.redactions);
+            }
+            let sealed = event;
+            if (chain) {
+                try {
+                    sealed = await chain.seal(event);
+                } catch (error) {
+                    // e.g. no `crypto.subtle` on a plain-HTTP page: send it unsealed, the verifier flags it as `unsigned`
+                    if (config.debug) console.warn(`🛡️ [NIS2 Guard] Could not seal ${type}, sending it unsealed`, error);
+                }
+            }
+            await queue.enqueue(sealed);
+        } catch (error) {
+            if (config.debug) console.warn(`🛡️ [NIS2 Guard] Failed to queue ${type}`, error);
+        }
+    }, [queue, envelopes, chain, config.debug]);
+
+    const emitRef = useRef(emit);
+    emitRef.current = emit;
+
+    // Keyed on the serialized config so an inline object does not reset the buckets on every render
+    const rateLimitKey = JSON.stringify(config.rateLimit ?? {});
+    const limiter = useMemo(() => config.rateLimit === false ? null : new IncidentLimiter({
+        ...config.rateLimit,
+        onSummary: (summary) => {
+            emitRef.current(SUPPRESSION_EVENT_TYPE, { ...summary });
+        },
+        debug: config.debug
+    }), [rateLimitKey, config.debug]);
+
+    useEffect(() => () => limiter?.stop(), [limiter]);
+
+    const riskConfig = config.risk;
+    const riskConfigRef = useRef(riskConfig);
+    riskConfigRef.current = riskConfig;
+    const riskWeightsKey = JSON.stringify(riskConfig?.incidentWeights ?? {});
+    const riskPoliciesKey = JSON.stringify(riskConfig?.policies ?? []);
+    const riskSourcesKey = (riskConfig?.sources ?? []).map(source => source.name).join('\n');
+    const signalTtlMinutes = riskConfig?.signalTtlMinutes ?? 30;
+    // Assigned once setLocked and the re-authentication gate exist
+    const riskPolicyRef = useRef<(policy: RiskPolicy, actions: RiskAction[], assessment: RiskAssessment) => void>(() => undefined);
+
+    const [riskAssessment, setRiskAssessment] = useState<RiskAssessment>({ score: 0, level: 'low', signals: [], triggered: [] });
+    // One engine for the provider's lifetime: rebuilding it would drop the accumulated signals
+    const [riskEngine] = useState(() => new RiskEngine({
+        incidentWeights: riskConfigRef.current?.incidentWeights,
+        signalTtlMs: signalTtlMinutes * 60000,
+        onChange: setRiskAssessment,
+        onPolicy: (policy, actions, assessment) => {
+            // The update may run inside reportIncident, an effect or a render: act once it has returned
+            queueMicrotask(() => riskPolicyRef.current(policy, actions, assessment));
+        },
+        debug: config.debug
+    }));
+
+    useEffect(() => {
+        riskEngine.setIncidentWeights(riskConfigRef.current?.incidentWeights);
+    }, [riskEngine, riskWeightsKey]);
+
+    useEffect(() => {
+        riskEngine.setSignalTtl(signalTtlMinutes * 60000);
+    }, [riskEngine, signalTtlMinutes]);
+
+    useEffect(() => {
+        riskEngine.setDebug(!!config.debug);
+    }, [riskEngine, config.debug]);
+
+    useEffect(() => {
+        riskEngine.setPolicies(riskConfigRef.current?.policies ?? []);
+    }, [riskEngine, riskPoliciesKey]);
+
+    useEffect(() => {
+        riskEngine.start(riskConfigRef.current?.sources);
+        return () => riskEngine.stop();
+    }, [riskEngine, riskSourcesKey]);
+
+    const setRiskSignal = useCallback((signal: RiskSignalInput, source = 'app') => {
+        riskEngine.setSignal(source, signal);
+    }, [riskEngine]);
+
+    const clearRiskSignal = useCallback((id: string, source = 'app') => {
+        riskEngine.clearSignal(source, id);
+    }, [riskEngine]);
+
+    const reportIncident = useCallback(async (
+        type: string,
+        payload: Record<string, any>,
+        options: ReportIncidentOptions = {}
+    ) => {
+        const severity = resolveSeverity(type, options.severity);
+        // Scored before rate limiting: a suppressed event is still a signal
+        riskEngine.observeIncident(type, severity);
+        // Limited before the envelope is built, so suppressed events do not leave sequence gaps
+        if (limiter && !limiter.admit(type, severity, payload)) return;
+        await emit(type, payload, options.severity);
+    }, [riskEngine, limiter, emit]);
+
+    const reportRef = useRef(reportIncident);
+    reportRef.current = reportIncident;
+
+    const cspEnabled = config.csp !== false;
+    const cspMaxReports = config.csp ? config.csp.maxReportsPerPage : undefined;
+    const cspAnalyze = !!(config.csp && config.csp.analyze);
+    const cspAnalyzer = useMemo(() => cspAnalyze ? new CspAnalyzer() : null, [cspAnalyze]);
+
+    useEffect(() => {
+        if (!cspEnabled) return;
+        const monitor = new CspMonitor({
+            onViolation: (violation) => {
+                reportRef.current(
+                    'CSP_VIOLATION',
+                    { ...violation },
+                    violation.disposition === 'report' ? { severity: 'INFO' } : undefined
+                );
+            },
+            onEveryViolation: cspAnalyzer ? (violation) => cspAnalyzer.collect(violation) : undefined,
+            maxReports: cspMaxReports,
+            debug: config.debug
+        });
+        monitor.start();
+        return () => monitor.stop();
+    }, [cspEnabled, cspMaxReports, cspAnalyzer, config.debug]);
+
+    const globalErrors = config.captureGlobalErrors;
+    const captureGlobalErrors = !!globalErrors;
+    const ignoreThirdPartyErrors = typeof globalErrors === 'object' && !!globalErrors.ignoreThirdParty;
+    const ignoredErrorsRef = useRef(typeof globalErrors === 'object' ? globalErrors.ignore : undefined);
+
+    useEffect(() => {
+        if (!captureGlobalErrors) return;
+        const collector = new ErrorCollector({
+            onCrash: (report) => {
+                // A failing report must not raise another unhandled rejection
+                reportRef.current('UNCAUGHT_ERROR', { ...report }).catch(() => undefined);
+            },
+            ignoreThirdParty: ignoreThirdPartyErrors,
+            ignore: ignoredErrorsRef.current,
+            debug: config.debug
+        });
+        collector.start();
+        return () => collector.stop();
+    }, [captureGlobalErrors, ignoreThirdPartyErrors, config.debug]);
+
+    const getCspAnalysis = useCallback(() => cspAnalyzer?.analyze() ?? null, [cspAnalyzer]);
+
+    const tabnabbing = config.tabnabbing;
+    const tabnabbingEnabled = !!tabnabbing;
+    const detachOpener = typeof tabnabbing === 'object' && !!tabnabbing.detachOpener;
+    const watchTitle = typeof tabnabbing === 'object' ? tabnabbing.watchTitle ?? true : true;
+
+    useEffect(() => {
+        if (!tabnabbingEnabled) return;
+        const watcher = new TabnabbingWatcher({
+            onFinding: (finding) => {
+                reportRef.current('TABNABBING_RISK', { ...finding }).catch(() => undefined);
+            },
+            detachOpener,
+            watchTitle,
+            debug: config.debug
+        });
+        watcher.start();
+        return () => watcher.stop();
+    }, [tabnabbingEnabled, detachOpener, watchTitle, config.debug]);
+
+    const sentinelConfig = config.networkSentinel;
+    const sentinelKey = sentinelConfig
+        ? JSON.stringify({ ...sentinelConfig, exclude: sentinelConfig.exclude?.map(String) })
+        : null;
+    const sentinelExcludeRef = useRef(sentinelConfig?.exclude);
+    sentinelExcludeRef.current = sentinelConfig?.exclude;
+
+    useEffect(() => {
+        if (!sentinelKey) return;
+        const { allowedOrigins, maxUploadKB = 100, block } = JSON.parse(sentinelKey);
+        const exclude: (string | RegExp)[] = [...(sentinelExcludeRef.current ?? [])];
+        // Audit traffic must never be flagged, or each report would trigger another
+        if (config.auditEndpoint) {
+            exclude.push(new URL(config.auditEndpoint, window.location.href).href.split(/[?#]/)[0]);
+        }
+        const sentinel = new NetworkSentinel({
+            onFinding: (finding) => {
+                reportRef.current('NETWORK_POLICY_VIOLATION', { ...finding }).catch(() => undefined);
+            },
+            allowedOrigins,
+            maxUploadBytes: maxUploadKB * 1024,
+            block,
+            exclude,
+            debug: config.debug
+        });
+        sentinel.install();
+        return () => sentinel.uninstall();
+    }, [sentinelKey, config.auditEndpoint, config.debug]);
+
+    const inventoryConfig = config.scriptInventory;
+    const inventoryEnabled = !!inventoryConfig;
+    const manifestKey = JSON.stringify(inventoryConfig?.manifest ?? []);
+    const allowSameOriginScripts = inventoryConfig?.allowSameOrigin ?? true;
+    const scanIntervalMs = (inventoryConfig?.scanIntervalSeconds ?? 30) * 1000;
+    const inventoryReportMs = (inventoryConfig?.reportIntervalMinutes ?? 60) * 60000;
+
+    const scriptInventory = useMemo(() => {
+        if (!inventoryEnabled) return null;
+        return new ScriptInventory({
+            manifest: JSON.parse(manifestKey),
+            allowSameOrigin: allowSameOriginScripts,
+            onUnauthorized: (entry) => {
+                reportRef.current('UNAUTHORIZED_SCRIPT', { ...entry });
+            },
+            debug: config.debug
+        });
+    }, [inventoryEnabled, manifestKey, allowSameOriginScripts, config.debug]);
+
+    const [scriptReport, setScriptReport] = useState<ScriptInventoryReport | null>(null);
+
+    const scanScripts = useCallback(() => {
+        if (!scriptInventory) return null;
+        scriptInventory.scan();
+        const report = scriptInventory.getReport();
+        setScriptReport(report);
+        return report;
+    }, [scriptInventory]);
+
+    useEffect(() => {
+        if (!scriptInventory) {
+            setScriptReport(null);
+            return;
+        }
+        scriptInventory.scan();
+        setScriptReport(scriptInventory.getReport());
+        let lastReport = Date.now() - inventoryReportMs;
+        const timer = setInterval(() => {
+            if (scriptInventory.scan()) setScriptReport(scriptInventory.getReport());
+            // The first report waits one scan interval so scripts added after load are included
+            if (Date.now() - lastReport < inventoryReportMs) return;
+            lastReport = Date.now();
+            reportRef.current('SCRIPT_INVENTORY', { ...scriptInventory.getReport() });
+        }, scanIntervalMs);
+        return () => clearInterval(timer);
+    }, [scriptInventory, scanIntervalMs, inventoryReportMs]);
+
+    const setLocked = (locked: boolean) => {
+        dispatch({ reason: locked ? 'locked' : 'unlocked', patch: { isLocked: locked } });
+        sync?.post({ kind: locked ? 'lock' : 'unlock' });
+    };
+
+    lockForPolicyRef.current = () => {
+        if (securityState.isLocked) return;
+        reportIncident('SESSION_LOCKED', { reason: 'idle', scopes: idlePolicyRef.current.scopes });
+        setLocked(true);
+    };
+
+    const { idleTimeoutMinutes: policyTimeout, warningSeconds: policyWarning, lockOnIdle: policyLock } = idlePolicy;
+    const previousPolicyRef = useRef(idlePolicy);
+    useEffect(() => {
+        const previous = previousPolicyRef.current;
+        previousPolicyRef.current = idlePolicy;
+        if (previous === idlePolicy) return;
+        reportRef.current('IDLE_POLICY_CHANGED', {
+            ...idlePolicy,
+            previous: {
+                idleTimeoutMinutes: previous.idleTimeoutMinutes,
+                warningSeconds: previous.warningSeconds,
+                lockOnIdle: previous.lockOnIdle
+            }
+        });
+        if (config.debug) console.log('🛡️ [NIS2 Guard] Idle policy changed:', idlePolicy);
+    }, [policyTimeout, policyWarning, policyLock]);
+
+    const markCompromised = useCallback((reason: string) => {
+        dispatch({ reason: 'compromised', patch: { isCompromised: true }, detail: reason });
+        sync?.post({ kind: 'compromised', reason });
+        reportRef.current('SESSION_COMPROMISED', { reason });
+        if (config.debug) console.log(`🛡️ [NIS2 Guard] Session marked as compromised: ${reason}`);
+    }, [sync, config.debug]);
+
+    const onStateChangeRef = useRef(config.onStateChange);
+    onStateChangeRef.current = config.onStateChange;
+
+    const lastTransition = session.history[session.history.length - 1];
+    useEffect(() => {
+        if (lastTransition) onStateChangeRef.current?.(lastTransition);
+    }, [lastTransition]);
+
+    const reauthConfigRef = useRef(config.reauth);
+    reauthConfigRef.current = config.reauth;
+
+    const reauthEnabled = !!config.reauth;
+    const reauthAfterIdle = reauthEnabled && config.reauth?.afterIdle !== false;
+    const maxReauthAttempts = config.reauth?.maxAttempts ?? 3;
+    const lockoutMinutes = config.reauth?.lockoutMinutes ?? 5;
+    const reauthGate = useMemo(() => reauthEnabled ? new ReauthGate({
+        reauthenticate: () => reauthConfigRef.current!.reauthenticate(),
+        maxAttempts: maxReauthAttempts,
+        lockoutMs: lockoutMinutes * 60000,
+        onAttempt: ({ outcome, attempt, attemptsRemaining }) => {
+            if (outcome === 'success') {
+                reportRef.current('REAUTH_SUCCEEDED', { attempt });
+            } else {
+                reportRef.current('REAUTH_FAILED', { reason: outcome, attempt, attemptsRemaining });
+            }
+        },
+        onLockout: (lockedOutUntil) => {
+            reportRef.current('REAUTH_LOCKOUT', {
+                failures: maxReauthAttempts,
+                lockoutMinutes,
+                lockedOutUntil: new Date(lockedOutUntil).toISOString()
+            });
+            if (config.debug) console.log('🛡️ [NIS2 Guard] Re-authentication locked out');
+            reauthConfigRef.current?.onLockout?.();
+        }
+    }) : null, [reauthEnabled, maxReauthAttempts, lockoutMinutes, config.debug]);
+
+    const readReauthStatus = (gate: ReauthGate | null, isPending = false): ReauthStatus => {
+        const state = gate?.getState();
+        return {
+            isPending,
+            failures: state?.failures ?? 0,
+            attemptsRemaining: gate?.attemptsRemaining() ?? 0,
+            lockedOutUntil: state?.lockedOutUntil ?? null
+        };
     };
 
+    const [reauthStatus, setReauthStatus] = useState<ReauthStatus>(() => readReauthStatus(reauthGate));
+
+    useEffect(() => {
+        setReauthStatus(readReauthStatus(reauthGate));
+        // A reload must not skip a pending step-up
+        if (reauthGate?.isRequired()) dispatch({ reason: 'reauth_required', patch: { reauthRequired: true } });
+    }, [reauthGate]);
+
+    useEffect(() => {
+        if (!securityState.isIdle) return;
+        if (reauthAfterIdle) {
+            reauthGate?.require();
+            dispatch({ reason: 'reauth_required', patch: { reauthRequired: true } });
+        }
+        const cause = idleCauseRef.current;
+        idleCauseRef.current = null;
+        // Every tab goes idle together; only the leader reports it
+        if (sync && !sync.isLeader()) return;
+        const { idleTimeoutMinutes, scopes } = idlePolicyRef.current;
+        reportRef.current('SESSION_IDLE_TIMEOUT', {
+            timeoutMinutes: idleTimeoutMinutes,
+            ...(scopes.length ? { scopes } : {}),
+            ...cause
+        });
+        if (reauthAfterIdle) reportRef.current('REAUTH_REQUIRED', { reason: 'idle' });
+    }, [securityState.isIdle]);
+
+    useEffect(() => {
+        if (!sync) return;
+        return sync.on(message => {
+            if (message.kind !== 'reauthenticated') return;
+            dispatch({ reason: 'reauthenticated', patch: { reauthRequired: false } });
+            setReauthStatus(readReauthStatus(reauthGate));
+        });
+    }, [sync, reauthGate]);
+
+    riskPolicyRef.current = (policy, actions, assessment) => {
+        const name = policyName(policy);
+        reportIncident(RISK_POLICY_EVENT_TYPE, {
+            policy: name,
+            threshold: policy.threshold,
+            actions,
+            score: assessment.score,
+            level: assessment.level,
+            signals: assessment.signals.map(signal => `${signal.source}:${signal.id}`)
+        }, actions.includes('report_critical') ? { severity: 'CRITICAL' } : undefined);
+
+        if (actions.includes('warn')) riskConfigRef.current?.onWarn?.(assessment);
+        if (actions.includes('reauth') && reauthGate) {
+            reauthGate.require();
+            dispatch({ reason: 'reauth_required', patch: { reauthRequired: true } });
+            reportIncident('REAUTH_REQUIRED', { reason: 'risk', policy: name });
+        }
+        // Without a re-authentication flow, locking is the closest step-up
+        const lock = actions.includes('lock') || (actions.includes('reauth') && !reauthGate);
+        if (lock && !securityState.isLocked) {
+            reportIncident('SESSION_LOCKED', { reason: 'risk', policy: name, score: assessment.score });
+            setLocked(true);
+        }
+    };
+
+    const onSessionExpiredRef = useRef(config.onSessionExpired);
+    onSessionExpiredRef.current = config.onSessionExpired;
+    const onReauthRequiredRef = useRef(config.onReauthRequired);
+    onReauthRequiredRef.current = config.onReauthRequired;
+
+    const { maxSessionMinutes, reauthIntervalMinutes } = config;
+    const lifetime = useMemo(() => {
+        if (!maxSessionMinutes && !reauthIntervalMinutes) return null;
+        const instance: SessionLifetime = new SessionLifetime({
+            maxSessionMs: maxSessionMinutes ? maxSessionMinutes * 60000 : undefined,
+            reauthIntervalMs: reauthIntervalMinutes ? reauthIntervalMinutes * 60000 : undefined,
+            storage: createSecureClockStorage(),
+            onExpired: (clock) => {
+                dispatch({ reason: 'session_expired', patch: { isExpired: true } });
+                // Every tab hits the deadline; only the leader reports it
+                if (!syncRef.current || syncRef.current.isLeader()) {
+                    reportRef.current('SESSION_EXPIRED', {
+                        maxSessionMinutes,
+                        ...(clock.unreadable
+                            ? { reason: 'clock_unreadable' }
+                            : { startedAt: new Date(clock.startedAt).toISOString() })
+                    });
+                }
+                onSessionExpiredRef.current?.();
+            },
+            onReauthRequired: (clock) => {
+                dispatch({ reason: 'reauth_required', patch: { reauthRequired: true } });
+                if (!syncRef.current || syncRef.current.isLeader()) {
+                    reportRef.current('REAUTH_REQUIRED', {
+                        reauthIntervalMinutes,
+                        ...(clock.unreadable
+                            ? { reason: 'clock_unreadable' }
+                            : { reason: 'interval', authenticatedAt: new Date(clock.authenticatedAt).toISOString() })
+                    });
+                }
+                onReauthRequiredRef.current?.();
+            },
+            onClockChange: () => {
+                dispatch({
+                    reason: 'synced',
+                    patch: { isExpired: instance.isExpired(), reauthRequired: instance.isReauthRequired() }
+                });
+            },
+            debug: config.debug
+        });
+        return instance;
+    }, [maxSessionMinutes, reauthIntervalMinutes, config.debug]);
+    lifetimeRef.current = lifetime;
+
+    useEffect(() => {
+        if (!lifetime) return;
+        lifetime.start();
+        return () => {
+            lifetime.stop();
+        };
+    }, [lifetime]);
+
+    const restartSession = useCallback(async () => {
+        dispatch({ reason: 'restarted', patch: { isExpired: false, isCompromised: false, reauthRequired: false } });
+        reauthGate?.reset();
+        setReauthStatus(readReauthStatus(reauthGate));
+        await lifetime?.restart();
+    }, [lifetime, reauthGate]);
+
+    const confirmReauth = useCallback(async () => {
+        dispatch({ reason: 'reauthenticated', patch: { reauthRequired: false } });
+        reauthGate?.reset();
+        await lifetime?.confirmReauth();
+    }, [lifetime, reauthGate]);
+
+    const reauthenticate = useCallback(async () => {
+        if (!reauthGate) {
+            throw new Error('reauthenticate() requires config.reauth');
+        }
+        setReauthStatus(prev => ({ ...prev, isPending: true }));
+        const ok = await reauthGate.attempt();
+        setReauthStatus(readReauthStatus(reauthGate));
+        if (ok) {
+            sync?.post({ kind: 'reauthenticated' });
+            await confirmReauth();
+        }
+        return ok;
+    }, [reauthGate, sync, confirmReauth]);
+
+    const logoutAllTabs = (reason?: string) => {
+        reportIncident('SESSION_LOGOUT', { scope: 'all_tabs', ...(reason ? { reason } : {}) });
+        sync?.post({ kind: 'logout', reason });
+        lifetime?.clear();
+        reauthGate?.reset();
+        onLogoutRef.current?.(reason);
+    };
+
+    const getIdleDeadline = useCallback(() => countdown.getDeadline(), [countdown]);
+
+    const staySignedIn = useCallback(() => {
+        const now = Date.now();
+        countdown.extend(now);
+        sync?.post({ kind: 'activity', at: now });
+    }, [countdown, sync]);
+
+    const flushTelemetry = () => queue.flush();
+
     const value = {
         config: {
             ...config,
@@ -142,8 +1300,28 @@ export const Nis2Provider: React.FC<Nis2ProviderProps> = ({ children, config })
         },
         securityState,
         setIdle,
+        setLocked,
+        markCompromised,
+        sessionHistory: session.history,
+        idlePolicy,
+        registerIdlePolicy,
+        getCspAnalysis,
+        scriptInventory: scriptReport,
+        scanScripts,
+        riskAssessment,
+        setRiskSignal,
+        clearRiskSignal,
+        logoutAllTabs,
+        getIdleDeadline,
+        staySignedIn,
+        restartSession,
+        confirmReauth,
+        reauthenticate,
+        reauthStatus,
         reportIncident,
-        cryptoService
+        cryptoService,
+        telemetryStatus,
+        flushTelemetry
     };
 
     return (
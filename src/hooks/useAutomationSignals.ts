@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    AutomationAssessment,
+    InteractionTracker,
+    assessAutomation,
+    collectEnvironmentSignals
+} from '../utils/automationSignals';
+
+export interface AutomationSignalsState {
+    /** Attach to the element to watch, typically the login form: `<form ref={track}>`. */
+    track: (element: HTMLElement | null) => void;
+    /** Score (0-100) from the last `assess()`, environment signals only until then (0 before mount). */
+    score: number;
+    /** Latest assessment, with an explanation per signal. */
+    assessment: AutomationAssessment;
+    /** Scores the environment and the interactions recorded so far, and updates `score`. */
+    assess: () => AutomationAssessment;
+    /** Returns `payload` with a fresh assessment under `automation`, for login or fingerprint events. */
+    withSignals: <T extends Record<string, any>>(payload: T) => T & { automation: AutomationAssessment };
+    /** Forgets recorded interactions, e.g. after a failed attempt. */
+    reset: () => void;
+}
+
+/**
+ * Passive automation (bot) indicators for credential-stuffing defence, computed in the browser
+ * with no third-party service: `navigator.webdriver`, headless user agents, empty plugins or languages,
+ * script-dispatched events, machine-regular typing and straight-line pointer movement on a tracked element.
+ *
+ * Only timings and movement directions are recorded, never keys or values. The score is one input
+ * for the backend's decision (captcha, throttling, step-up), not a verdict.
+ *
+ * @example
+ * ```tsx
+ * function LoginForm() {
+ *   const { track, withSignals } = useAutomationSignals();
+ *   const { reportIncident } = useNis2Context();
+ *   const { sendToBackend } = useDeviceFingerprint();
+ *
+ *   const onSubmit = (event: React.FormEvent) => {
+ *     event.preventDefault();
+ *     reportIncident('LOGIN_ATTEMPT', withSignals({ username }));
+ *     // or: sendToBackend(withSignals({}))
+ *   };
+ *
+ *   return <form ref={track} onSubmit={onSubmit}>...</form>;
+ * }
+ * ```
+ */
+export const useAutomationSignals = (): AutomationSignalsState => {
+    const trackerRef = useRef<InteractionTracker | null>(null);
+    if (!trackerRef.current) trackerRef.current = new InteractionTracker();
+
+    const evaluate = useCallback(() => {
+        const tracker = trackerRef.current!;
+        return assessAutomation([...collectEnvironmentSignals(), ...tracker.getSignals()], tracker.getCounts());
+    }, []);
+
+    // Browser globals are only read after mount, so the hook renders on the server
+    const [assessment, setAssessment] = useState<AutomationAssessment>(() => assessAutomation([], trackerRef.current!.getCounts()));
+
+    useEffect(() => {
+        setAssessment(evaluate());
+        return () => trackerRef.current?.detach();
+    }, [evaluate]);
+
+    const track = useCallback((element: HTMLElement | null) => {
+        if (element) trackerRef.current!.attach(element);
+        else trackerRef.current!.detach();
+    }, []);
+
+    const assess = useCallback(() => {
+        const next = evaluate();
+        setAssessment(next);
+        return next;
+    }, [evaluate]);
+
+    const withSignals = useCallback(<T extends Record<string, any>>(payload: T) => ({ ...payload, automation: assess() }), [assess]);
+
+    const reset = useCallback(() => {
+        trackerRef.current!.reset();
+        setAssessment(evaluate());
+    }, [evaluate]);
+
+    return { track, score: assessment.score, assessment, assess, withSignals, reset };
+};
@@ -63,12 +63,14 @@ export function useDeviceFingerprint() {
     /**
      * Sends the fingerprint to the backend as security telemetry.
      * Useful for login events or periodic validation.
+     * `extra` is merged into the payload, e.g. `withSignals({})` from `useAutomationSignals`.
      */
-    const sendToBackend = useCallback(() => {
+    const sendToBackend = useCallback((extra: Record<string, any> = {}) => {
         if (fingerprint) {
             reportIncident('DEVICE_FINGERPRINT', {
                 fingerprint,
                 purpose: 'session_validation',
+                ...extra,
             });
         }
     }, [fingerprint, reportIncident]);
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { useNis2Context } from '../context/Nis2Context';
+
+export interface IdleCountdownState {
+    /** Whole seconds until the session becomes idle. 0 once idle. */
+    secondsRemaining: number;
+    /** True during the warning phase (`Nis2Config.warningSeconds` before the timeout). */
+    isWarning: boolean;
+    isIdle: boolean;
+    /** Extends the session in every tab, as if the user had been active. */
+    staySignedIn: () => void;
+}
+
+const secondsUntil = (deadline: number) => Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+
+/**
+ * Live countdown to the idle timeout, updated every second.
+ * Use it to build your own warning UI, or use `SessionTimeoutDialog`.
+ *
+ * @example
+ * ```tsx
+ * function IdleBadge() {
+ *   const { isWarning, secondsRemaining, staySignedIn } = useIdleCountdown();
+ *   if (!isWarning) return null;
+ *   return <button onClick={staySignedIn}>Signing out in {secondsRemaining}s - stay</button>;
+ * }
+ * ```
+ */
+export const useIdleCountdown = (): IdleCountdownState => {
+    const { securityState, getIdleDeadline, staySignedIn } = useNis2Context();
+    const [secondsRemaining, setSecondsRemaining] = useState(() => secondsUntil(getIdleDeadline()));
+
+    useEffect(() => {
+        const update = () => setSecondsRemaining(secondsUntil(getIdleDeadline()));
+        update();
+        const interval = setInterval(update, 1000);
+        return () => clearInterval(interval);
+    }, [getIdleDeadline, securityState.isWarning, securityState.isIdle]);
+
+    return {
+        secondsRemaining: securityState.isIdle ? 0 : secondsRemaining,
+        isWarning: securityState.isWarning,
+        isIdle: securityState.isIdle,
+        staySignedIn,
+    };
+};
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { useNis2Context } from '../context/Nis2Context';
+
+export interface ReauthState {
+    /** `config.reauth` is set, so `reauthenticate` can be called. */
+    enabled: boolean;
+    /** The session is gated until the user re-authenticates. */
+    required: boolean;
+    /** Runs your `config.reauth.reauthenticate` flow. Resolves true on success. */
+    reauthenticate: () => Promise<boolean>;
+    isPending: boolean;
+    attemptsRemaining: number;
+    isLockedOut: boolean;
+    /** Epoch milliseconds at which attempts are allowed again, or null. */
+    lockedOutUntil: number | null;
+}
+
+/**
+ * Step-up re-authentication state and trigger (requires `Nis2Config.reauth`).
+ * Use it to build your own lock screen, or use `PrivacyLock`, which uses it automatically.
+ *
+ * @example
+ * ```tsx
+ * function ReauthPrompt() {
+ *   const { required, reauthenticate, isPending, attemptsRemaining, isLockedOut } = useReauth();
+ *   if (!required) return null;
+ *   if (isLockedOut) return <p>Too many failed attempts. Try again later.</p>;
+ *   return (
+ *     <button onClick={reauthenticate} disabled={isPending}>
+ *       Confirm it's you ({attemptsRemaining} attempts left)
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export const useReauth = (): ReauthState => {
+    const { config, securityState, reauthenticate, reauthStatus } = useNis2Context();
+    const [now, setNow] = useState(() => Date.now());
+
+    const { lockedOutUntil } = reauthStatus;
+    useEffect(() => {
+        if (lockedOutUntil === null) return;
+        // Re-render when the lockout ends
+        const timer = setTimeout(() => setNow(Date.now()), Math.max(0, lockedOutUntil - Date.now()));
+        return () => clearTimeout(timer);
+    }, [lockedOutUntil]);
+
+    const isLockedOut = lockedOutUntil !== null && lockedOutUntil > now;
+
+    return {
+        enabled: !!config.reauth,
+        required: securityState.reauthRequired,
+        reauthenticate,
+        isPending: reauthStatus.isPending,
+        attemptsRemaining: isLockedOut || lockedOutUntil === null
+            ? reauthStatus.attemptsRemaining
+            : config.reauth?.maxAttempts ?? 3,
+        isLockedOut,
+        lockedOutUntil: isLockedOut ? lockedOutUntil : null,
+    };
+};
@@ -0,0 +1,49 @@
+import { useNis2Context } from '../context/Nis2Context';
+import { RiskAssessment, RiskLevel, RiskSignal, RiskSignalInput } from '../utils/riskEngine';
+
+export interface RiskScoreState {
+    /** 0-100. */
+    score: number;
+    level: RiskLevel;
+    /** Active signals, each with its source, weight and explanation. */
+    signals: RiskSignal[];
+    /** Names of the policies whose threshold the score currently meets. */
+    triggered: string[];
+    assessment: RiskAssessment;
+    /** Adds or replaces a signal; `source` defaults to `app`. */
+    setSignal: (signal: RiskSignalInput, source?: string) => void;
+    clearSignal: (id: string, source?: string) => void;
+}
+
+/**
+ * Session risk score from the provider's risk engine (`Nis2Config.risk`): reported incidents,
+ * pluggable sources and app signals, weighted and summed. Use it to adapt the UI, e.g. hide
+ * sensitive actions at `high`; enforcement belongs in `risk.policies`.
+ *
+ * @example
+ * ```tsx
+ * function TransferButton() {
+ *   const { level, setSignal } = useRiskScore();
+ *   const { compareWith } = useDeviceFingerprint();
+ *
+ *   useEffect(() => {
+ *     riskFromFingerprint(compareWith(saved).similarity).forEach(signal => setSignal(signal, 'fingerprint'));
+ *   }, []);
+ *
+ *   return <button disabled={level === 'high' || level === 'critical'}>Transfer</button>;
+ * }
+ * ```
+ */
+export const useRiskScore = (): RiskScoreState => {
+    const { riskAssessment, setRiskSignal, clearRiskSignal } = useNis2Context();
+
+    return {
+        score: riskAssessment.score,
+        level: riskAssessment.level,
+        signals: riskAssessment.signals,
+        triggered: riskAssessment.triggered,
+        assessment: riskAssessment,
+        setSignal: setRiskSignal,
+        clearSignal: clearRiskSignal,
+    };
+};
@@ -0,0 +1,50 @@
+import { useNis2Context } from '../context/Nis2Context';
+import { ScriptInventoryEntry, ScriptInventoryReport } from '../utils/scriptInventory';
+
+export interface ScriptInventoryState {
+    /** `config.scriptInventory` is set. */
+    enabled: boolean;
+    /** Every script seen so far, oldest first. */
+    scripts: ScriptInventoryEntry[];
+    /** Scripts not authorised by the manifest. */
+    unauthorized: ScriptInventoryEntry[];
+    /** Latest full inventory, or null when disabled. */
+    report: ScriptInventoryReport | null;
+    /** Scans the page now instead of waiting for the next interval. */
+    rescan: () => ScriptInventoryReport | null;
+}
+
+/**
+ * Inventory of the scripts loaded by the page: origin, SRI, authorisation against
+ * `Nis2Config.scriptInventory.manifest`, and first-seen time. Useful for a PCI DSS 6.4.3 evidence page.
+ *
+ * @example
+ * ```tsx
+ * function ScriptReport() {
+ *   const { scripts, unauthorized } = useScriptInventory();
+ *   return (
+ *     <table>
+ *       {scripts.map(script => (
+ *         <tr key={script.url}>
+ *           <td>{script.url}</td>
+ *           <td>{script.hasIntegrity ? 'SRI' : '-'}</td>
+ *           <td>{script.authorized ? 'authorised' : script.reason}</td>
+ *         </tr>
+ *       ))}
+ *     </table>
+ *   );
+ * }
+ * ```
+ */
+export const useScriptInventory = (): ScriptInventoryState => {
+    const { config, scriptInventory, scanScripts } = useNis2Context();
+    const scripts = scriptInventory?.scripts ?? [];
+
+    return {
+        enabled: !!config.scriptInventory,
+        scripts,
+        unauthorized: scripts.filter(entry => !entry.authorized),
+        report: scriptInventory,
+        rescan: scanScripts,
+    };
+};
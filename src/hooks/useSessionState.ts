@@ -0,0 +1,43 @@
+import { useNis2Context } from '../context/Nis2Context';
+import { SessionStatus, SessionTransition, SessionTransitionReason } from '../utils/sessionState';
+
+export interface SessionStateInfo {
+    status: SessionStatus;
+    /** Reason of the last transition, or null while the session has not changed status yet. */
+    reason: SessionTransitionReason | null;
+    /** Epoch milliseconds of the last transition, or null. */
+    since: number | null;
+    /** Status transitions of this tab, oldest first (last 50). */
+    history: SessionTransition[];
+    /** Moves every tab to the terminal `compromised` status and reports `SESSION_COMPROMISED`. */
+    markCompromised: (reason: string) => void;
+}
+
+/**
+ * The session status (`active` → `warning` → `idle` → `locked` → `expired` / `compromised`)
+ * with the reason and history of its transitions.
+ *
+ * @example
+ * ```tsx
+ * function SessionGate({ children }: { children: React.ReactNode }) {
+ *   const { status, markCompromised } = useSessionState();
+ *   useEffect(() => {
+ *     return api.onTokenReuse(() => markCompromised('refresh_token_reuse'));
+ *   }, [markCompromised]);
+ *   if (status === 'compromised') return <p>Your session was ended for your security.</p>;
+ *   return <>{children}</>;
+ * }
+ * ```
+ */
+export const useSessionState = (): SessionStateInfo => {
+    const { securityState, sessionHistory, markCompromised } = useNis2Context();
+    const last = sessionHistory[sessionHistory.length - 1];
+
+    return {
+        status: securityState.status,
+        reason: last?.reason ?? null,
+        since: last?.at ?? null,
+        history: sessionHistory,
+        markCompromised,
+    };
+};
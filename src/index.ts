@@ -5,14 +5,69 @@ export { Nis2Provider, useNis2Context } from './context/Nis2Context';
 export { AuditBoundary } from './components/AuditBoundary';
 export { SessionWatchdog } from './components/SessionWatchdog';
 export { SecurityBanner } from './components/SecurityBanner';
+export { SessionTimeoutDialog } from './components/SessionTimeoutDialog';
+export { PrivacyLock } from './components/PrivacyLock';
+export { IdlePolicyScope } from './components/IdlePolicyScope';
+export { DomIntegrityMonitor } from './components/DomIntegrityMonitor';
+export { FrameGuard } from './components/FrameGuard';
+export { TabnabbingGuard } from './components/TabnabbingGuard';
 
 // Hooks
 export { useSecureStorage } from './hooks/useSecureStorage';
 export { useSecureInput } from './hooks/useSecureInput';
 export { useNis2Log } from './hooks/useNis2Log';
 export { useDeviceFingerprint } from './hooks/useDeviceFingerprint';
+export { useIdleCountdown } from './hooks/useIdleCountdown';
+export { useReauth } from './hooks/useReauth';
+export { useSessionState } from './hooks/useSessionState';
+export { useScriptInventory } from './hooks/useScriptInventory';
+export { useAutomationSignals } from './hooks/useAutomationSignals';
+export { useRiskScore } from './hooks/useRiskScore';
+
+// Transports
+export { createFetchTransport, createBeaconTransport, createConsoleTransport } from './utils/transport';
+
+// Event Envelope & SIEM Formats
+export { EVENT_SCHEMA_VERSION } from './utils/eventEnvelope';
+export { toEcs, toCef, toOcsf } from './utils/siemFormats';
+export { verifyAuditChain, canonicalJson } from './utils/auditChain';
+export { redactValue } from './utils/redaction';
+export { normalizeCspViolation } from './utils/cspMonitor';
+export { detectFraming } from './utils/frameGuard';
+export { sanitizeLink } from './utils/tabnabbing';
+export { DEFAULT_RISK_WEIGHTS, riskFromFingerprint, riskFromAutomation } from './utils/riskEngine';
 
 // Types
-export type { Nis2Config, Nis2SecurityState } from './context/Nis2Context';
+export type { Nis2Config, Nis2SecurityState, ReportIncidentOptions, ReauthStatus } from './context/Nis2Context';
 export type { DeviceFingerprint } from './hooks/useDeviceFingerprint';
 export type { SecurityBannerConfig } from './components/SecurityBanner';
+export type { SessionTimeoutDialogProps } from './components/SessionTimeoutDialog';
+export type { PrivacyLockProps, PrivacyLockUnlock } from './components/PrivacyLock';
+export type { IdlePolicyScopeProps } from './components/IdlePolicyScope';
+export type { DomIntegrityMonitorProps } from './components/DomIntegrityMonitor';
+export type { FrameGuardProps } from './components/FrameGuard';
+export type { TabnabbingGuardProps } from './components/TabnabbingGuard';
+export type { IdleCountdownState } from './hooks/useIdleCountdown';
+export type { ReauthState } from './hooks/useReauth';
+export type { SessionStateInfo } from './hooks/useSessionState';
+export type { ScriptInventoryState } from './hooks/useScriptInventory';
+export type { AutomationSignalsState } from './hooks/useAutomationSignals';
+export type { RiskScoreState } from './hooks/useRiskScore';
+export type { SessionStatus, SessionTransition, SessionTransitionReason } from './utils/sessionState';
+export type { IdlePolicy, EffectiveIdlePolicy } from './utils/idlePolicy';
+export type { CspViolation, CspAnalysis, CspSuggestion } from './utils/cspMonitor';
+export type { CrashReport, CrashOrigin } from './utils/errorCollector';
+export type { DomTamperingFinding, DomTamperingKind } from './utils/domIntegrity';
+export type { FramingInfo, FramingOptions } from './utils/frameGuard';
+export type { AutomationAssessment, AutomationSignal, AutomationSignalId } from './utils/automationSignals';
+export type { TabnabbingFinding, TabnabbingFindingKind } from './utils/tabnabbing';
+export type { RiskAction, RiskAssessment, RiskLevel, RiskPolicy, RiskSignal, RiskSignalInput, RiskSignalSource } from './utils/riskEngine';
+export type { NetworkFinding, NetworkFindingKind } from './utils/networkSentinel';
+export type { ScriptInventoryEntry, ScriptInventoryReport, ScriptManifestEntry, UnauthorizedScriptReason } from './utils/scriptInventory';
+export type { TelemetryQueueStatus } from './utils/telemetryQueue';
+export type { TelemetryEvent, Nis2Severity } from './utils/eventEnvelope';
+export type { SiemFormat } from './utils/siemFormats';
+export type { EventIntegrity, AuditChainReport, AuditChainIssue, SessionSecretProvider } from './utils/auditChain';
+export type { RedactionConfig, RedactionRule, RedactionRecord, RedactionDetector } from './utils/redaction';
+export type { RateLimitConfig, TokenBucketLimit, SuppressionSummary } from './utils/rateLimiter';
+export type { Nis2Transport, FetchTransportOptions, BeaconTransportOptions } from './utils/transport';
@@ -0,0 +1,268 @@
+import { TelemetryEvent } from './eventEnvelope';
+
+/**
+ * Tamper-evidence block attached to every event when `Nis2Config.integrity` is set.
+ *
+ * - `hash` = SHA-256(`prevHash` + canonical JSON of the event without `integrity`)
+ * - `hmac` = HMAC-SHA256(`hash`) with a key derived (HKDF-SHA256, salt = sessionId)
+ *   from the session secret provided by the backend
+ *
+ * Canonical JSON is `JSON.stringify` with object keys sorted recursively, computed on the event
+ * as it is sent, e.g. a `Date` as its ISO string
+ * (Python: `json.dumps(obj, sort_keys=True, separators=(',', ':'), ensure_ascii=False)`).
+ */
+export interface EventIntegrity {
+    alg: 'HMAC-SHA256';
+    prevHash: string;
+    hash: string;
+    /** Null when the session secret could not be obtained; the hash chain is still intact. */
+    hmac: string | null;
+}
+
+export type SessionSecretProvider = string | (() => string | Promise<string>);
+
+export interface AuditChainOptions {
+    sessionId: string;
+    sessionSecret: SessionSecretProvider;
+    debug?: boolean;
+}
+
+export type AuditChainIssueKind =
+    | 'reordered'
+    | 'missing'
+    | 'modified'
+    | 'broken_link'
+    | 'invalid_signature'
+    | 'unsigned';
+
+export interface AuditChainIssue {
+    kind: AuditChainIssueKind;
+    sessionId: string;
+    sequence: number;
+    eventId?: string;
+    detail: string;
+}
+
+export interface AuditChainReport {
+    valid: boolean;
+    issues: AuditChainIssue[];
+}
+
+/** prevHash of the first event of a session. */
+export const GENESIS_HASH = '0'.repeat(64);
+
+const KDF_INFO = 'nis2shield-audit-chain-v1';
+const CHAIN_HEAD_KEY = 'nis2_chain_head';
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+
+const sortedJson = (value: unknown): string => {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(sortedJson).join(',')}]`;
+    }
+    const entries = Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${sortedJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+};
+
+/**
+ * Deterministic JSON: object keys sorted at every level. Normalised through `JSON.stringify` first,
+ * so it hashes what the backend receives: `toJSON()` applied, `undefined` and functions dropped.
+ */
+export const canonicalJson = (value: unknown): string =>
+    sortedJson(JSON.parse(JSON.stringify(value) ?? 'null'));
+
+const hashEvent = async (event: TelemetryEvent, prevHash: string) => {
+    const { integrity: _ignored, ...content } = event;
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(prevHash + canonicalJson(content)));
+    return toHex(digest);
+};
+
+/**
+ * Derives the per-session HMAC key from the backend-provided secret.
+ */
+export const deriveChainKey = async (sessionSecret: string, sessionId: string): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(sessionSecret), 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(sessionId), info: encoder.encode(KDF_INFO) },
+        material,
+        { name: 'HMAC', hash: 'SHA-256', length: 256 },
+        false,
+        ['sign', 'verify']
+    );
+};
+
+const sign = async (key: CryptoKey, hash: string) =>
+    toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(hash)));
+
+const resolveSecret = async (secret: SessionSecretProvider) =>
+    typeof secret === 'function' ? secret() : secret;
+
+/**
+ * Links events into a per-session hash chain and signs each link.
+ * Events are sealed strictly in the order `seal` is called; the chain head is kept in
+ * sessionStorage so the chain continues across reloads of the tab.
+ */
+export class AuditChain {
+    private head: string;
+    private tail: Promise<unknown> = Promise.resolve();
+    private key: Promise<CryptoKey | null> | null = null;
+
+    constructor(private options: AuditChainOptions) {
+        this.head = this.readHead() ?? GENESIS_HASH;
+    }
+
+    seal(event: TelemetryEvent): Promise<TelemetryEvent> {
+        const sealed = this.tail.then(async () => {
+            const prevHash = this.head;
+            const hash = await hashEvent(event, prevHash);
+            const key = await this.getKey();
+            const hmac = key ? await sign(key, hash) : null;
+
+            this.head = hash;
+            this.writeHead();
+
+            return { ...event, integrity: { alg: 'HMAC-SHA256', prevHash, hash, hmac } } as TelemetryEvent;
+        });
+        this.tail = sealed.catch(() => undefined);
+        return sealed;
+    }
+
+    private getKey() {
+        if (!this.key) {
+            this.key = resolveSecret(this.options.sessionSecret)
+                .then(secret => deriveChainKey(secret, this.options.sessionId))
+                .catch(error => {
+                    if (this.options.debug) {
+                        console.warn('🛡️ [NIS2 Guard] Session secret unavailable, events are chained but unsigned', error);
+                    }
+                    // Retry on the next event
+                    this.key = null;
+                    return null;
+                });
+        }
+        return this.key;
+    }
+
+    private readHead(): string | null {
+        try {
+            const stored = JSON.parse(window.sessionStorage.getItem(CHAIN_HEAD_KEY) ?? 'null');
+            return stored?.sessionId === this.options.sessionId ? stored.hash : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private writeHead() {
+        try {
+            window.sessionStorage.setItem(
+                CHAIN_HEAD_KEY,
+                JSON.stringify({ sessionId: this.options.sessionId, hash: this.head })
+            );
+        } catch {
+            // Storage disabled: the chain restarts from genesis after a reload
+        }
+    }
+}
+
+/**
+ * Verifies received events against their hash chain and signatures.
+ * Detects reordering (out-of-sequence arrival), deletion (sequence gaps, including
+ * a session that does not start at sequence 1), modification (hash mismatch),
+ * broken links and forged or missing signatures.
+ *
+ * Pass every event of a session, in the order they were received; duplicates (same `id`) are ignored.
+ * Without `sessionSecret`, only the hash chain is checked.
+ *
+ * @example
+ * ```ts
+ * const report = await verifyAuditChain(receivedEvents, { sessionSecret });
+ * if (!report.valid) console.table(report.issues);
+ * ```
+ */
+export const verifyAuditChain = async (
+    events: TelemetryEvent[],
+    options: { sessionSecret?: string } = {}
+): Promise<AuditChainReport> => {
+    const issues: AuditChainIssue[] = [];
+    const sessions = new Map<string, TelemetryEvent[]>();
+    const seen = new Set<string>();
+    events.forEach(event => {
+        // Delivery is at-least-once: replayed copies of the same event are not a gap or a fork
+        if (seen.has(event.id)) return;
+        seen.add(event.id);
+        sessions.set(event.sessionId, [...(sessions.get(event.sessionId) ?? []), event]);
+    });
+
+    for (const [sessionId, received] of sessions) {
+        const issue = (kind: AuditChainIssueKind, event: TelemetryEvent, detail: string) =>
+            issues.push({ kind, sessionId, sequence: event.sequence, eventId: event.id, detail });
+
+        received.forEach((event, index) => {
+            if (index > 0 && event.sequence < received[index - 1].sequence) {
+                issue('reordered', event, `received after sequence ${received[index - 1].sequence}`);
+            }
+        });
+
+        const key = options.sessionSecret ? await deriveChainKey(options.sessionSecret, sessionId) : null;
+        const ordered = [...received].sort((a, b) => a.sequence - b.sequence);
+        let previous: TelemetryEvent | null = null;
+
+        // Deleting the head of a session leaves no gap between the remaining events
+        if (ordered[0].sequence > 1) {
+            issues.push({
+                kind: 'missing',
+                sessionId,
+                sequence: 1,
+                detail: `sequence 1..${ordered[0].sequence - 1} not received`,
+            });
+        }
+
+        for (const event of ordered) {
+            const integrity = event.integrity;
+            if (!integrity) {
+                issue('unsigned', event, 'event has no integrity block');
+                previous = null;
+                continue;
+            }
+
+            if (previous && event.sequence > previous.sequence + 1) {
+                issues.push({
+                    kind: 'missing',
+                    sessionId,
+                    sequence: previous.sequence + 1,
+                    detail: `sequence ${previous.sequence + 1}..${event.sequence - 1} not received`,
+                });
+            } else if (previous?.integrity && integrity.prevHash !== previous.integrity.hash) {
+                issue('broken_link', event, `prevHash does not match event ${previous.sequence}`);
+            } else if (!previous && event.sequence === 1 && integrity.prevHash !== GENESIS_HASH) {
+                issue('broken_link', event, 'first event of the session does not start from genesis');
+            }
+
+            if (await hashEvent(event, integrity.prevHash) !== integrity.hash) {
+                issue('modified', event, 'content does not match its hash');
+            }
+
+            if (key) {
+                if (!integrity.hmac) {
+                    issue('invalid_signature', event, 'event is not signed');
+                } else if (await sign(key, integrity.hash) !== integrity.hmac) {
+                    issue('invalid_signature', event, 'HMAC does not match');
+                }
+            }
+
+            previous = event;
+        }
+    }
+
+    return { valid: issues.length === 0, issues };
+};
@@ -0,0 +1,218 @@
+export type AutomationSignalId =
+    | 'webdriver'
+    | 'headless_user_agent'
+    | 'no_languages'
+    | 'no_plugins'
+    | 'zero_window_size'
+    | 'synthetic_events'
+    | 'uniform_typing'
+    | 'inhuman_typing_speed'
+    | 'click_without_pointer_movement'
+    | 'linear_pointer_movement';
+
+export interface AutomationSignal {
+    id: AutomationSignalId;
+    /** Points added to the score. */
+    weight: number;
+    /** Why the signal fired, in plain words. */
+    explanation: string;
+}
+
+export interface AutomationAssessment {
+    /** 0 (no indicator) to 100 (almost certainly automated). A heuristic, not proof. */
+    score: number;
+    signals: AutomationSignal[];
+    /** Interactions observed on the tracked element. */
+    interactions: { keystrokes: number; pointerMoves: number; clicks: number };
+}
+
+/** Keystrokes needed before typing rhythm is judged. */
+const MIN_KEYSTROKES = 6;
+/** Pointer segments needed before movement entropy is judged. */
+const MIN_POINTER_MOVES = 10;
+const DIRECTION_BINS = 8;
+/** Most recent keystrokes and pointer positions kept; a long-lived form must not grow without bound. */
+const MAX_SAMPLES = 500;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+    const average = mean(values);
+    return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/** Shannon entropy of movement directions over 8 bins, normalised to 0-1. */
+export const directionEntropy = (points: { x: number; y: number }[]): number => {
+    const bins = new Array<number>(DIRECTION_BINS).fill(0);
+    let segments = 0;
+    for (let i = 1; i < points.length; i++) {
+        const dx = points[i].x - points[i - 1].x;
+        const dy = points[i].y - points[i - 1].y;
+        if (dx === 0 && dy === 0) continue;
+        const angle = Math.atan2(dy, dx) + Math.PI;
+        bins[Math.min(DIRECTION_BINS - 1, Math.floor(angle / (2 * Math.PI / DIRECTION_BINS)))]++;
+        segments++;
+    }
+    if (segments === 0) return 0;
+    const entropy = bins
+        .filter(count => count > 0)
+        .reduce((sum, count) => sum - (count / segments) * Math.log2(count / segments), 0);
+    return entropy / Math.log2(DIRECTION_BINS);
+};
+
+/**
+ * Indicators from the browser environment: WebDriver flag, headless user agents,
+ * and properties that automation frameworks leave empty. None outside a browser (server rendering).
+ */
+export const collectEnvironmentSignals = (
+    nav: Navigator | undefined = typeof navigator !== 'undefined' ? navigator : undefined,
+    win: Window | undefined = typeof window !== 'undefined' ? window : undefined
+): AutomationSignal[] => {
+    if (!nav || !win) return [];
+    const signals: AutomationSignal[] = [];
+    const ua = nav.userAgent;
+    const mobile = /Mobi|Android|iPhone|iPad/i.test(ua);
+
+    if (nav.webdriver) {
+        signals.push({ id: 'webdriver', weight: 60, explanation: 'navigator.webdriver is true (browser under WebDriver or CDP control)' });
+    }
+    const headless = ua.match(/HeadlessChrome|PhantomJS|Puppeteer|Playwright|SlimerJS|Nightmare/i);
+    if (headless) {
+        signals.push({ id: 'headless_user_agent', weight: 50, explanation: `User agent contains "${headless[0]}"` });
+    }
+    if (!nav.languages || nav.languages.length === 0) {
+        signals.push({ id: 'no_languages', weight: 15, explanation: 'navigator.languages is empty' });
+    }
+    if (!mobile && (!nav.plugins || nav.plugins.length === 0) && /Chrome|Firefox/.test(ua)) {
+        signals.push({ id: 'no_plugins', weight: 10, explanation: 'Desktop browser reports no plugins (real ones list the built-in PDF viewer)' });
+    }
+    if (win.outerWidth === 0 && win.outerHeight === 0) {
+        signals.push({ id: 'zero_window_size', weight: 20, explanation: 'Window has no outer size (no visible browser window)' });
+    }
+    return signals;
+};
+
+/**
+ * Records input timing and pointer movement on one element: no keys or values, only
+ * intervals, directions and whether events were dispatched by a script.
+ */
+export class InteractionTracker {
+    private element: HTMLElement | null = null;
+    private keyTimes: number[] = [];
+    private points: { x: number; y: number }[] = [];
+    private clicks = 0;
+    private clicksWithoutMovement = 0;
+    private untrustedEvents = 0;
+    private movedSinceClick = false;
+
+    attach(element: HTMLElement) {
+        this.detach();
+        this.element = element;
+        element.addEventListener('keydown', this.onKeyDown, true);
+        element.addEventListener('pointermove', this.onPointerMove, true);
+        element.addEventListener('pointerdown', this.onPointerDown, true);
+        element.addEventListener('input', this.onInput, true);
+    }
+
+    detach() {
+        if (!this.element) return;
+        this.element.removeEventListener('keydown', this.onKeyDown, true);
+        this.element.removeEventListener('pointermove', this.onPointerMove, true);
+        this.element.removeEventListener('pointerdown', this.onPointerDown, true);
+        this.element.removeEventListener('input', this.onInput, true);
+        this.element = null;
+    }
+
+    reset() {
+        this.keyTimes = [];
+        this.points = [];
+        this.clicks = this.clicksWithoutMovement = this.untrustedEvents = 0;
+        this.movedSinceClick = false;
+    }
+
+    getSignals(): AutomationSignal[] {
+        const signals: AutomationSignal[] = [];
+
+        if (this.untrustedEvents > 0) {
+            signals.push({ id: 'synthetic_events', weight: 40, explanation: `${this.untrustedEvents} events were dispatched by a script` });
+        }
+
+        if (this.keyTimes.length >= MIN_KEYSTROKES) {
+            const intervals = this.keyTimes.slice(1).map((time, i) => time - this.keyTimes[i]);
+            const spread = standardDeviation(intervals);
+            const typical = median(intervals);
+            if (typical < 25) {
+                signals.push({ id: 'inhuman_typing_speed', weight: 30, explanation: `Median interval between keystrokes is ${Math.round(typical)}ms` });
+            }
+            if (spread < 10) {
+                signals.push({ id: 'uniform_typing', weight: 25, explanation: `Keystroke intervals vary by only ${spread.toFixed(1)}ms` });
+            }
+        }
+
+        if (this.clicksWithoutMovement > 0) {
+            signals.push({
+                id: 'click_without_pointer_movement',
+                weight: 20,
+                explanation: `${this.clicksWithoutMovement} of ${this.clicks} mouse clicks had no pointer movement before them`,
+            });
+        }
+
+        if (this.points.length >= MIN_POINTER_MOVES) {
+            const entropy = directionEntropy(this.points);
+            if (entropy < 0.3) {
+                signals.push({ id: 'linear_pointer_movement', weight: 20, explanation: `Pointer moved in near-straight lines (direction entropy ${entropy.toFixed(2)})` });
+            }
+        }
+
+        return signals;
+    }
+
+    getCounts() {
+        return { keystrokes: this.keyTimes.length, pointerMoves: this.points.length, clicks: this.clicks };
+    }
+
+    private trackTrust(event: Event) {
+        if (!event.isTrusted) this.untrustedEvents++;
+    }
+
+    private onKeyDown = (event: KeyboardEvent) => {
+        this.trackTrust(event);
+        // Modifiers and held keys say nothing about rhythm
+        if (event.repeat || ['Shift', 'Control', 'Alt', 'Meta'].includes(event.key)) return;
+        this.keyTimes.push(event.timeStamp);
+        if (this.keyTimes.length > MAX_SAMPLES) this.keyTimes.shift();
+    };
+
+    private onPointerMove = (event: PointerEvent) => {
+        this.trackTrust(event);
+        this.points.push({ x: event.clientX, y: event.clientY });
+        if (this.points.length > MAX_SAMPLES) this.points.shift();
+        this.movedSinceClick = true;
+    };
+
+    private onPointerDown = (event: PointerEvent) => {
+        this.trackTrust(event);
+        // Touch and pen taps have no hover movement
+        if (event.pointerType && event.pointerType !== 'mouse') return;
+        this.clicks++;
+        if (!this.movedSinceClick) this.clicksWithoutMovement++;
+        this.movedSinceClick = false;
+    };
+
+    private onInput = (event: Event) => {
+        this.trackTrust(event);
+    };
+}
+
+/** Combines signals into a 0-100 score. */
+export const assessAutomation = (signals: AutomationSignal[], interactions: AutomationAssessment['interactions']): AutomationAssessment => ({
+    score: Math.min(100, signals.reduce((sum, signal) => sum + signal.weight, 0)),
+    signals,
+    interactions,
+});
@@ -0,0 +1,100 @@
+export interface ClockWatchOptions {
+    /**
+     * The page stopped running for `gapMs` (system sleep, frozen or heavily throttled tab)
+     * and has just resumed. The whole gap counts as inactivity.
+     */
+    onResume: (gapMs: number) => void;
+    /**
+     * The wall clock was set back by `-skewMs` milliseconds.
+     * Forward jumps cannot be told apart from sleep and are reported through `onResume`.
+     */
+    onClockSkew: (skewMs: number) => void;
+    /** @default 1000 */
+    intervalMs?: number;
+    /**
+     * How late a heartbeat may be before it counts as a suspension.
+     * @default 5000
+     */
+    toleranceMs?: number;
+    /**
+     * Tolerance while the tab is hidden, or was at the previous heartbeat. Browsers run hidden
+     * tabs' timers about once a minute, which must not count as a suspension.
+     * @default 90000
+     */
+    hiddenToleranceMs?: number;
+    debug?: boolean;
+}
+
+/** Window events after which the page may have been suspended (back/forward cache, window switch). */
+const RESUME_EVENTS = ['pageshow', 'focus'];
+
+/**
+ * Detects system sleep, frozen tabs and wall-clock changes by comparing a heartbeat
+ * against `Date.now()` and the monotonic `performance.now()`.
+ *
+ * Timers do not run while the page is suspended, so without this an overdue idle timeout
+ * would only be noticed after the first input that follows the resume.
+ */
+export class ClockWatch {
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private lastWall = 0;
+    private lastMono = 0;
+    private intervalMs: number;
+    private toleranceMs: number;
+    private hiddenToleranceMs: number;
+    private wasHidden = false;
+
+    constructor(private options: ClockWatchOptions) {
+        this.intervalMs = options.intervalMs ?? 1000;
+        this.toleranceMs = options.toleranceMs ?? 5000;
+        this.hiddenToleranceMs = Math.max(this.toleranceMs, options.hiddenToleranceMs ?? 90000);
+    }
+
+    start() {
+        if (this.timer) return;
+        this.lastWall = Date.now();
+        this.lastMono = performance.now();
+        this.wasHidden = document.hidden;
+        this.timer = setInterval(this.tick, this.intervalMs);
+        RESUME_EVENTS.forEach(type => window.addEventListener(type, this.tick));
+        // Page Lifecycle API: fired on the document when a frozen tab is resumed
+        document.addEventListener('resume', this.tick);
+        document.addEventListener('visibilitychange', this.tick);
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        RESUME_EVENTS.forEach(type => window.removeEventListener(type, this.tick));
+        document.removeEventListener('resume', this.tick);
+        document.removeEventListener('visibilitychange', this.tick);
+    }
+
+    /** Compares both clocks with the previous heartbeat. Also runs on resume, pageshow, focus and visibilitychange. */
+    tick = () => {
+        const wall = Date.now();
+        const mono = performance.now();
+        const wallDelta = wall - this.lastWall;
+        const monoDelta = mono - this.lastMono;
+        this.lastWall = wall;
+        this.lastMono = mono;
+        // Throttled heartbeats of a hidden tab arrive late; the tick on becoming visible still follows one
+        const tolerance = this.wasHidden || document.hidden ? this.hiddenToleranceMs : this.toleranceMs;
+        this.wasHidden = document.hidden;
+
+        if (wallDelta < -this.toleranceMs) {
+            const skewMs = wallDelta - monoDelta;
+            if (this.options.debug) {
+                console.log(`🛡️ [NIS2 Guard] Wall clock set back by ${Math.round(-skewMs / 1000)}s`);
+            }
+            this.options.onClockSkew(skewMs);
+        } else if (wallDelta > this.intervalMs + tolerance) {
+            if (this.options.debug) {
+                console.log(`🛡️ [NIS2 Guard] Page resumed after ${Math.round(wallDelta / 1000)}s`);
+            }
+            this.options.onResume(wallDelta);
+        }
+    };
+}
@@ -0,0 +1,190 @@
+/**
+ * A `securitypolicyviolation` event, normalised for the audit trail.
+ */
+export interface CspViolation {
+    /** Directive that blocked the resource, e.g. `script-src-elem`. */
+    directive: string;
+    /**
+     * What was blocked: an origin plus path (query and fragment removed),
+     * or a keyword: `inline`, `eval`, `wasm-eval`, `data`, `blob`, `trusted-types-policy`...
+     */
+    blockedUri: string;
+    /** Script or document that caused the violation (query and fragment removed). */
+    sourceFile?: string;
+    line?: number;
+    column?: number;
+    /** First characters of the blocked inline script or style, when the policy sets `'report-sample'`. */
+    sample?: string;
+    /** `report` for `Content-Security-Policy-Report-Only` policies. */
+    disposition: 'enforce' | 'report';
+}
+
+/** Keywords browsers put in `blockedURI` instead of a URL. */
+const BLOCKED_KEYWORDS = ['inline', 'eval', 'wasm-eval', 'data', 'blob', 'self', 'trusted-types-policy', 'trusted-types-sink'];
+
+/** Drops the query and fragment, which may carry tokens and make every violation unique. */
+const stripUrl = (value: string): string => {
+    if (!value || BLOCKED_KEYWORDS.includes(value)) return value;
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? `${url.origin}${url.pathname}` : `${url.protocol}`;
+    } catch {
+        return value.split(/[?#]/)[0];
+    }
+};
+
+export const normalizeCspViolation = (event: SecurityPolicyViolationEvent): CspViolation => {
+    const violation: CspViolation = {
+        directive: event.effectiveDirective || event.violatedDirective,
+        blockedUri: stripUrl(event.blockedURI),
+        disposition: event.disposition === 'report' ? 'report' : 'enforce',
+    };
+    if (event.sourceFile) violation.sourceFile = stripUrl(event.sourceFile);
+    if (event.lineNumber) violation.line = event.lineNumber;
+    if (event.columnNumber) violation.column = event.columnNumber;
+    if (event.sample) violation.sample = event.sample;
+    return violation;
+};
+
+export interface CspMonitorOptions {
+    /** Called once per distinct violation. */
+    onViolation: (violation: CspViolation) => void;
+    /** Also receives repeated violations, e.g. a `CspAnalyzer`. */
+    onEveryViolation?: (violation: CspViolation) => void;
+    /**
+     * Distinct violations reported per page load; later ones are only counted.
+     * @default 50
+     */
+    maxReports?: number;
+    debug?: boolean;
+}
+
+/**
+ * Listens for `securitypolicyviolation` events and reports each distinct violation once per page load.
+ * The same inline handler or blocked script typically fires on every render; repeats are counted, not sent.
+ */
+export class CspMonitor {
+    private seen = new Map<string, number>();
+    private reported = 0;
+    private dropped = 0;
+    private maxReports: number;
+
+    constructor(private options: CspMonitorOptions) {
+        this.maxReports = options.maxReports ?? 50;
+    }
+
+    start() {
+        document.addEventListener('securitypolicyviolation', this.handle);
+    }
+
+    stop() {
+        document.removeEventListener('securitypolicyviolation', this.handle);
+    }
+
+    /** Distinct violations reported, and those dropped because `maxReports` was reached. */
+    getStats() {
+        return { reported: this.reported, dropped: this.dropped };
+    }
+
+    private handle = (event: Event) => {
+        const violation = normalizeCspViolation(event as SecurityPolicyViolationEvent);
+        this.options.onEveryViolation?.(violation);
+
+        const key = [violation.directive, violation.blockedUri, violation.sourceFile, violation.line].join('|');
+        const occurrences = this.seen.get(key);
+        if (occurrences !== undefined) {
+            this.seen.set(key, occurrences + 1);
+            return;
+        }
+
+        if (this.reported >= this.maxReports) {
+            this.dropped++;
+            return;
+        }
+        this.seen.set(key, 1);
+        this.reported++;
+        if (this.options.debug) {
+            console.log(`🛡️ [NIS2 Guard] CSP violation: ${violation.directive} blocked ${violation.blockedUri}`);
+        }
+        this.options.onViolation(violation);
+    };
+}
+
+export interface CspSuggestion {
+    directive: string;
+    /** What to change in the policy. */
+    suggestion: string;
+    occurrences: number;
+}
+
+export interface CspAnalysis {
+    /**
+     * Sources observed per directive, as a policy: `'self'` plus every blocked origin.
+     * Review before deploying; a blocked source may be an injection, not a dependency.
+     */
+    directives: Record<string, string[]>;
+    /** `directives` serialised as a policy header value. */
+    policy: string;
+    suggestions: CspSuggestion[];
+    /** Violations analysed. */
+    total: number;
+}
+
+/** Directive families: `script-src-elem` and `script-src-attr` fall back to `script-src`. */
+const baseDirective = (directive: string) => directive.replace(/-(elem|attr)$/, '');
+
+/**
+ * Collects violations (typically from a `Content-Security-Policy-Report-Only` policy)
+ * and proposes the tightest policy that would allow what the page actually loaded.
+ */
+export class CspAnalyzer {
+    private sources = new Map<string, Map<string, number>>();
+    private total = 0;
+
+    collect(violation: CspViolation) {
+        this.total++;
+        const directive = baseDirective(violation.directive);
+        const sources = this.sources.get(directive) ?? new Map<string, number>();
+        sources.set(violation.blockedUri, (sources.get(violation.blockedUri) ?? 0) + 1);
+        this.sources.set(directive, sources);
+    }
+
+    analyze(): CspAnalysis {
+        const directives: Record<string, string[]> = {};
+        const suggestions: CspSuggestion[] = [];
+
+        this.sources.forEach((sources, directive) => {
+            const allowed = new Set<string>(["'self'"]);
+            sources.forEach((occurrences, source) => {
+                const suggest = (suggestion: string) => suggestions.push({ directive, suggestion, occurrences });
+                if (source === 'inline') {
+                    suggest(`Move inline code to files, or allow it with a nonce or hash instead of 'unsafe-inline'`);
+                } else if (source === 'eval') {
+                    suggest(`Remove eval() and new Function() rather than allowing 'unsafe-eval'`);
+                } else if (source === 'wasm-eval') {
+                    suggest(`Allow 'wasm-unsafe-eval' only if the page is expected to compile WebAssembly`);
+                } else if (source === 'data' || source === 'blob') {
+                    allowed.add(`${source}:`);
+                    suggest(`Allow ${source}: only if expected; it also lets injected content in`);
+                } else if (/^https?:\/\//.test(source)) {
+                    const origin = new URL(source).origin;
+                    if (origin !== window.location.origin) allowed.add(origin);
+                } else if (source && source !== 'self') {
+                    suggest(`Review blocked source "${source}"`);
+                }
+            });
+            directives[directive] = Array.from(allowed);
+        });
+
+        const policy = Object.entries(directives)
+            .map(([directive, sources]) => `${directive} ${sources.join(' ')}`)
+            .join('; ');
+
+        return { directives, policy, suggestions, total: this.total };
+    }
+
+    reset() {
+        this.sources.clear();
+        this.total = 0;
+    }
+}
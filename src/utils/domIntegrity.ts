@@ -0,0 +1,226 @@
+/**
+ * Kind of runtime DOM change that matches a formjacking / injection pattern.
+ */
+export type DomTamperingKind =
+    | 'external_script'
+    | 'inline_script'
+    | 'inline_handler'
+    | 'hidden_iframe'
+    | 'untrusted_iframe'
+    | 'form_action_changed'
+    | 'link_href_changed';
+
+export interface DomTamperingFinding {
+    kind: DomTamperingKind;
+    /** Short description of the element, e.g. `form#checkout.payment`. */
+    element: string;
+    /** Attribute involved (`src`, `action`, `href`, `onclick`...). */
+    attribute?: string;
+    /** New value of the URL or handler attribute (URLs without query and fragment). */
+    value?: string;
+    previousValue?: string;
+}
+
+export interface DomIntegrityOptions {
+    onTampering: (finding: DomTamperingFinding) => void;
+    /**
+     * Origins allowed to serve scripts, besides the page's own. `https://*.example.com` matches subdomains.
+     */
+    allowedScriptOrigins?: string[];
+    /** Origins allowed in iframes, including hidden ones (payment providers, 3-D Secure). */
+    allowedFrameOrigins?: string[];
+    /** Origins forms and links may be changed to point at. */
+    allowedNavigationOrigins?: string[];
+    /** @default document.documentElement */
+    root?: Node;
+    debug?: boolean;
+}
+
+/** Attributes holding a URL that a form or link hijack would rewrite. */
+const NAVIGATION_ATTRIBUTES: Record<string, string[]> = {
+    FORM: ['action'],
+    BUTTON: ['formaction'],
+    INPUT: ['formaction'],
+    A: ['href'],
+    LINK: ['href'],
+};
+
+const MAX_VALUE_LENGTH = 200;
+
+const originOf = (value: string): string | null => {
+    try {
+        return new URL(value, window.location.href).origin;
+    } catch {
+        return null;
+    }
+};
+
+/** Exact origin, or `scheme://*.domain` for any subdomain. */
+export const matchesOrigin = (origin: string, pattern: string): boolean => {
+    if (origin === pattern) return true;
+    const wildcard = pattern.match(/^(https?:)\/\/\*\.(.+)$/);
+    if (!wildcard) return false;
+    try {
+        const url = new URL(origin);
+        return url.protocol === wildcard[1] && url.hostname.endsWith(`.${wildcard[2]}`);
+    } catch {
+        return false;
+    }
+};
+
+const describeElement = (element: Element): string => {
+    const id = element.id ? `#${element.id}` : '';
+    const classes = typeof element.className === 'string' && element.className.trim()
+        ? `.${element.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+        : '';
+    return `${element.tagName.toLowerCase()}${id}${classes}`;
+};
+
+const stripUrl = (value: string) => (value.split(/[?#]/)[0] || value).slice(0, MAX_VALUE_LENGTH);
+
+const isHidden = (frame: HTMLIFrameElement): boolean => {
+    const style = window.getComputedStyle(frame);
+    const tiny = (value: string | null) => value !== null && value !== '' && Number.parseFloat(value) <= 1;
+    return style.display === 'none'
+        || style.visibility === 'hidden'
+        || style.opacity === '0'
+        || tiny(frame.getAttribute('width'))
+        || tiny(frame.getAttribute('height'))
+        || tiny(style.width)
+        || tiny(style.height);
+};
+
+/**
+ * Watches the DOM for injected scripts, iframes, inline event handlers and rewritten
+ * form actions or links, the building blocks of Magecart-style formjacking.
+ *
+ * React never writes `on*` attributes or injects `<script>` at runtime, so these are strong signals.
+ * Each distinct finding is reported once.
+ */
+export class DomIntegrityWatcher {
+    private observer: MutationObserver | null = null;
+    private reported = new Set<string>();
+
+    constructor(private options: DomIntegrityOptions) { }
+
+    start() {
+        if (this.observer || typeof MutationObserver === 'undefined') return;
+        this.observer = new MutationObserver(records => records.forEach(this.inspect));
+        this.observer.observe(this.options.root ?? document.documentElement, {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            attributeOldValue: true,
+        });
+    }
+
+    stop() {
+        this.observer?.disconnect();
+        this.observer = null;
+    }
+
+    private inspect = (record: MutationRecord) => {
+        if (record.type === 'attributes') {
+            this.inspectAttribute(record.target as Element, record.attributeName!, record.oldValue);
+            return;
+        }
+        record.addedNodes.forEach(node => {
+            if (node.nodeType !== Node.ELEMENT_NODE) return;
+            const element = node as Element;
+            this.inspectElement(element);
+            element.querySelectorAll('*').forEach(child => this.inspectElement(child));
+        });
+    };
+
+    private inspectElement(element: Element) {
+        if (element instanceof HTMLScriptElement) {
+            if (element.src) {
+                if (!this.isAllowed(element.src, this.options.allowedScriptOrigins)) {
+                    this.report({ kind: 'external_script', element: describeElement(element), attribute: 'src', value: stripUrl(element.src) });
+                }
+            } else if (element.textContent?.trim() && !/json|importmap/.test(element.type)) {
+                this.report({ kind: 'inline_script', element: describeElement(element), value: element.textContent.trim().slice(0, MAX_VALUE_LENGTH) });
+            }
+        } else if (element instanceof HTMLIFrameElement) {
+            this.inspectFrame(element);
+        }
+
+        for (const attribute of Array.from(element.attributes)) {
+            if (attribute.name.startsWith('on')) this.reportHandler(element, attribute.name, attribute.value);
+        }
+
+        // A freshly added form or link pointing at a foreign origin is as good as a rewritten one
+        (NAVIGATION_ATTRIBUTES[element.tagName] ?? []).forEach(name => {
+            const value = element.getAttribute(name);
+            if (value !== null) this.inspectNavigation(element, name, value, null);
+        });
+    }
+
+    private inspectAttribute(element: Element, name: string, previousValue: string | null) {
+        const value = element.getAttribute(name);
+        if (value === null || value === previousValue) return;
+
+        if (name.startsWith('on')) {
+            this.reportHandler(element, name, value);
+        } else if (name === 'src' && element instanceof HTMLScriptElement) {
+            this.inspectElement(element);
+        } else if (name === 'src' && element instanceof HTMLIFrameElement) {
+            this.inspectFrame(element);
+        } else if (NAVIGATION_ATTRIBUTES[element.tagName]?.includes(name)) {
+            this.inspectNavigation(element, name, value, previousValue);
+        }
+    }
+
+    private inspectFrame(frame: HTMLIFrameElement) {
+        const src = frame.getAttribute('src');
+        // srcdoc and blank frames inherit the page's origin
+        const origin = src ? originOf(src) : window.location.origin;
+        if (origin && this.options.allowedFrameOrigins?.some(pattern => matchesOrigin(origin, pattern))) return;
+
+        const value = src ? stripUrl(src) : undefined;
+        if (isHidden(frame)) {
+            this.report({ kind: 'hidden_iframe', element: describeElement(frame), attribute: 'src', value });
+        } else if (origin !== window.location.origin) {
+            this.report({ kind: 'untrusted_iframe', element: describeElement(frame), attribute: 'src', value });
+        }
+    }
+
+    private inspectNavigation(element: Element, name: string, value: string, previousValue: string | null) {
+        const scriptUrl = /^\s*javascript:/i.test(value);
+        if (!scriptUrl) {
+            const origin = originOf(value);
+            // Only a move to another origin is a hijack; relative changes are routing
+            if (!origin || origin === window.location.origin) return;
+            if (previousValue !== null && originOf(previousValue) === origin) return;
+            if (this.options.allowedNavigationOrigins?.some(pattern => matchesOrigin(origin, pattern))) return;
+            // Ordinary external links rendered with the page are not a change
+            if (previousValue === null && element.tagName === 'A') return;
+        }
+        this.report({
+            kind: element.tagName === 'A' || element.tagName === 'LINK' ? 'link_href_changed' : 'form_action_changed',
+            element: describeElement(element),
+            attribute: name,
+            value: scriptUrl ? 'javascript:' : stripUrl(value),
+            ...(previousValue !== null ? { previousValue: stripUrl(previousValue) } : {}),
+        });
+    }
+
+    private reportHandler(element: Element, name: string, value: string) {
+        this.report({ kind: 'inline_handler', element: describeElement(element), attribute: name, value: value.slice(0, MAX_VALUE_LENGTH) });
+    }
+
+    private isAllowed(url: string, allowed: string[] = []) {
+        const origin = originOf(url);
+        return origin !== null && (origin === window.location.origin || allowed.some(pattern => matchesOrigin(origin, pattern)));
+    }
+
+    private report(finding: DomTamperingFinding) {
+        const key = [finding.kind, finding.element, finding.attribute, finding.value].join('|');
+        if (this.reported.has(key)) return;
+        this.reported.add(key);
+        if (this.options.debug) {
+            console.log(`🛡️ [NIS2 Guard] DOM tampering (${finding.kind}) on ${finding.element}`);
+        }
+        this.options.onTampering(finding);
+    }
+}
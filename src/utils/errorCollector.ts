@@ -0,0 +1,162 @@
+/**
+ * Where the failing code was loaded from.
+ * `unknown` when the browser gives no script URL (e.g. eval, some rejections).
+ */
+export type CrashOrigin = 'same-origin' | 'third-party' | 'unknown';
+
+/**
+ * Payload of `REACT_COMPONENT_CRASH` and `UNCAUGHT_ERROR` events.
+ */
+export interface CrashReport {
+    message: string;
+    /** Error class, e.g. `TypeError`. */
+    name?: string;
+    stack?: string;
+    /** React component stack (`AuditBoundary` only). */
+    componentStack?: string;
+    /** How the crash was caught. */
+    mechanism: 'react' | 'error' | 'unhandledrejection';
+    source?: {
+        url?: string;
+        line?: number;
+        column?: number;
+        origin: CrashOrigin;
+    };
+}
+
+/** Longest message kept for non-Error rejection reasons. */
+const MAX_MESSAGE_LENGTH = 500;
+
+/** Errors already reported by `AuditBoundary`; React dev builds re-dispatch them to `window`. */
+const reportedErrors = new WeakSet<object>();
+
+export const markCrashReported = (error: unknown) => {
+    if (error && typeof error === 'object') reportedErrors.add(error);
+};
+
+export const wasCrashReported = (error: unknown) =>
+    !!error && typeof error === 'object' && reportedErrors.has(error);
+
+export const classifyOrigin = (url?: string): CrashOrigin => {
+    if (!url) return 'unknown';
+    try {
+        return new URL(url, window.location.href).origin === window.location.origin ? 'same-origin' : 'third-party';
+    } catch {
+        return 'unknown';
+    }
+};
+
+/** First script URL of a stack trace, with line and column. */
+const firstStackFrame = (stack?: string) => {
+    const match = stack?.match(/(https?:\/\/[^\s)]+?):(\d+):(\d+)/);
+    return match ? { url: match[1], line: Number(match[2]), column: Number(match[3]) } : undefined;
+};
+
+/**
+ * Builds the crash payload shared by `AuditBoundary` and the global error collector.
+ */
+export const toCrashReport = (error: unknown, mechanism: CrashReport['mechanism']): CrashReport => {
+    if (error instanceof Error) {
+        const report: CrashReport = { message: error.message, name: error.name, stack: error.stack, mechanism };
+        const frame = firstStackFrame(error.stack);
+        if (frame) report.source = { ...frame, origin: classifyOrigin(frame.url) };
+        return report;
+    }
+    let message: string;
+    try {
+        message = typeof error === 'string' ? error : JSON.stringify(error) ?? String(error);
+    } catch {
+        message = String(error);
+    }
+    return { message: message.slice(0, MAX_MESSAGE_LENGTH), mechanism };
+};
+
+export interface ErrorCollectorOptions {
+    onCrash: (report: CrashReport) => void;
+    /**
+     * Skip errors thrown by scripts from other origins (analytics, chat widgets, extensions).
+     * @default false
+     */
+    ignoreThirdParty?: boolean;
+    /** Messages to ignore: substrings or patterns. */
+    ignore?: (string | RegExp)[];
+    debug?: boolean;
+}
+
+/**
+ * Reports errors that escape React: event handlers, timers, async code and unhandled promise rejections.
+ *
+ * Cross-origin scripts loaded without CORS only expose "Script error." with no details;
+ * those are dropped since nothing in them is actionable.
+ */
+export class ErrorCollector {
+    private ignoredCount = 0;
+
+    constructor(private options: ErrorCollectorOptions) { }
+
+    start() {
+        window.addEventListener('error', this.onError);
+        window.addEventListener('unhandledrejection', this.onRejection);
+    }
+
+    stop() {
+        window.removeEventListener('error', this.onError);
+        window.removeEventListener('unhandledrejection', this.onRejection);
+    }
+
+    /** Errors dropped as opaque, third-party or ignored. */
+    getIgnoredCount() {
+        return this.ignoredCount;
+    }
+
+    private onError = (event: Event) => {
+        // Resource load failures (<img>, <script>) are plain Events, not script errors
+        if (!(event instanceof ErrorEvent)) return;
+
+        if (!event.filename && !event.lineno && /^Script error\.?$/.test(event.message)) {
+            this.ignoredCount++;
+            return;
+        }
+
+        const report = event.error instanceof Error
+            ? toCrashReport(event.error, 'error')
+            : { message: event.message, mechanism: 'error' as const };
+        if (event.filename) {
+            report.source = {
+                url: event.filename,
+                line: event.lineno || undefined,
+                column: event.colno || undefined,
+                origin: classifyOrigin(event.filename),
+            };
+        }
+        this.collect(report, event.error);
+    };
+
+    private onRejection = (event: PromiseRejectionEvent) => {
+        this.collect(toCrashReport(event.reason, 'unhandledrejection'), event.reason);
+    };
+
+    private collect(report: CrashReport, error: unknown) {
+        const { ignore = [], ignoreThirdParty } = this.options;
+        const ignored = (ignoreThirdParty && report.source?.origin === 'third-party')
+            || ignore.some(pattern => {
+                if (typeof pattern === 'string') return report.message.includes(pattern);
+                // A global or sticky pattern resumes from its last match: start over on every message
+                pattern.lastIndex = 0;
+                return pattern.test(report.message);
+            });
+        if (ignored) {
+            this.ignoredCount++;
+            return;
+        }
+
+        // Let AuditBoundary claim errors thrown during render first
+        setTimeout(() => {
+            if (wasCrashReported(error)) return;
+            if (this.options.debug) {
+                console.log(`🛡️ [NIS2 Guard] Uncaught ${report.mechanism === 'error' ? 'error' : 'rejection'}: ${report.message}`);
+            }
+            this.options.onCrash(report);
+        }, 0);
+    }
+}
@@ -0,0 +1,145 @@
+import type { EventIntegrity } from './auditChain';
+import type { RedactionRecord } from './redaction';
+
+/**
+ * Version of the event envelope. Bumped on every change to its shape;
+ * the matching JSON Schema ships in `schema/nis2-event.schema.json`.
+ */
+export const EVENT_SCHEMA_VERSION = '1.2';
+
+export type Nis2Severity = 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL';
+
+/**
+ * The versioned envelope wrapping every event sent to the backend.
+ */
+export interface TelemetryEvent {
+    /** Unique event id, lets the backend de-duplicate replayed events. */
+    id: string;
+    schemaVersion: string;
+    type: string;
+    severity: Nis2Severity;
+    /** ISO timestamp of when the event was raised (not when it was sent). */
+    timestamp: string;
+    /** Monotonic per-session counter, starting at 1. */
+    sequence: number;
+    /** Identifies the browser tab session; survives reloads within the tab. */
+    sessionId: string;
+    url: string;
+    appVersion?: string;
+    tenant?: string;
+    payload: Record<string, any>;
+    /** What the redaction stage removed from `payload` and `url`, when anything was. */
+    redactions?: RedactionRecord[];
+    /** Hash-chain link and signature, present when `Nis2Config.integrity` is set. */
+    integrity?: EventIntegrity;
+}
+
+/**
+ * Severity used when the caller does not pass one explicitly.
+ * Unknown types default to INFO.
+ */
+export const DEFAULT_SEVERITIES: Record<string, Nis2Severity> = {
+    INFO: 'INFO',
+    WARNING: 'WARNING',
+    CRITICAL: 'CRITICAL',
+    REACT_COMPONENT_CRASH: 'ERROR',
+    UNCAUGHT_ERROR: 'ERROR',
+    INSECURE_CONNECTION: 'WARNING',
+    OUTDATED_BROWSER: 'WARNING',
+    SECURITY_BANNER_DISMISSED: 'INFO',
+    DEVICE_FINGERPRINT: 'INFO',
+    EVENTS_SUPPRESSED: 'WARNING',
+    SESSION_IDLE_TIMEOUT: 'INFO',
+    SESSION_LOGOUT: 'INFO',
+    SESSION_EXTENDED: 'INFO',
+    SESSION_EXPIRED: 'WARNING',
+    REAUTH_REQUIRED: 'INFO',
+    SESSION_LOCKED: 'INFO',
+    SESSION_UNLOCKED: 'INFO',
+    SESSION_UNLOCK_FAILED: 'WARNING',
+    REAUTH_SUCCEEDED: 'INFO',
+    REAUTH_FAILED: 'WARNING',
+    REAUTH_LOCKOUT: 'ERROR',
+    SESSION_COMPROMISED: 'CRITICAL',
+    IDLE_POLICY_CHANGED: 'INFO',
+    CLOCK_SKEW_DETECTED: 'WARNING',
+    CSP_VIOLATION: 'WARNING',
+    // Not CRITICAL: tag managers and extensions inject scripts routinely, and CRITICAL skips rate limiting
+    DOM_TAMPERING: 'ERROR',
+    UNAUTHORIZED_SCRIPT: 'ERROR',
+    SCRIPT_INVENTORY: 'INFO',
+    NETWORK_POLICY_VIOLATION: 'WARNING',
+    FRAMED_CONTEXT: 'WARNING',
+    TABNABBING_RISK: 'WARNING',
+    RISK_POLICY_TRIGGERED: 'WARNING',
+};
+
+export const resolveSeverity = (type: string, severity?: Nis2Severity): Nis2Severity =>
+    severity ?? DEFAULT_SEVERITIES[type] ?? 'INFO';
+
+export const createEventId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export interface EnvelopeFactoryOptions {
+    appVersion?: string;
+    tenant?: string;
+}
+
+const SESSION_ID_KEY = 'nis2_session_id';
+const SEQUENCE_KEY = 'nis2_event_sequence';
+
+const readSessionStorage = (key: string): string | null => {
+    try {
+        return window.sessionStorage.getItem(key);
+    } catch {
+        return null;
+    }
+};
+
+const writeSessionStorage = (key: string, value: string) => {
+    try {
+        window.sessionStorage.setItem(key, value);
+    } catch {
+        // Storage disabled (private mode, sandboxed iframe): ids stay in memory
+    }
+};
+
+/**
+ * Wraps raw incident payloads in the versioned envelope.
+ * Session id and sequence are kept in sessionStorage so they stay stable across reloads of the tab.
+ */
+export class EnvelopeFactory {
+    readonly sessionId: string;
+    private sequence: number;
+
+    constructor(private options: EnvelopeFactoryOptions = {}) {
+        this.sessionId = readSessionStorage(SESSION_ID_KEY) ?? createEventId();
+        this.sequence = Number(readSessionStorage(SEQUENCE_KEY)) || 0;
+        writeSessionStorage(SESSION_ID_KEY, this.sessionId);
+    }
+
+    create(type: string, payload: Record<string, any>, severity?: Nis2Severity): TelemetryEvent {
+        this.sequence += 1;
+        writeSessionStorage(SEQUENCE_KEY, String(this.sequence));
+
+        const event: TelemetryEvent = {
+            id: createEventId(),
+            schemaVersion: EVENT_SCHEMA_VERSION,
+            type,
+            severity: resolveSeverity(type, severity),
+            timestamp: new Date().toISOString(),
+            sequence: this.sequence,
+            sessionId: this.sessionId,
+            url: typeof window !== 'undefined' ? window.location.href : '',
+            payload,
+        };
+        if (this.options.appVersion) event.appVersion = this.options.appVersion;
+        if (this.options.tenant) event.tenant = this.options.tenant;
+
+        return event;
+    }
+}
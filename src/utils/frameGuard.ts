@@ -0,0 +1,92 @@
+import { matchesOrigin } from './domIntegrity';
+
+export interface FramingInfo {
+    /** The page is not the top-level window. */
+    framed: boolean;
+    /** Origin of the direct parent, or null when it cannot be determined. */
+    parentOrigin: string | null;
+    /** Origins of every ancestor, nearest first, where the browser exposes them. */
+    ancestorOrigins: string[];
+    /** How the parent origin was determined. */
+    source: 'ancestorOrigins' | 'same-origin' | 'referrer' | 'unknown' | 'none';
+    /** Not framed, or every known ancestor is allowed. An unknown parent is never allowed. */
+    allowed: boolean;
+}
+
+export interface FramingOptions {
+    /** Origins allowed to frame the app. `https://*.example.com` matches subdomains. */
+    allowedParents?: string[];
+    /**
+     * The app may frame itself.
+     * @default true
+     */
+    allowSameOrigin?: boolean;
+}
+
+const originOf = (value: string): string | null => {
+    try {
+        const origin = new URL(value).origin;
+        return origin === 'null' ? null : origin;
+    } catch {
+        return null;
+    }
+};
+
+const isFramed = (target: Window): boolean => {
+    try {
+        return target.top !== target.self;
+    } catch {
+        // Reading `top` across origins can throw in older browsers: only a frame does that
+        return true;
+    }
+};
+
+/**
+ * Whether the page runs inside a frame, and whether its ancestors are allowed to frame it.
+ *
+ * The parent origin comes from `location.ancestorOrigins` (Chromium, Safari), from the parent
+ * itself when same-origin, or from `document.referrer` (Firefox), in that order.
+ *
+ * @example
+ * ```ts
+ * const framing = detectFraming({ allowedParents: ['https://intranet.example.com'] });
+ * if (!framing.allowed) document.body.hidden = true;
+ * ```
+ */
+export const detectFraming = (options: FramingOptions = {}, target: Window = window): FramingInfo => {
+    if (!isFramed(target)) {
+        return { framed: false, parentOrigin: null, ancestorOrigins: [], source: 'none', allowed: true };
+    }
+
+    let ancestorOrigins: string[] = [];
+    let source: FramingInfo['source'] = 'unknown';
+
+    const fromLocation = target.location.ancestorOrigins;
+    if (fromLocation && fromLocation.length > 0) {
+        ancestorOrigins = Array.from(fromLocation);
+        source = 'ancestorOrigins';
+    } else {
+        let parentOrigin: string | null = null;
+        try {
+            parentOrigin = target.parent.location.origin;
+            source = 'same-origin';
+        } catch {
+            parentOrigin = target.document.referrer ? originOf(target.document.referrer) : null;
+            if (parentOrigin) source = 'referrer';
+        }
+        if (parentOrigin) ancestorOrigins = [parentOrigin];
+    }
+
+    const { allowedParents = [], allowSameOrigin = true } = options;
+    const isAllowed = (origin: string) =>
+        (allowSameOrigin && origin === target.location.origin)
+        || allowedParents.some(pattern => matchesOrigin(origin, pattern));
+
+    return {
+        framed: true,
+        parentOrigin: ancestorOrigins[0] ?? null,
+        ancestorOrigins,
+        source,
+        allowed: ancestorOrigins.length > 0 && ancestorOrigins.every(isAllowed),
+    };
+};
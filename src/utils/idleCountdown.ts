@@ -0,0 +1,162 @@
+export type IdlePhase = 'active' | 'warning' | 'idle';
+
+export interface IdleCountdownOptions {
+    /** Inactivity after which the session is idle. */
+    timeoutMs: number;
+    /** Length of the warning phase before the timeout. 0 disables it. */
+    warningMs: number;
+    /** Entering the warning phase. */
+    onWarning: (remainingMs: number) => void;
+    /** The timeout elapsed. */
+    onIdle: () => void;
+    /** Back to active from the warning phase or from idle. */
+    onActive: (previous: IdlePhase) => void;
+}
+
+/**
+ * Idle timer with a warning phase: active → warning → idle.
+ *
+ * Passive activity (mouse, keyboard) restarts the timer while active and wakes the session up
+ * once idle, but is ignored during the warning phase: only an explicit `extend()`
+ * ("stay signed in") keeps the session, so a mouse movement cannot silently dismiss the warning.
+ *
+ * Activity only moves a timestamp; the timer is re-armed lazily when it fires, so
+ * `markActivity` is cheap enough to call from every mousemove.
+ */
+export class IdleCountdown {
+    private lastActivity = Date.now();
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private phase: IdlePhase = 'active';
+    private running = false;
+
+    constructor(private options: IdleCountdownOptions) { }
+
+    start() {
+        this.running = true;
+        this.phase = 'active';
+        this.lastActivity = Date.now();
+        this.schedule();
+    }
+
+    stop() {
+        this.running = false;
+        this.clearTimer();
+    }
+
+    /**
+     * Records passive activity. Returns false when it was ignored (warning phase),
+     * or when it arrived after the deadline and ended the session instead.
+     */
+    markActivity(at = Date.now()): boolean {
+        if (this.running && this.phase !== 'idle' && at >= this.getDeadline()) {
+            // The timer did not fire in time (system sleep, frozen tab): the session already timed out
+            this.expire();
+            return false;
+        }
+        if (this.phase === 'warning') return false;
+        if (at > this.lastActivity) this.lastActivity = at;
+        if (this.phase === 'idle') {
+            this.phase = 'active';
+            this.options.onActive('idle');
+            this.clearTimer();
+        }
+        if (!this.timer) this.schedule();
+        return true;
+    }
+
+    /**
+     * Explicitly keeps the session alive, including during the warning phase.
+     */
+    extend(at = Date.now()) {
+        if (at > this.lastActivity) this.lastActivity = at;
+        const previous = this.phase;
+        this.phase = 'active';
+        this.clearTimer();
+        this.schedule();
+        if (previous !== 'active') this.options.onActive(previous);
+    }
+
+    /**
+     * Changes the timeout and warning window without losing the last activity,
+     * so a stricter policy can end the session right away.
+     */
+    configure(timing: { timeoutMs: number; warningMs: number }) {
+        this.options = { ...this.options, ...timing };
+        if (this.phase === 'idle') return;
+        this.clearTimer();
+        if (this.phase === 'warning' && this.getRemainingMs() > this.options.warningMs) {
+            // The looser policy moved the deadline out of the warning window
+            this.phase = 'active';
+            this.options.onActive('warning');
+        }
+        this.schedule();
+    }
+
+    /**
+     * Re-evaluates the deadline immediately, e.g. after the page was suspended.
+     */
+    sync() {
+        if (!this.running || this.phase === 'idle') return;
+        this.clearTimer();
+        this.check();
+    }
+
+    /**
+     * Moves the last activity along with a wall-clock change, so setting the clock back
+     * does not postpone the timeout.
+     */
+    adjustClock(skewMs: number) {
+        this.lastActivity += skewMs;
+        if (!this.running || this.phase === 'idle') return;
+        this.clearTimer();
+        this.schedule();
+    }
+
+    getPhase(): IdlePhase {
+        return this.phase;
+    }
+
+    /** Epoch milliseconds at which the session becomes idle. */
+    getDeadline() {
+        return this.lastActivity + this.options.timeoutMs;
+    }
+
+    getRemainingMs() {
+        return Math.max(0, this.getDeadline() - Date.now());
+    }
+
+    private clearTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private expire() {
+        this.clearTimer();
+        this.phase = 'idle';
+        this.options.onIdle();
+    }
+
+    private schedule() {
+        if (!this.running || this.phase === 'idle') return;
+        const warningMs = this.phase === 'active' ? this.options.warningMs : 0;
+        this.timer = setTimeout(() => this.check(), Math.max(0, this.getRemainingMs() - warningMs));
+    }
+
+    private check() {
+        this.timer = null;
+        const remaining = this.getRemainingMs();
+
+        if (remaining <= 0) {
+            this.expire();
+            return;
+        }
+        if (this.phase === 'active' && remaining <= this.options.warningMs) {
+            this.phase = 'warning';
+            this.options.onWarning(remaining);
+        }
+        // Either activity moved the deadline since the timer was armed, or the warning phase started
+        this.schedule();
+    }
+}
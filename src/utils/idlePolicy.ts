@@ -0,0 +1,51 @@
+/**
+ * Idle behaviour for a part of the application.
+ */
+export interface IdlePolicy {
+    /** Inactivity timeout. Only a value stricter than `Nis2Config.idleTimeoutMinutes` has an effect. */
+    idleTimeoutMinutes?: number;
+    /** Warning window before the timeout. Only shortens the global `warningSeconds`; no effect while that is 0. */
+    warningSeconds?: number;
+    /** Lock the session (`securityState.isLocked`, every tab) when it goes idle. */
+    lockOnIdle?: boolean;
+}
+
+export interface ScopedIdlePolicy extends IdlePolicy {
+    /** Identifies the scope in audit events, e.g. `'payments'`. */
+    name: string;
+}
+
+/**
+ * The policy in force: the tightest value of each field among the global config and the mounted scopes.
+ */
+export interface EffectiveIdlePolicy {
+    idleTimeoutMinutes: number;
+    warningSeconds: number;
+    lockOnIdle: boolean;
+    /** Names of the mounted scopes, in mount order. Empty when only the global config applies. */
+    scopes: string[];
+}
+
+const isPositive = (value: number | undefined): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Merges the mounted scopes into the global policy. Each field is resolved independently:
+ * the shortest timeout, the shortest warning window, and locking if any scope locks.
+ */
+export const resolveIdlePolicy = (
+    global: Omit<EffectiveIdlePolicy, 'scopes'>,
+    scopes: ScopedIdlePolicy[]
+): EffectiveIdlePolicy => {
+    let { idleTimeoutMinutes, warningSeconds, lockOnIdle } = global;
+
+    for (const scope of scopes) {
+        if (isPositive(scope.idleTimeoutMinutes)) idleTimeoutMinutes = Math.min(idleTimeoutMinutes, scope.idleTimeoutMinutes);
+        if (typeof scope.warningSeconds === 'number' && scope.warningSeconds >= 0) {
+            warningSeconds = Math.min(warningSeconds, scope.warningSeconds);
+        }
+        if (scope.lockOnIdle) lockOnIdle = true;
+    }
+
+    return { idleTimeoutMinutes, warningSeconds, lockOnIdle, scopes: scopes.map(scope => scope.name) };
+};
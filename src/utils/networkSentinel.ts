@@ -0,0 +1,195 @@
+import { matchesOrigin } from './domIntegrity';
+
+export type NetworkFindingKind = 'insecure_transport' | 'mixed_content' | 'unknown_origin' | 'large_upload';
+
+export interface NetworkFinding {
+    kind: NetworkFindingKind;
+    /** Request URL without query and fragment. */
+    url: string;
+    origin: string;
+    method: string;
+    api: 'fetch' | 'xhr';
+    /** Request body size in bytes, when it can be measured without reading a stream. */
+    bodyBytes?: number;
+    /** The request was stopped (`block: true`). */
+    blocked: boolean;
+}
+
+export interface NetworkSentinelOptions {
+    onFinding: (finding: NetworkFinding) => void;
+    /**
+     * Origins the app is expected to call, besides its own. `https://*.example.com` matches subdomains.
+     * Without it, other origins are not flagged as unknown.
+     */
+    allowedOrigins?: string[];
+    /**
+     * Bodies larger than this sent to an origin that is neither the page's nor allowed are flagged.
+     * @default 102400
+     */
+    maxUploadBytes?: number;
+    /**
+     * Fail flagged requests with a network error instead of only reporting them.
+     * @default false
+     */
+    block?: boolean;
+    /** URLs never inspected: prefixes or patterns. The audit endpoint belongs here. */
+    exclude?: (string | RegExp)[];
+    debug?: boolean;
+}
+
+/** Hosts where plain HTTP is not a finding (local development). */
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/** Per-request state of a wrapped XHR, between `open()` and `send()`. */
+const xhrRequests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
+/** Body size in bytes, or undefined for streams and unknown types. */
+export const measureBody = (body: unknown): number | undefined => {
+    if (body === null || body === undefined) return 0;
+    if (typeof body === 'string') return new Blob([body]).size;
+    if (body instanceof Blob) return body.size;
+    if (body instanceof ArrayBuffer) return body.byteLength;
+    if (ArrayBuffer.isView(body)) return body.byteLength;
+    if (body instanceof URLSearchParams) return new Blob([body.toString()]).size;
+    if (typeof FormData !== 'undefined' && body instanceof FormData) {
+        let size = 0;
+        body.forEach(value => {
+            size += typeof value === 'string' ? new Blob([value]).size : value.size;
+        });
+        return size;
+    }
+    return undefined;
+};
+
+/**
+ * Wraps `fetch` and `XMLHttpRequest` to flag plaintext and mixed-content requests, calls to origins
+ * outside an allowlist, and large uploads to unknown hosts (a data exfiltration signal).
+ *
+ * Each distinct finding (kind, method, URL) is reported once. Wrappers installed after this one
+ * are kept on `uninstall()`; this one then passes requests through untouched.
+ */
+export class NetworkSentinel {
+    private active = false;
+    private reported = new Set<string>();
+    private originalFetch: typeof fetch | null = null;
+    private wrappedFetch: typeof fetch | null = null;
+    private originalOpen: XMLHttpRequest['open'] | null = null;
+    private originalSend: XMLHttpRequest['send'] | null = null;
+    private wrappedOpen: XMLHttpRequest['open'] | null = null;
+    private wrappedSend: XMLHttpRequest['send'] | null = null;
+
+    constructor(private options: NetworkSentinelOptions) { }
+
+    install() {
+        if (this.active) return;
+        this.active = true;
+
+        if (typeof window.fetch === 'function') {
+            const originalFetch = window.fetch;
+            this.originalFetch = originalFetch;
+            this.wrappedFetch = (input: RequestInfo | URL, init?: RequestInit) => {
+                if (!this.active) return originalFetch.call(window, input, init);
+                const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+                const method = init?.method ?? (typeof input === 'object' && 'method' in input ? input.method : 'GET');
+                // A Request body cannot be measured without consuming it
+                const blocked = this.inspect('fetch', method, url, init?.body);
+                if (blocked) return Promise.reject(new TypeError('Request blocked by NIS2 network policy'));
+                return originalFetch.call(window, input, init);
+            };
+            window.fetch = this.wrappedFetch;
+        }
+
+        if (typeof XMLHttpRequest !== 'undefined') {
+            const sentinel = this;
+            const originalOpen = XMLHttpRequest.prototype.open;
+            const originalSend = XMLHttpRequest.prototype.send;
+            this.originalOpen = originalOpen;
+            this.originalSend = originalSend;
+
+            this.wrappedOpen = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+                xhrRequests.set(this, { method, url: String(url) });
+                return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest);
+            } as XMLHttpRequest['open'];
+
+            this.wrappedSend = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+                const request = xhrRequests.get(this);
+                if (sentinel.active && request && sentinel.inspect('xhr', request.method, request.url, body)) {
+                    // Fail the way a network error does: asynchronously, with an `error` event
+                    setTimeout(() => {
+                        this.dispatchEvent(new ProgressEvent('error'));
+                        this.dispatchEvent(new ProgressEvent('loadend'));
+                    }, 0);
+                    return;
+                }
+                return originalSend.call(this, body);
+            };
+
+            XMLHttpRequest.prototype.open = this.wrappedOpen;
+            XMLHttpRequest.prototype.send = this.wrappedSend;
+        }
+    }
+
+    uninstall() {
+        if (!this.active) return;
+        this.active = false;
+        if (this.originalFetch && window.fetch === this.wrappedFetch) window.fetch = this.originalFetch;
+        if (this.originalOpen && XMLHttpRequest.prototype.open === this.wrappedOpen) {
+            XMLHttpRequest.prototype.open = this.originalOpen;
+        }
+        if (this.originalSend && XMLHttpRequest.prototype.send === this.wrappedSend) {
+            XMLHttpRequest.prototype.send = this.originalSend;
+        }
+        this.originalFetch = this.wrappedFetch = null;
+        this.originalOpen = this.originalSend = this.wrappedOpen = this.wrappedSend = null;
+    }
+
+    /** Reports what is wrong with a request. Returns true when it must be blocked. */
+    private inspect(api: NetworkFinding['api'], method: string, rawUrl: string, body: unknown): boolean {
+        let url: URL;
+        try {
+            url = new URL(rawUrl, window.location.href);
+        } catch {
+            return false;
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+
+        const stripped = `${url.origin}${url.pathname}`;
+        const { exclude = [], allowedOrigins, maxUploadBytes = 102400 } = this.options;
+        const excluded = exclude.some(pattern => {
+            if (typeof pattern === 'string') return stripped.startsWith(pattern);
+            // A global or sticky pattern resumes from its last match: start over on every URL
+            pattern.lastIndex = 0;
+            return pattern.test(stripped);
+        });
+        if (excluded) return false;
+
+        const sameOrigin = url.origin === window.location.origin;
+        const allowed = sameOrigin || (allowedOrigins ?? []).some(pattern => matchesOrigin(url.origin, pattern));
+        const bodyBytes = measureBody(body);
+
+        let kind: NetworkFindingKind | null = null;
+        if (url.protocol === 'http:' && window.location.protocol === 'https:') {
+            kind = 'mixed_content';
+        } else if (url.protocol === 'http:' && !LOCAL_HOSTS.includes(url.hostname)) {
+            kind = 'insecure_transport';
+        } else if (allowedOrigins && !allowed) {
+            kind = 'unknown_origin';
+        } else if (!allowed && bodyBytes !== undefined && bodyBytes > maxUploadBytes) {
+            kind = 'large_upload';
+        }
+        if (!kind) return false;
+
+        const blocked = !!this.options.block;
+        const key = [kind, method.toUpperCase(), stripped].join('|');
+        if (!this.reported.has(key)) {
+            this.reported.add(key);
+            if (this.options.debug) {
+                console.log(`🛡️ [NIS2 Guard] Network ${kind}${blocked ? ' (blocked)' : ''}: ${method.toUpperCase()} ${stripped}`);
+            }
+            const finding: NetworkFinding = { kind, url: stripped, origin: url.origin, method: method.toUpperCase(), api, blocked };
+            if (bodyBytes) finding.bodyBytes = bodyBytes;
+            this.options.onFinding(finding);
+        }
+        return blocked;
+    }
+}
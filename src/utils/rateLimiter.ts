@@ -0,0 +1,226 @@
+import { Nis2Severity } from './eventEnvelope';
+import { canonicalJson } from './auditChain';
+
+export interface TokenBucketLimit {
+    /** Events allowed in a burst. */
+    burst: number;
+    /** Sustained rate, tokens refilled per minute. */
+    perMinute: number;
+}
+
+export interface RateLimitConfig {
+    /**
+     * Token-bucket limits per event type. The `'*'` entry applies to every type without its own.
+     * @default { '*': { burst: 20, perMinute: 60 } }
+     */
+    limits?: Record<string, TokenBucketLimit>;
+    /**
+     * Fraction (0-1) of INFO events that are kept. Other severities are never sampled.
+     * @default 1
+     */
+    infoSampleRate?: number;
+    /**
+     * Identical events (same type, severity and payload) within this window are reported once.
+     * 0 disables deduplication.
+     * @default 10000
+     */
+    dedupWindowMs?: number;
+    /**
+     * Delay after the first suppressed event before an `EVENTS_SUPPRESSED` summary is reported.
+     * @default 60000
+     */
+    summaryIntervalMs?: number;
+}
+
+export type SuppressionReason = 'rate_limited' | 'sampled' | 'duplicate';
+
+export interface SuppressionCount {
+    type: string;
+    reason: SuppressionReason;
+    count: number;
+}
+
+/** Payload of the `EVENTS_SUPPRESSED` summary event. */
+export interface SuppressionSummary {
+    total: number;
+    since: string;
+    suppressed: SuppressionCount[];
+}
+
+export interface IncidentLimiterState {
+    /** Tokens left per event type. */
+    buckets: Record<string, number>;
+    /** Events suppressed since the last summary. */
+    pending: SuppressionCount[];
+    /** Fingerprints currently inside the dedup window. */
+    dedupEntries: number;
+}
+
+export interface IncidentLimiterOptions extends RateLimitConfig {
+    /** Called with the summary of suppressed events, at most once per `summaryIntervalMs`. */
+    onSummary: (summary: SuppressionSummary) => void;
+    debug?: boolean;
+    /** Injectable for tests. */
+    random?: () => number;
+}
+
+export const SUPPRESSION_EVENT_TYPE = 'EVENTS_SUPPRESSED';
+
+const DEFAULT_LIMIT: TokenBucketLimit = { burst: 20, perMinute: 60 };
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+const fingerprint = (type: string, severity: Nis2Severity, payload: Record<string, any>): string | null => {
+    try {
+        return `${type}|${severity}|${canonicalJson(payload)}`;
+    } catch {
+        // Circular or otherwise unserializable payload: never treated as a duplicate
+        return null;
+    }
+};
+
+/**
+ * Decides which incidents reach the telemetry pipeline, so a crash loop or a log call
+ * inside a render cannot flood the audit endpoint.
+ *
+ * In order: INFO events are sampled, identical events inside the dedup window are dropped,
+ * then each type draws from its own token bucket. CRITICAL events are never sampled or
+ * rate limited; only exact repeats are folded into the summary.
+ * Every suppression is counted and reported in a single `EVENTS_SUPPRESSED` summary.
+ */
+export class IncidentLimiter {
+    private buckets = new Map<string, Bucket>();
+    private recent = new Map<string, number>();
+    private pending = new Map<string, SuppressionCount>();
+    private pendingSince: number | null = null;
+    private summaryTimer: ReturnType<typeof setTimeout> | null = null;
+    private limits: Record<string, TokenBucketLimit>;
+    private infoSampleRate: number;
+    private dedupWindowMs: number;
+    private summaryIntervalMs: number;
+    private random: () => number;
+
+    constructor(private options: IncidentLimiterOptions) {
+        this.limits = options.limits ?? {};
+        this.infoSampleRate = options.infoSampleRate ?? 1;
+        this.dedupWindowMs = options.dedupWindowMs ?? 10000;
+        this.summaryIntervalMs = options.summaryIntervalMs ?? 60000;
+        this.random = options.random ?? Math.random;
+    }
+
+    /**
+     * Returns true when the event should be reported.
+     */
+    admit(type: string, severity: Nis2Severity, payload: Record<string, any>): boolean {
+        const now = Date.now();
+        const critical = severity === 'CRITICAL';
+
+        if (severity === 'INFO' && this.infoSampleRate < 1 && this.random() >= this.infoSampleRate) {
+            return this.suppress(type, 'sampled', now);
+        }
+
+        const key = this.dedupWindowMs > 0 ? fingerprint(type, severity, payload) : null;
+        if (key !== null) {
+            this.pruneRecent(now);
+            if (this.recent.has(key)) return this.suppress(type, 'duplicate', now);
+        }
+
+        if (!critical && !this.take(type, now)) {
+            return this.suppress(type, 'rate_limited', now);
+        }
+
+        if (key !== null) this.recent.set(key, now);
+        return true;
+    }
+
+    getState(): IncidentLimiterState {
+        const now = Date.now();
+        const buckets: Record<string, number> = {};
+        this.buckets.forEach((_bucket, type) => {
+            buckets[type] = Math.floor(this.refill(type, now).tokens);
+        });
+        this.pruneRecent(now);
+        return {
+            buckets,
+            pending: Array.from(this.pending.values()).map(entry => ({ ...entry })),
+            dedupEntries: this.recent.size,
+        };
+    }
+
+    /**
+     * Reports the pending summary immediately, if anything was suppressed.
+     */
+    flushSummary() {
+        if (this.summaryTimer) {
+            clearTimeout(this.summaryTimer);
+            this.summaryTimer = null;
+        }
+        if (this.pending.size === 0 || this.pendingSince === null) return;
+
+        const suppressed = Array.from(this.pending.values());
+        const summary: SuppressionSummary = {
+            total: suppressed.reduce((sum, entry) => sum + entry.count, 0),
+            since: new Date(this.pendingSince).toISOString(),
+            suppressed,
+        };
+        this.pending.clear();
+        this.pendingSince = null;
+
+        if (this.options.debug) {
+            console.log(`🛡️ [NIS2 Guard] ${summary.total} events suppressed`, summary.suppressed);
+        }
+        this.options.onSummary(summary);
+    }
+
+    /**
+     * Stops the summary timer. Pending counts are reported first so they are not lost.
+     */
+    stop() {
+        this.flushSummary();
+    }
+
+    private limitFor(type: string) {
+        return this.limits[type] ?? this.limits['*'] ?? DEFAULT_LIMIT;
+    }
+
+    private refill(type: string, now: number): Bucket {
+        const limit = this.limitFor(type);
+        const bucket = this.buckets.get(type) ?? { tokens: limit.burst, updatedAt: now };
+        const refilled = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) * limit.perMinute) / 60000);
+        const next = { tokens: refilled, updatedAt: now };
+        this.buckets.set(type, next);
+        return next;
+    }
+
+    private take(type: string, now: number) {
+        const bucket = this.refill(type, now);
+        if (bucket.tokens < 1) return false;
+        bucket.tokens -= 1;
+        return true;
+    }
+
+    private pruneRecent(now: number) {
+        this.recent.forEach((seenAt, key) => {
+            if (now - seenAt >= this.dedupWindowMs) this.recent.delete(key);
+        });
+    }
+
+    private suppress(type: string, reason: SuppressionReason, now: number): false {
+        const key = `${type}|${reason}`;
+        const entry = this.pending.get(key) ?? { type, reason, count: 0 };
+        entry.count += 1;
+        this.pending.set(key, entry);
+        if (this.pendingSince === null) this.pendingSince = now;
+
+        if (!this.summaryTimer) {
+            this.summaryTimer = setTimeout(() => this.flushSummary(), this.summaryIntervalMs);
+        }
+        if (this.options.debug) {
+            console.log(`🛡️ [NIS2 Guard] Suppressed ${type} (${reason})`, this.getState());
+        }
+        return false;
+    }
+}
@@ -0,0 +1,179 @@
+export interface ReauthGateState {
+    /** The user must re-authenticate before resuming the session. */
+    required: boolean;
+    /** Consecutive failed attempts since the last success or lockout. */
+    failures: number;
+    /** Epoch milliseconds until which attempts are refused, or null. */
+    lockedOutUntil: number | null;
+}
+
+/**
+ * Result of one attempt: `rejected` (resolved `false`), `error` (rejected promise)
+ * or `locked_out` (refused without calling `reauthenticate`).
+ */
+export type ReauthOutcome = 'success' | 'rejected' | 'error' | 'locked_out';
+
+export interface ReauthAttempt {
+    outcome: ReauthOutcome;
+    /** 1-based number of this attempt within the current round. */
+    attempt: number;
+    attemptsRemaining: number;
+    lockedOutUntil: number | null;
+}
+
+export interface ReauthGateOptions {
+    /**
+     * Your re-authentication flow. Resolving (with anything but `false`) counts as success;
+     * rejecting or resolving `false` counts as a failed attempt.
+     */
+    reauthenticate: () => Promise<unknown>;
+    /** @default 3 */
+    maxAttempts?: number;
+    /** @default 300000 (5 minutes) */
+    lockoutMs?: number;
+    /** Called after every attempt, including attempts refused during a lockout. */
+    onAttempt?: (attempt: ReauthAttempt) => void;
+    /** Called when `maxAttempts` consecutive failures start a lockout. */
+    onLockout?: (lockedOutUntil: number) => void;
+    /**
+     * localStorage key. The state is shared by all tabs and survives reloads,
+     * so neither a reload nor a new tab skips the re-authentication or resets a lockout.
+     * @default 'nis2_reauth_state'
+     */
+    storageKey?: string;
+}
+
+export const REAUTH_STATE_KEY = 'nis2_reauth_state';
+
+const INITIAL_STATE: ReauthGateState = { required: false, failures: 0, lockedOutUntil: null };
+
+/**
+ * Step-up re-authentication: once `require()`d, the session stays gated until an attempt succeeds.
+ * Consecutive failures are counted and lock attempts out for `lockoutMs` after `maxAttempts`.
+ *
+ * @example
+ * ```ts
+ * const gate = new ReauthGate({ reauthenticate: () => promptPassword(), maxAttempts: 3 });
+ * gate.require();
+ * if (await gate.attempt()) resume();
+ * ```
+ */
+export class ReauthGate {
+    private pending: Promise<boolean> | null = null;
+    private memoryState: ReauthGateState = INITIAL_STATE;
+    private maxAttempts: number;
+    private lockoutMs: number;
+    private storageKey: string;
+
+    constructor(private options: ReauthGateOptions) {
+        this.maxAttempts = options.maxAttempts ?? 3;
+        this.lockoutMs = options.lockoutMs ?? 300000;
+        this.storageKey = options.storageKey ?? REAUTH_STATE_KEY;
+    }
+
+    getState(): ReauthGateState {
+        const state = this.read();
+        // An elapsed lockout starts a fresh round of attempts
+        if (state.lockedOutUntil !== null && state.lockedOutUntil <= Date.now()) {
+            return { ...state, failures: 0, lockedOutUntil: null };
+        }
+        return state;
+    }
+
+    isRequired() {
+        return this.getState().required;
+    }
+
+    attemptsRemaining() {
+        const state = this.getState();
+        return state.lockedOutUntil !== null ? 0 : Math.max(0, this.maxAttempts - state.failures);
+    }
+
+    /** Gates the session until the next successful attempt. */
+    require() {
+        this.write({ ...this.getState(), required: true });
+    }
+
+    /**
+     * Runs `reauthenticate` once. Concurrent calls share the attempt in progress.
+     * Resolves true on success.
+     */
+    attempt(): Promise<boolean> {
+        if (!this.pending) {
+            this.pending = this.run().finally(() => {
+                this.pending = null;
+            });
+        }
+        return this.pending;
+    }
+
+    /** Clears the requirement, failures and any lockout (logout, new session, re-authenticated elsewhere). */
+    reset() {
+        this.write(INITIAL_STATE);
+    }
+
+    private async run(): Promise<boolean> {
+        const before = this.getState();
+        if (before.lockedOutUntil !== null) {
+            this.options.onAttempt?.({
+                outcome: 'locked_out',
+                attempt: before.failures,
+                attemptsRemaining: 0,
+                lockedOutUntil: before.lockedOutUntil,
+            });
+            return false;
+        }
+
+        let outcome: ReauthOutcome;
+        try {
+            outcome = (await this.options.reauthenticate()) === false ? 'rejected' : 'success';
+        } catch {
+            outcome = 'error';
+        }
+
+        // Re-read: another tab may have counted failures while the prompt was open
+        const current = this.getState();
+        const attempt = current.failures + 1;
+
+        if (outcome === 'success') {
+            this.write(INITIAL_STATE);
+            this.options.onAttempt?.({ outcome, attempt, attemptsRemaining: this.maxAttempts, lockedOutUntil: null });
+            return true;
+        }
+
+        const lockedOutUntil = attempt >= this.maxAttempts ? Date.now() + this.lockoutMs : null;
+        this.write({ required: current.required, failures: attempt, lockedOutUntil });
+        this.options.onAttempt?.({
+            outcome,
+            attempt,
+            attemptsRemaining: lockedOutUntil !== null ? 0 : this.maxAttempts - attempt,
+            lockedOutUntil,
+        });
+        if (lockedOutUntil !== null) this.options.onLockout?.(lockedOutUntil);
+        return false;
+    }
+
+    private read(): ReauthGateState {
+        try {
+            const raw = window.localStorage.getItem(this.storageKey);
+            if (!raw) return INITIAL_STATE;
+            const parsed = JSON.parse(raw);
+            return {
+                required: parsed.required === true,
+                failures: Number(parsed.failures) || 0,
+                lockedOutUntil: Number.isFinite(parsed.lockedOutUntil) ? parsed.lockedOutUntil : null,
+            };
+        } catch {
+            return this.memoryState;
+        }
+    }
+
+    private write(state: ReauthGateState) {
+        this.memoryState = state;
+        try {
+            window.localStorage.setItem(this.storageKey, JSON.stringify(state));
+        } catch {
+            // Storage disabled: the state lives in memory only
+        }
+    }
+}
@@ -0,0 +1,242 @@
+import { TelemetryEvent } from './eventEnvelope';
+
+export type RedactionDetector = 'urlParams' | 'jwt' | 'bearer' | 'email' | 'iban' | 'pan';
+
+/**
+ * A custom redaction rule: either a regular expression whose matches are replaced,
+ * or a function returning the redacted string.
+ */
+export type RedactionRule =
+    | { name: string; pattern: RegExp; replacement?: string }
+    | { name: string; redact: (value: string, path: string) => string };
+
+export interface RedactionConfig {
+    /**
+     * Built-in detectors to run on every string value.
+     * @default all: ['urlParams', 'jwt', 'bearer', 'email', 'iban', 'pan']
+     */
+    detectors?: RedactionDetector[];
+    /** Additional rules, run after the built-in detectors. */
+    rules?: RedactionRule[];
+    /**
+     * Fields whose value is always replaced entirely. Matches a key name (case-insensitive)
+     * at any depth, or a dotted path such as `payload.user.email`.
+     * @default ['password', 'passwd', 'secret', 'token', 'accessToken', 'refreshToken', 'authorization', 'cookie', 'apiKey', 'cvv', 'cvc', 'pin']
+     */
+    denyFields?: string[];
+    /** Fields that are never scanned (same matching as `denyFields`). */
+    allowFields?: string[];
+    /**
+     * Query parameter names whose values the `urlParams` detector removes from URLs.
+     * Use `['*']` to strip every query parameter value.
+     */
+    sensitiveQueryParams?: string[];
+}
+
+/**
+ * Evidence of a redaction, recorded on the event for GDPR data-minimisation audits.
+ * Only the rule, the location and the number of matches are kept, never the original value.
+ */
+export interface RedactionRecord {
+    rule: string;
+    path: string;
+    count: number;
+}
+
+const DEFAULT_DETECTORS: RedactionDetector[] = ['urlParams', 'jwt', 'bearer', 'email', 'iban', 'pan'];
+
+const DEFAULT_DENY_FIELDS = [
+    'password', 'passwd', 'secret', 'token', 'accessToken', 'refreshToken',
+    'authorization', 'cookie', 'apiKey', 'cvv', 'cvc', 'pin',
+];
+
+const DEFAULT_SENSITIVE_QUERY_PARAMS = [
+    'token', 'access_token', 'id_token', 'refresh_token', 'code', 'state', 'session', 'sessionid',
+    'sid', 'key', 'api_key', 'apikey', 'secret', 'password', 'pwd', 'auth', 'signature', 'sig', 'email',
+];
+
+const mask = (rule: string) => `[REDACTED:${rule}]`;
+
+/** Luhn checksum, filters out random digit runs that are not card numbers. */
+export const isValidLuhn = (digits: string): boolean => {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return digits.length > 0 && sum % 10 === 0;
+};
+
+/** ISO 13616 mod-97 check. */
+export const isValidIban = (iban: string): boolean => {
+    const compact = iban.replace(/\s+/g, '').toUpperCase();
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) return false;
+    const rearranged = compact.slice(4) + compact.slice(0, 4);
+    let remainder = 0;
+    for (const char of rearranged) {
+        const value = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+        for (const digit of value) {
+            remainder = (remainder * 10 + Number(digit)) % 97;
+        }
+    }
+    return remainder === 1;
+};
+
+type Detector = (value: string, config: RedactionConfig) => { value: string; count: number };
+
+const replaceAll = (value: string, pattern: RegExp, replacer: (match: string, ...groups: string[]) => string | null) => {
+    let count = 0;
+    const result = value.replace(pattern, (match: string, ...groups: string[]) => {
+        const replaced = replacer(match, ...groups);
+        if (replaced === null) return match;
+        count++;
+        return replaced;
+    });
+    return { value: result, count };
+};
+
+/**
+ * Greedy patterns can swallow a trailing group ("DE89 3704 ... 00 EUR", a card number followed by a year).
+ * Redacts the longest prefix of the match that passes the checksum.
+ */
+const redactValidPrefix = (match: string, isValid: (candidate: string) => boolean, minLength: number, rule: string) => {
+    for (let end = match.length; end >= minLength; end--) {
+        const candidate = match.slice(0, end);
+        if (/[\s-]$/.test(candidate)) continue;
+        if (isValid(candidate)) return mask(rule) + match.slice(end);
+    }
+    return null;
+};
+
+const DETECTORS: Record<RedactionDetector, Detector> = {
+    urlParams: (value, config) => {
+        const names = (config.sensitiveQueryParams ?? DEFAULT_SENSITIVE_QUERY_PARAMS).map(name => name.toLowerCase());
+        return replaceAll(value, /([?&#;])([^=&#\s?]+)=([^&#\s]*)/g, (_match, separator, name, paramValue) => {
+            if (!paramValue || paramValue === mask('urlParams')) return null;
+            if (!names.includes('*') && !names.includes(name.toLowerCase())) return null;
+            return `${separator}${name}=${mask('urlParams')}`;
+        });
+    },
+    jwt: (value) =>
+        replaceAll(value, /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, () => mask('jwt')),
+    bearer: (value) => {
+        const bearer = replaceAll(value, /\bBearer\s+[A-Za-z0-9._~+/-]{8,}=*/gi, () => `Bearer ${mask('bearer')}`);
+        // Basic credentials are base64: require a digit, '+', '/' or padding so prose like "Basic authentication" survives
+        const basic = replaceAll(bearer.value, /\bBasic\s+(?=[A-Za-z0-9+/]*[0-9+/=])[A-Za-z0-9+/]{8,}={0,2}/g, () => `Basic ${mask('bearer')}`);
+        return { value: basic.value, count: bearer.count + basic.count };
+    },
+    email: (value) =>
+        replaceAll(value, /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, () => mask('email')),
+    iban: (value) =>
+        replaceAll(value, /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, (match) =>
+            redactValidPrefix(match, isValidIban, 15, 'iban')),
+    pan: (value) =>
+        // Card numbers start with 2-6; this also keeps epoch-millisecond timestamps out
+        replaceAll(value, /\b[2-6]\d(?:[ -]?\d){11,17}\b/g, (match) =>
+            redactValidPrefix(match, candidate => isValidLuhn(candidate.replace(/\D/g, '')), 13, 'pan')),
+};
+
+const fieldMatches = (patterns: string[], key: string, path: string) => {
+    const lowerKey = key.toLowerCase();
+    return patterns.some(pattern => pattern.includes('.') ? pattern === path : pattern.toLowerCase() === lowerKey);
+};
+
+const hasToJSON = (value: object): value is { toJSON: () => unknown } =>
+    typeof (value as { toJSON?: unknown }).toJSON === 'function';
+
+/**
+ * Redacts a value tree. Returns a redacted copy and the list of applied redactions.
+ */
+export const redactValue = (
+    value: unknown,
+    config: RedactionConfig = {},
+    path = ''
+): { value: unknown; redactions: RedactionRecord[] } => {
+    const redactions: RedactionRecord[] = [];
+    const detectors = (config.detectors ?? DEFAULT_DETECTORS).map(name => [name, DETECTORS[name]] as const);
+    const denyFields = config.denyFields ?? DEFAULT_DENY_FIELDS;
+    const allowFields = config.allowFields ?? [];
+    // Objects on the path from the root: only a reference back to one of them is circular
+    const ancestors = new WeakSet<object>();
+
+    const record = (rule: string, at: string, count: number) => {
+        if (count > 0) redactions.push({ rule, path: at, count });
+    };
+
+    const scanString = (input: string, at: string) => {
+        let output = input;
+        for (const [name, detect] of detectors) {
+            const result = detect(output, config);
+            output = result.value;
+            record(name, at, result.count);
+        }
+        for (const rule of config.rules ?? []) {
+            if ('pattern' in rule) {
+                const pattern = new RegExp(rule.pattern.source, rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`);
+                const result = replaceAll(output, pattern, () => rule.replacement ?? mask(rule.name));
+                output = result.value;
+                record(rule.name, at, result.count);
+            } else {
+                const redacted = rule.redact(output, at);
+                record(rule.name, at, redacted !== output ? 1 : 0);
+                output = redacted;
+            }
+        }
+        return output;
+    };
+
+    const walk = (node: unknown, at: string): unknown => {
+        if (typeof node === 'string') return scanString(node, at);
+        if (typeof node !== 'object' || node === null) return node;
+        if (ancestors.has(node)) return '[Circular]';
+        ancestors.add(node);
+        const output = walkChildren(node, at);
+        ancestors.delete(node);
+        return output;
+    };
+
+    // Mirrors what JSON.stringify sends: toJSON() when defined, else the own enumerable fields of
+    // any object (class instances and null-prototype objects included)
+    const walkChildren = (node: object, at: string): unknown => {
+        if (hasToJSON(node)) return walk(node.toJSON(), at);
+        if (Array.isArray(node)) return node.map((item, index) => walk(item, `${at}[${index}]`));
+
+        const output: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(node)) {
+            const childPath = at ? `${at}.${key}` : key;
+            if (fieldMatches(allowFields, key, childPath)) {
+                output[key] = child;
+            } else if (fieldMatches(denyFields, key, childPath) && child !== undefined && child !== null) {
+                output[key] = mask('field');
+                record('denyField', childPath, 1);
+            } else {
+                output[key] = walk(child, childPath);
+            }
+        }
+        return output;
+    };
+
+    return { value: walk(value, path), redactions };
+};
+
+/**
+ * Redacts the payload and page URL of an event and records what was removed in `event.redactions`.
+ * Runs before integrity sealing and before any transport.
+ */
+export const redactEvent = (event: TelemetryEvent, config: RedactionConfig = {}): TelemetryEvent => {
+    const payload = redactValue(event.payload, config, 'payload');
+    const url = redactValue(event.url, config, 'url');
+    const redactions = [...url.redactions, ...payload.redactions];
+
+    const redacted: TelemetryEvent = {
+        ...event,
+        url: url.value as string,
+        payload: payload.value as Record<string, any>,
+    };
+    if (redactions.length > 0) redacted.redactions = redactions;
+    return redacted;
+};
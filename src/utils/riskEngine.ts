@@ -0,0 +1,268 @@
+import { Nis2Severity } from './eventEnvelope';
+import { AutomationAssessment } from './automationSignals';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export type RiskAction = 'warn' | 'reauth' | 'lock' | 'report_critical';
+
+export interface RiskSignalInput {
+    /** Unique within its source; setting the same id again replaces the signal. */
+    id: string;
+    /** Points added to the score. */
+    weight: number;
+    /** Why the signal fired, in plain words. */
+    detail?: string;
+    /** Forget the signal after this long. Defaults to the engine's `signalTtlMs`; 0 keeps it until cleared. */
+    ttlMs?: number;
+}
+
+export interface RiskSignal extends RiskSignalInput {
+    /** Source that raised it: `incident`, the name of a `RiskSignalSource`, or `app`. */
+    source: string;
+    /** Epoch milliseconds. */
+    at: number;
+    /** Epoch milliseconds, or null when the signal does not expire. */
+    expiresAt: number | null;
+}
+
+/**
+ * Pluggable signal source. `start` receives `emit`, which replaces every signal of this
+ * source with the given list, and returns a function that stops the source.
+ */
+export interface RiskSignalSource {
+    name: string;
+    start: (emit: (signals: RiskSignalInput[]) => void) => () => void;
+}
+
+export interface RiskPolicy {
+    /** Shown in `triggered` and in `RISK_POLICY_TRIGGERED`. Defaults to `<actions>@<threshold>`. */
+    name?: string;
+    /** Score (0-100) at which the policy fires. */
+    threshold: number;
+    action: RiskAction | RiskAction[];
+}
+
+export interface RiskAssessment {
+    /** 0-100: the sum of active signal weights, capped. */
+    score: number;
+    level: RiskLevel;
+    signals: RiskSignal[];
+    /** Names of the policies whose threshold the score currently meets. */
+    triggered: string[];
+}
+
+export interface RiskEngineOptions {
+    policies?: RiskPolicy[];
+    /**
+     * Weight per incident type fed through `observeIncident`, merged over `DEFAULT_RISK_WEIGHTS`.
+     * Set a type to 0 to ignore it.
+     */
+    incidentWeights?: Record<string, number>;
+    /** @default 1800000 (30 minutes) */
+    signalTtlMs?: number;
+    onChange?: (assessment: RiskAssessment) => void;
+    /**
+     * Called once each time the score rises to a policy's threshold, synchronously from the
+     * update that crossed it: defer side effects that may report incidents or set state.
+     */
+    onPolicy?: (policy: RiskPolicy, actions: RiskAction[], assessment: RiskAssessment) => void;
+    debug?: boolean;
+}
+
+/** Reported for each policy that fires. Never scored, whatever `incidentWeights` says. */
+export const RISK_POLICY_EVENT_TYPE = 'RISK_POLICY_TRIGGERED';
+
+/**
+ * Weight of each incident type the provider reports. INFO events and `RISK_POLICY_TRIGGERED`
+ * are never weighted, so acting on a policy cannot raise the score.
+ */
+export const DEFAULT_RISK_WEIGHTS: Record<string, number> = {
+    SESSION_COMPROMISED: 100,
+    DOM_TAMPERING: 50,
+    FRAMED_CONTEXT: 40,
+    REAUTH_LOCKOUT: 40,
+    UNAUTHORIZED_SCRIPT: 30,
+    INSECURE_CONNECTION: 25,
+    NETWORK_POLICY_VIOLATION: 20,
+    TABNABBING_RISK: 15,
+    REAUTH_FAILED: 15,
+    CSP_VIOLATION: 10,
+    OUTDATED_BROWSER: 10,
+    SESSION_UNLOCK_FAILED: 10,
+    CLOCK_SKEW_DETECTED: 10,
+};
+
+const DEFAULT_SIGNAL_TTL_MS = 30 * 60000;
+const PRUNE_INTERVAL_MS = 10000;
+
+export const riskLevel = (score: number): RiskLevel =>
+    score >= 75 ? 'critical' : score >= 50 ? 'high' : score >= 25 ? 'medium' : 'low';
+
+const toActions = (policy: RiskPolicy): RiskAction[] =>
+    Array.isArray(policy.action) ? policy.action : [policy.action];
+
+export const policyName = (policy: RiskPolicy) =>
+    policy.name ?? `${toActions(policy).join('+')}@${policy.threshold}`;
+
+/** Device fingerprint drift as a signal: nothing at 90% similarity or above, up to 40 points. */
+export const riskFromFingerprint = (similarity: number): RiskSignalInput[] =>
+    similarity >= 0.9 ? [] : [{
+        id: 'fingerprint_drift',
+        weight: Math.round((1 - similarity) * 40),
+        detail: `Device fingerprint is ${Math.round(similarity * 100)}% similar to the saved one`,
+    }];
+
+/** Automation indicators as a signal, at half their score: a heuristic is never enough alone. */
+export const riskFromAutomation = (assessment: AutomationAssessment): RiskSignalInput[] =>
+    assessment.score === 0 ? [] : [{
+        id: 'automation',
+        weight: Math.round(assessment.score / 2),
+        detail: assessment.signals.map(signal => signal.id).join(', '),
+    }];
+
+/**
+ * Aggregates weighted signals from incidents, pluggable sources and the app into one
+ * session risk score, and fires declarative policies when the score crosses their threshold.
+ * A policy fires once per crossing and re-arms when the score drops back below it.
+ */
+export class RiskEngine {
+    private signals = new Map<string, RiskSignal>();
+    private policies: RiskPolicy[];
+    private fired = new Set<RiskPolicy>();
+    private weights: Record<string, number>;
+    private signalTtlMs: number;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private stopSources: (() => void)[] = [];
+
+    constructor(private options: RiskEngineOptions = {}) {
+        this.policies = [...(options.policies ?? [])];
+        this.weights = { ...DEFAULT_RISK_WEIGHTS, ...options.incidentWeights };
+        this.signalTtlMs = options.signalTtlMs ?? DEFAULT_SIGNAL_TTL_MS;
+    }
+
+    /** Starts pruning expired signals and the given sources. */
+    start(sources: RiskSignalSource[] = []) {
+        this.stop();
+        this.timer = setInterval(() => {
+            if (this.prune()) this.update();
+        }, PRUNE_INTERVAL_MS);
+        this.stopSources = sources.map(source => source.start(signals => this.replaceSource(source.name, signals)));
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        this.stopSources.forEach(stopSource => stopSource());
+        this.stopSources = [];
+    }
+
+    setSignal(source: string, input: RiskSignalInput) {
+        this.put(source, input);
+        this.update();
+    }
+
+    clearSignal(source: string, id: string) {
+        if (this.signals.delete(`${source}:${id}`)) this.update();
+    }
+
+    /** Replaces every signal of `source`; an empty list clears it. */
+    replaceSource(source: string, inputs: RiskSignalInput[]) {
+        this.removeSource(source);
+        inputs.forEach(input => this.put(source, input));
+        this.update();
+    }
+
+    clearSource(source: string) {
+        if (this.removeSource(source)) this.update();
+    }
+
+    /**
+     * Turns a reported incident into a signal, one per type: a repeat refreshes it rather than
+     * adding up, so a burst of CSP reports weighs the same as one.
+     */
+    observeIncident(type: string, severity: Nis2Severity) {
+        // Acting on a policy must never feed back into the score
+        if (type === RISK_POLICY_EVENT_TYPE) return;
+        const weight = this.weights[type];
+        if (!weight || severity === 'INFO') return;
+        this.setSignal('incident', { id: type, weight, detail: `${type} reported` });
+    }
+
+    /** Replaces the policies. One that was already met (same name and threshold) does not fire again. */
+    setPolicies(policies: RiskPolicy[]) {
+        const met = new Set([...this.fired].map(policy => `${policyName(policy)}@${policy.threshold}`));
+        this.policies = [...policies];
+        this.fired = new Set(this.policies.filter(policy => met.has(`${policyName(policy)}@${policy.threshold}`)));
+        this.update();
+    }
+
+    /** Replaces the incident weights for incidents observed from now on; current signals are kept. */
+    setIncidentWeights(weights: Record<string, number> = {}) {
+        this.weights = { ...DEFAULT_RISK_WEIGHTS, ...weights };
+    }
+
+    /** Changes the default TTL, also for current signals that did not set their own `ttlMs`. */
+    setSignalTtl(signalTtlMs: number) {
+        this.signalTtlMs = signalTtlMs;
+        this.signals.forEach(signal => {
+            if (signal.ttlMs === undefined) signal.expiresAt = signalTtlMs > 0 ? signal.at + signalTtlMs : null;
+        });
+        if (this.prune()) this.update();
+    }
+
+    setDebug(debug: boolean) {
+        this.options = { ...this.options, debug };
+    }
+
+    getAssessment(): RiskAssessment {
+        this.prune();
+        const signals = [...this.signals.values()];
+        const score = Math.min(100, signals.reduce((sum, signal) => sum + signal.weight, 0));
+        return {
+            score,
+            level: riskLevel(score),
+            signals,
+            triggered: this.policies.filter(policy => score >= policy.threshold).map(policyName),
+        };
+    }
+
+    private put(source: string, input: RiskSignalInput) {
+        const at = Date.now();
+        const ttlMs = input.ttlMs ?? this.signalTtlMs;
+        this.signals.set(`${source}:${input.id}`, { ...input, source, at, expiresAt: ttlMs > 0 ? at + ttlMs : null });
+    }
+
+    private removeSource(source: string) {
+        let removed = false;
+        this.signals.forEach((signal, key) => {
+            if (signal.source === source) removed = this.signals.delete(key);
+        });
+        return removed;
+    }
+
+    private prune() {
+        const now = Date.now();
+        let removed = false;
+        this.signals.forEach((signal, key) => {
+            if (signal.expiresAt !== null && signal.expiresAt <= now) removed = this.signals.delete(key);
+        });
+        return removed;
+    }
+
+    private update() {
+        const assessment = this.getAssessment();
+        this.options.onChange?.(assessment);
+
+        // Lowest threshold first, so a jump straight to critical still warns before it locks
+        [...this.policies].sort((a, b) => a.threshold - b.threshold).forEach(policy => {
+            if (assessment.score < policy.threshold) {
+                this.fired.delete(policy);
+                return;
+            }
+            if (this.fired.has(policy)) return;
+            this.fired.add(policy);
+            if (this.options.debug) console.log(`🛡️ [NIS2 Guard] Risk policy ${policyName(policy)} triggered at score ${assessment.score}`);
+            this.options.onPolicy?.(policy, toActions(policy), assessment);
+        });
+    }
+}
@@ -0,0 +1,185 @@
+import { matchesOrigin } from './domIntegrity';
+
+/**
+ * An authorised script source: an origin (`https://js.stripe.com`, `https://*.stripe.com`),
+ * a URL prefix matched on whole path segments (`https://cdn.example/vendor` covers
+ * `https://cdn.example/vendor/a.js` but not `https://cdn.example/vendor-evil.js`),
+ * or an exact URL pinned to an SRI hash.
+ */
+export type ScriptManifestEntry = string | {
+    url: string;
+    /** Required `integrity` hash, e.g. `sha384-...`. The script tag must carry it. */
+    integrity?: string;
+};
+
+export type UnauthorizedScriptReason = 'not_in_manifest' | 'integrity_missing' | 'integrity_mismatch';
+
+export interface ScriptInventoryEntry {
+    /** Script URL without query and fragment. */
+    url: string;
+    origin: string;
+    /** The `<script>` tag has an `integrity` attribute (Subresource Integrity). */
+    hasIntegrity: boolean;
+    integrity?: string;
+    authorized: boolean;
+    reason?: UnauthorizedScriptReason;
+    /** Epoch milliseconds at which the script was first loaded or seen. */
+    firstSeen: number;
+    /**
+     * No `<script>` tag for it is in the document: it was removed after loading
+     * (a common skimmer trick) or loaded another way (`import()`, workers).
+     */
+    detached: boolean;
+}
+
+export interface ScriptInventoryReport {
+    scripts: ScriptInventoryEntry[];
+    total: number;
+    unauthorized: number;
+    withoutIntegrity: number;
+    /** Inline `<script>` blocks in the document (JSON and import maps excepted). */
+    inlineScripts: number;
+    /** Epoch milliseconds. */
+    generatedAt: number;
+}
+
+export interface ScriptInventoryOptions {
+    manifest?: ScriptManifestEntry[];
+    /**
+     * Scripts from the page's own origin are authorised without a manifest entry.
+     * @default true
+     */
+    allowSameOrigin?: boolean;
+    /** Called once for each newly seen script that is not authorised, and when a known one stops being authorised. */
+    onUnauthorized?: (entry: ScriptInventoryEntry) => void;
+    debug?: boolean;
+}
+
+const ORIGIN_PATTERN = /^https?:\/\/[^/]+$/;
+
+/** `https://cdn.x/lib` covers `https://cdn.x/lib` and `https://cdn.x/lib/a.js`, not `https://cdn.x/library.js`. */
+const matchesPrefix = (url: string, prefix: string) =>
+    url === prefix || url.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`);
+
+const parseUrl = (value: string) => {
+    try {
+        const url = new URL(value, window.location.href);
+        return { url: `${url.origin}${url.pathname}`, origin: url.origin };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Inventory of the scripts loaded by the page, checked against a manifest of authorised sources
+ * (PCI DSS 4.0 req. 6.4.3, NIS2 supply-chain security).
+ *
+ * Scripts are collected from `<script src>` tags and from Resource Timing, so scripts whose tag
+ * was removed after loading are still listed.
+ */
+export class ScriptInventory {
+    private entries = new Map<string, ScriptInventoryEntry>();
+
+    constructor(private options: ScriptInventoryOptions = {}) { }
+
+    /** Collects scripts loaded since the last scan. Returns true when the inventory changed. */
+    scan(): boolean {
+        let changed = false;
+        const inDocument = new Set<string>();
+
+        const tags = new Map<string, ScriptInventoryEntry>();
+        Array.from(document.scripts).forEach(script => {
+            if (!script.src) return;
+            const parsed = parseUrl(script.src);
+            if (!parsed) return;
+            const integrity = script.integrity || script.getAttribute('integrity') || undefined;
+            const firstSeen = this.entries.get(parsed.url)?.firstSeen ?? Date.now();
+            const candidate = this.evaluate({ ...parsed, integrity, firstSeen, detached: false });
+            const current = tags.get(parsed.url);
+            // Several tags may load the same script: the least trusted one counts
+            if (!current || (current.authorized && !candidate.authorized)) tags.set(parsed.url, candidate);
+        });
+
+        tags.forEach((entry, url) => {
+            inDocument.add(url);
+            const existing = this.entries.get(url);
+            // A later tag for the same script may add (or drop) SRI
+            if (existing && !existing.detached && existing.integrity === entry.integrity) return;
+            this.add(entry, existing);
+            changed = true;
+        });
+
+        this.resourceEntries().forEach(timing => {
+            const parsed = parseUrl(timing.name);
+            if (!parsed || inDocument.has(parsed.url)) return;
+            const existing = this.entries.get(parsed.url);
+            if (existing) {
+                if (!existing.detached) {
+                    existing.detached = true;
+                    changed = true;
+                }
+                return;
+            }
+            const firstSeen = Math.round(performance.timeOrigin + timing.startTime);
+            this.add(this.evaluate({ ...parsed, firstSeen, detached: true }));
+            changed = true;
+        });
+
+        return changed;
+    }
+
+    getEntries(): ScriptInventoryEntry[] {
+        return Array.from(this.entries.values()).sort((a, b) => a.firstSeen - b.firstSeen);
+    }
+
+    getReport(): ScriptInventoryReport {
+        const scripts = this.getEntries();
+        const inlineScripts = Array.from(document.scripts)
+            .filter(script => !script.src && !/json|importmap/.test(script.type)).length;
+        return {
+            scripts,
+            total: scripts.length,
+            unauthorized: scripts.filter(entry => !entry.authorized).length,
+            withoutIntegrity: scripts.filter(entry => !entry.hasIntegrity).length,
+            inlineScripts,
+            generatedAt: Date.now(),
+        };
+    }
+
+    /** Stores the entry and reports it if it is unauthorised, unless it already was. */
+    private add(entry: ScriptInventoryEntry, previous?: ScriptInventoryEntry) {
+        this.entries.set(entry.url, entry);
+        if (entry.authorized || (previous && !previous.authorized)) return;
+        if (this.options.debug) {
+            console.log(`🛡️ [NIS2 Guard] Unauthorised script (${entry.reason}): ${entry.url}`);
+        }
+        this.options.onUnauthorized?.(entry);
+    }
+
+    private evaluate(entry: Omit<ScriptInventoryEntry, 'authorized' | 'reason' | 'hasIntegrity'>): ScriptInventoryEntry {
+        const { manifest = [], allowSameOrigin = true } = this.options;
+        const base = { ...entry, hasIntegrity: !!entry.integrity };
+        if (allowSameOrigin && entry.origin === window.location.origin) return { ...base, authorized: true };
+
+        let reason: UnauthorizedScriptReason = 'not_in_manifest';
+        for (const item of manifest) {
+            const source = typeof item === 'string' ? item : item.url;
+            const matches = ORIGIN_PATTERN.test(source)
+                ? matchesOrigin(entry.origin, source)
+                : matchesPrefix(entry.url, source);
+            if (!matches) continue;
+
+            const required = typeof item === 'string' ? undefined : item.integrity;
+            // The attribute may list several hashes; any of them may be the pinned one
+            if (!required || entry.integrity?.split(/\s+/).includes(required)) return { ...base, authorized: true };
+            reason = entry.integrity ? 'integrity_mismatch' : 'integrity_missing';
+        }
+        return { ...base, authorized: false, reason };
+    }
+
+    private resourceEntries(): PerformanceResourceTiming[] {
+        if (typeof performance === 'undefined' || typeof performance.getEntriesByType !== 'function') return [];
+        return (performance.getEntriesByType('resource') as PerformanceResourceTiming[])
+            .filter(timing => timing.initiatorType === 'script');
+    }
+}
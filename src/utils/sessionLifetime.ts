@@ -0,0 +1,325 @@
+/**
+ * Wall-clock anchors of the current session, persisted so they survive reloads.
+ */
+export interface SessionClock {
+    /** When the session started (login), epoch milliseconds. */
+    startedAt: number;
+    /** When the user last authenticated, epoch milliseconds. */
+    authenticatedAt: number;
+    /** The stored record could not be read: both anchors are 0, so every deadline has passed. */
+    unreadable?: boolean;
+}
+
+export interface SessionClockStorage {
+    /** Resolves null when no clock is stored. Rejects when a record exists but cannot be read. */
+    load(): Promise<SessionClock | null>;
+    save(clock: SessionClock): Promise<void>;
+    clear(): void;
+    /** Notifies about changes made by other tabs. Returns the unsubscribe function. */
+    subscribe?(listener: () => void): () => void;
+}
+
+/** Encrypts the stored session clock. Its key must outlive the page, or a reload cannot read the clock. */
+export interface ClockCipher {
+    encrypt(text: string): Promise<{ data: string; iv: string }>;
+    decrypt(data: string, iv: string): Promise<string | null>;
+}
+
+export const SESSION_CLOCK_KEY = 'nis2_session_clock';
+export const SESSION_CLOCK_CIPHER_KEY = 'nis2_session_clock_key';
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array) =>
+    btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string) =>
+    Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/**
+ * AES-GCM cipher for the session clock whose key is kept in localStorage, so every tab and
+ * every reload reads the same clock (`CryptoService` keys only live as long as the page).
+ * It keeps a corrupted or hand-edited record from being accepted; the backend stays the authority.
+ */
+export const createClockCipher = (storageKey = SESSION_CLOCK_CIPHER_KEY): ClockCipher => {
+    let memoryKey: Promise<CryptoKey> | null = null;
+
+    const generate = async () => {
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+        try {
+            window.localStorage.setItem(storageKey, toBase64(await crypto.subtle.exportKey('raw', key)));
+        } catch {
+            // Storage disabled: the key lives as long as the page
+        }
+        return key;
+    };
+
+    // Read on every use: another tab may have created the key after this one started
+    const getKey = (): Promise<CryptoKey> => {
+        let stored: string | null = null;
+        try {
+            stored = window.localStorage.getItem(storageKey);
+        } catch {
+            // Storage disabled
+        }
+        if (stored) return crypto.subtle.importKey('raw', fromBase64(stored), 'AES-GCM', false, ['encrypt', 'decrypt']);
+        if (!memoryKey) memoryKey = generate();
+        return memoryKey;
+    };
+
+    return {
+        async encrypt(text) {
+            const iv = crypto.getRandomValues(new Uint8Array(12));
+            const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getKey(), new TextEncoder().encode(text));
+            return { data: toBase64(data), iv: toBase64(iv) };
+        },
+        async decrypt(data, iv) {
+            try {
+                const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, await getKey(), fromBase64(data));
+                return new TextDecoder().decode(plain);
+            } catch {
+                return null;
+            }
+        },
+    };
+};
+
+/**
+ * Keeps the session clock AES-GCM encrypted in localStorage, shared by all tabs.
+ * A record that cannot be decrypted (corrupted, or the encryption key changed) is rejected,
+ * so the session fails closed instead of silently starting a new clock.
+ */
+export const createSecureClockStorage = (cipher: ClockCipher = createClockCipher(), key = SESSION_CLOCK_KEY): SessionClockStorage => ({
+    async load() {
+        let raw: string | null;
+        try {
+            raw = window.localStorage.getItem(key);
+        } catch {
+            // Storage disabled: the clock lives in memory only
+            return null;
+        }
+        if (!raw) return null;
+
+        let clock: Partial<SessionClock> | null = null;
+        try {
+            const { data, iv } = JSON.parse(raw);
+            const decrypted = await cipher.decrypt(data, iv);
+            clock = decrypted ? JSON.parse(decrypted) : null;
+        } catch {
+            clock = null;
+        }
+        if (!clock || !Number.isFinite(clock.startedAt) || !Number.isFinite(clock.authenticatedAt)) {
+            throw new Error('Stored session clock cannot be read');
+        }
+        return clock as SessionClock;
+    },
+    async save(clock) {
+        try {
+            window.localStorage.setItem(key, JSON.stringify(await cipher.encrypt(JSON.stringify(clock))));
+        } catch {
+            // Storage disabled: the clock lives in memory only
+        }
+    },
+    clear() {
+        try {
+            window.localStorage.removeItem(key);
+        } catch {
+            // Storage disabled
+        }
+    },
+    subscribe(listener) {
+        const onStorage = (event: StorageEvent) => {
+            if (event.key === key) listener();
+        };
+        window.addEventListener('storage', onStorage);
+        return () => window.removeEventListener('storage', onStorage);
+    },
+});
+
+export interface SessionLifetimeOptions {
+    /** Hard cap on the session length, however active the user is. */
+    maxSessionMs?: number;
+    /** Maximum time between two authentications. */
+    reauthIntervalMs?: number;
+    storage: SessionClockStorage;
+    onExpired: (clock: SessionClock) => void;
+    onReauthRequired: (clock: SessionClock) => void;
+    /** Another tab restarted, re-authenticated or cleared the session. */
+    onClockChange?: (clock: SessionClock | null) => void;
+    debug?: boolean;
+}
+
+/** Longest sleep between checks, so throttled timers and system sleep cannot postpone a deadline for long. */
+const MAX_CHECK_INTERVAL_MS = 30000;
+
+/**
+ * Enforces the absolute session lifetime and the re-authentication interval against the wall clock.
+ *
+ * Deadlines are absolute timestamps derived from the persisted clock, so they survive reloads
+ * and hold across tabs. Each deadline fires its callback once, until `restart` or `confirmReauth`.
+ *
+ * Only a first load, with no stored clock, starts a new one. A stored clock that cannot be read
+ * fails closed: every deadline is treated as passed until `restart`.
+ */
+export class SessionLifetime {
+    private clock: SessionClock | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private expiredFired = false;
+    private reauthFired = false;
+    private running = false;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(private options: SessionLifetimeOptions) { }
+
+    async start() {
+        this.running = true;
+        this.clock = await this.loadClock();
+        if (!this.running) return;
+
+        // Background tabs throttle timers: re-check as soon as the tab is visible again
+        document.addEventListener('visibilitychange', this.check);
+        this.unsubscribe = this.options.storage.subscribe?.(() => this.reload()) ?? null;
+
+        if (this.clock) {
+            this.check();
+        } else {
+            await this.restart();
+        }
+    }
+
+    stop() {
+        this.running = false;
+        this.clearTimer();
+        document.removeEventListener('visibilitychange', this.check);
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    /** Starts a new session (call after login). */
+    async restart(now = Date.now()) {
+        this.clock = { startedAt: now, authenticatedAt: now };
+        this.expiredFired = false;
+        this.reauthFired = false;
+        await this.options.storage.save(this.clock);
+        if (this.options.debug) {
+            console.log('🛡️ [NIS2 Guard] Session clock started');
+        }
+        this.check();
+    }
+
+    /** Records a successful re-authentication and restarts the re-authentication interval. */
+    async confirmReauth(now = Date.now()) {
+        if (!this.clock) return this.restart(now);
+        this.clock = { ...this.clock, authenticatedAt: now };
+        this.reauthFired = false;
+        await this.options.storage.save(this.clock);
+        this.check();
+    }
+
+    /**
+     * Moves both anchors along with a wall-clock change (`skewMs` < 0 when the clock was set back),
+     * so changing the system clock does not extend the session. Every tab sees the change:
+     * only one should `persist` the shifted clock, the others pick it up from storage.
+     */
+    async adjustClock(skewMs: number, persist = true) {
+        if (!this.clock || this.clock.unreadable) return;
+        this.clock = {
+            startedAt: this.clock.startedAt + skewMs,
+            authenticatedAt: this.clock.authenticatedAt + skewMs,
+        };
+        if (persist) await this.options.storage.save(this.clock);
+        this.check();
+    }
+
+    /** Forgets the session (call on logout). Nothing is enforced until the next `restart`. */
+    clear() {
+        this.clock = null;
+        this.clearTimer();
+        this.options.storage.clear();
+    }
+
+    isExpired() {
+        return this.expiredFired;
+    }
+
+    isReauthRequired() {
+        return this.reauthFired;
+    }
+
+    getClock(): SessionClock | null {
+        return this.clock ? { ...this.clock } : null;
+    }
+
+    /** Epoch milliseconds of the absolute expiry, or null without `maxSessionMs`. */
+    getExpiresAt(): number | null {
+        return this.clock && this.options.maxSessionMs ? this.clock.startedAt + this.options.maxSessionMs : null;
+    }
+
+    /** Epoch milliseconds at which re-authentication is due, or null without `reauthIntervalMs`. */
+    getReauthDueAt(): number | null {
+        return this.clock && this.options.reauthIntervalMs
+            ? this.clock.authenticatedAt + this.options.reauthIntervalMs
+            : null;
+    }
+
+    /** Picks up a clock restarted, re-authenticated or cleared in another tab. */
+    private async reload() {
+        const previous = this.clock;
+        const clock = await this.loadClock();
+        this.clock = clock;
+        if (!clock) {
+            this.clearTimer();
+            this.expiredFired = false;
+            this.reauthFired = false;
+        } else if (!previous || clock.startedAt > previous.startedAt) {
+            this.expiredFired = false;
+            this.reauthFired = false;
+        } else if (clock.authenticatedAt > previous.authenticatedAt) {
+            // Anchors that moved back are a clock adjustment, not a new session or authentication
+            this.reauthFired = false;
+        }
+        this.options.onClockChange?.(clock ? { ...clock } : null);
+        this.check();
+    }
+
+    private async loadClock(): Promise<SessionClock | null> {
+        try {
+            return await this.options.storage.load();
+        } catch (error) {
+            // Deleting or corrupting the record must not reset the hard cap
+            if (this.options.debug) console.warn('🛡️ [NIS2 Guard] Session clock unreadable, failing closed', error);
+            return { startedAt: 0, authenticatedAt: 0, unreadable: true };
+        }
+    }
+
+    private clearTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private check = () => {
+        this.clearTimer();
+        const clock = this.clock;
+        if (!this.running || !clock) return;
+        const now = Date.now();
+
+        const expiresAt = this.getExpiresAt();
+        if (expiresAt !== null && now >= expiresAt && !this.expiredFired) {
+            this.expiredFired = true;
+            if (this.options.debug) console.log('🛡️ [NIS2 Guard] Maximum session lifetime reached');
+            this.options.onExpired({ ...clock });
+        }
+
+        const reauthDueAt = this.getReauthDueAt();
+        if (reauthDueAt !== null && now >= reauthDueAt && !this.reauthFired && !this.expiredFired) {
+            this.reauthFired = true;
+            if (this.options.debug) console.log('🛡️ [NIS2 Guard] Re-authentication required');
+            this.options.onReauthRequired({ ...clock });
+        }
+
+        const pending = [expiresAt, reauthDueAt].filter((at): at is number => at !== null && at > now);
+        if (pending.length === 0) return;
+        const delay = Math.min(Math.min(...pending) - now, MAX_CHECK_INTERVAL_MS);
+        this.timer = setTimeout(this.check, delay);
+    };
+}
@@ -0,0 +1,136 @@
+/**
+ * Where the session is in its lifecycle, from most to least usable:
+ * `active` → `warning` → `idle` → `locked` → `expired` / `compromised`.
+ *
+ * `locked` covers both an explicit lock and a pending re-authentication.
+ * `expired` and `compromised` are terminal until `restartSession()`.
+ */
+export type SessionStatus = 'active' | 'warning' | 'idle' | 'locked' | 'expired' | 'compromised';
+
+/**
+ * Why the session changed.
+ * - `synced`: another tab restarted, re-authenticated or cleared the session clock
+ * - `manual`: `setIdle()` called by the application
+ */
+export type SessionTransitionReason =
+    | 'activity'
+    | 'warning'
+    | 'idle_timeout'
+    | 'locked'
+    | 'unlocked'
+    | 'reauth_required'
+    | 'reauthenticated'
+    | 'session_expired'
+    | 'compromised'
+    | 'restarted'
+    | 'synced'
+    | 'manual';
+
+export interface SessionTransition {
+    from: SessionStatus;
+    to: SessionStatus;
+    reason: SessionTransitionReason;
+    /** Free-form context, e.g. the reason passed to `markCompromised`. */
+    detail?: string;
+    /** Epoch milliseconds. */
+    at: number;
+}
+
+/**
+ * Represents the current security state of the session.
+ * `status` is the single source of truth; the flags are kept for convenience and compatibility.
+ */
+export interface Nis2SecurityState {
+    status: SessionStatus;
+    isIdle: boolean;
+    /** The idle timeout is less than `warningSeconds` away. */
+    isWarning: boolean;
+    /** Set with `markCompromised`; only `restartSession()` clears it. */
+    isCompromised: boolean;
+    /** Set with `setLocked`; shared with the other tabs. */
+    isLocked: boolean;
+    /** `maxSessionMinutes` has been reached. */
+    isExpired: boolean;
+    /**
+     * The user must authenticate again: `reauthIntervalMinutes` has elapsed, or the session went idle
+     * with `reauth` configured. Cleared by `confirmReauth()` or a successful `useReauth().reauthenticate()`.
+     */
+    reauthRequired: boolean;
+    lastActive: number;
+}
+
+export type SessionFlags = Omit<Nis2SecurityState, 'status'>;
+
+export interface SessionMachineState {
+    security: Nis2SecurityState;
+    /** Status changes, oldest first, capped at `MAX_SESSION_HISTORY`. */
+    history: SessionTransition[];
+}
+
+export interface SessionAction {
+    reason: SessionTransitionReason;
+    patch: Partial<SessionFlags>;
+    detail?: string;
+    at?: number;
+}
+
+export const MAX_SESSION_HISTORY = 50;
+
+/** Reasons allowed to leave a terminal status. */
+const TERMINAL_EXITS: Partial<Record<SessionStatus, SessionTransitionReason[]>> = {
+    compromised: ['restarted'],
+    expired: ['restarted', 'synced'],
+};
+
+export const deriveSessionStatus = (flags: SessionFlags): SessionStatus => {
+    if (flags.isCompromised) return 'compromised';
+    if (flags.isExpired) return 'expired';
+    if (flags.isLocked || flags.reauthRequired) return 'locked';
+    if (flags.isIdle) return 'idle';
+    if (flags.isWarning) return 'warning';
+    return 'active';
+};
+
+export const createSessionState = (now = Date.now()): SessionMachineState => ({
+    security: {
+        status: 'active',
+        isIdle: false,
+        isWarning: false,
+        isCompromised: false,
+        isLocked: false,
+        isExpired: false,
+        reauthRequired: false,
+        lastActive: now,
+    },
+    history: [],
+});
+
+/**
+ * Applies a change to the session flags and records the status transition it causes, if any.
+ * A terminal status (`compromised`, `expired`) keeps its flag unless the reason is allowed to leave it.
+ */
+export const sessionReducer = (state: SessionMachineState, action: SessionAction): SessionMachineState => {
+    const previous = state.security;
+    const patch = { ...action.patch };
+    const exits = TERMINAL_EXITS[previous.status];
+    if (exits && !exits.includes(action.reason)) {
+        if (previous.status === 'compromised') delete patch.isCompromised;
+        if (previous.status === 'expired') delete patch.isExpired;
+    }
+
+    const { status: _status, ...flags } = { ...previous, ...patch };
+    const status = deriveSessionStatus(flags);
+    const security = { ...flags, status };
+    const changed = (Object.keys(security) as (keyof Nis2SecurityState)[]).some(key => security[key] !== previous[key]);
+    if (!changed) return state;
+    if (status === previous.status) return { ...state, security };
+
+    const transition: SessionTransition = {
+        from: previous.status,
+        to: status,
+        reason: action.reason,
+        at: action.at ?? Date.now(),
+        ...(action.detail ? { detail: action.detail } : {}),
+    };
+    return { security, history: [...state.history, transition].slice(-MAX_SESSION_HISTORY) };
+};
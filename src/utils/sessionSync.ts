@@ -0,0 +1,191 @@
+import { createEventId } from './eventEnvelope';
+
+/**
+ * Session state shared between all same-origin tabs.
+ */
+export type SessionSyncMessage =
+    | { kind: 'activity'; at: number }
+    | { kind: 'idle' }
+    | { kind: 'lock' }
+    | { kind: 'unlock' }
+    | { kind: 'reauthenticated' }
+    | { kind: 'compromised'; reason: string }
+    | { kind: 'logout'; reason?: string };
+
+type Envelope = SessionSyncMessage & { source: string; nonce: string };
+
+export interface SessionSyncOptions {
+    /**
+     * BroadcastChannel name, and prefix of the localStorage keys used by the fallback.
+     * @default 'nis2shield-session'
+     */
+    channelName?: string;
+    /**
+     * How long a leader keeps its lease without renewing it.
+     * The leader renews every third of this; a closed or frozen leader is replaced after it expires.
+     * @default 6000
+     */
+    leaseMs?: number;
+    debug?: boolean;
+}
+
+interface LeaderLease {
+    tabId: string;
+    expiresAt: number;
+}
+
+/**
+ * Broadcasts session state to every same-origin tab through BroadcastChannel,
+ * falling back to `storage` events where BroadcastChannel is unavailable.
+ *
+ * Also elects one leader tab with a lease in localStorage, so per-session telemetry
+ * (such as the idle timeout) is reported once instead of once per open tab.
+ */
+export class SessionSync {
+    readonly tabId = createEventId();
+    private channel: BroadcastChannel | null = null;
+    private listeners = new Set<(message: SessionSyncMessage) => void>();
+    private heartbeat: ReturnType<typeof setInterval> | null = null;
+    private channelName: string;
+    private leaseKey: string;
+    private messageKey: string;
+    private leaseMs: number;
+
+    constructor(private options: SessionSyncOptions = {}) {
+        this.channelName = options.channelName ?? 'nis2shield-session';
+        this.leaseKey = `${this.channelName}:leader`;
+        this.messageKey = `${this.channelName}:message`;
+        this.leaseMs = options.leaseMs ?? 6000;
+    }
+
+    start() {
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(this.channelName);
+            this.channel.onmessage = (event: MessageEvent) => this.receive(event.data);
+        } else if (typeof window !== 'undefined') {
+            window.addEventListener('storage', this.handleStorage);
+        }
+
+        this.claimLeadership();
+        this.heartbeat = setInterval(() => this.claimLeadership(), this.leaseMs / 3);
+    }
+
+    stop() {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+        if (this.channel) {
+            this.channel.close();
+            this.channel = null;
+        }
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('storage', this.handleStorage);
+        }
+        // Hand over immediately instead of waiting for the lease to expire
+        if (this.isLeader()) this.writeLease(null);
+    }
+
+    /**
+     * Sends a message to every other tab. The sending tab does not receive it.
+     */
+    post(message: SessionSyncMessage) {
+        const envelope: Envelope = { ...message, source: this.tabId, nonce: createEventId() };
+        if (this.options.debug) {
+            console.log('🛡️ [NIS2 Guard] Broadcasting to other tabs:', message.kind);
+        }
+        if (this.channel) {
+            this.channel.postMessage(envelope);
+            return;
+        }
+        try {
+            // The nonce makes every write a change, so repeated messages still fire `storage`
+            window.localStorage.setItem(this.messageKey, JSON.stringify(envelope));
+            window.localStorage.removeItem(this.messageKey);
+        } catch {
+            // Storage disabled: the tab runs on its own
+        }
+    }
+
+    /**
+     * Subscribes to messages from other tabs. Returns the unsubscribe function.
+     */
+    on(listener: (message: SessionSyncMessage) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * True when this tab holds the leader lease, or when leader election is impossible
+     * (storage disabled) and every tab has to act on its own.
+     * A vacant or expired lease is claimed first: hidden tabs run the heartbeat only about
+     * once a minute, which would otherwise leave no leader while the user is away.
+     */
+    isLeader(): boolean {
+        if (this.heartbeat) this.claimLeadership();
+        const lease = this.readLease();
+        if (lease === undefined) return true;
+        return lease !== null && lease.tabId === this.tabId && lease.expiresAt > Date.now();
+    }
+
+    private handleStorage = (event: StorageEvent) => {
+        if (event.key !== this.messageKey || !event.newValue) return;
+        try {
+            this.receive(JSON.parse(event.newValue));
+        } catch {
+            // Not one of ours
+        }
+    };
+
+    private receive(envelope: Envelope) {
+        if (!envelope || envelope.source === this.tabId) return;
+        const { source: _source, nonce: _nonce, ...message } = envelope;
+        if (this.options.debug) {
+            console.log('🛡️ [NIS2 Guard] Received from another tab:', message.kind);
+        }
+        this.listeners.forEach(listener => listener(message as SessionSyncMessage));
+    }
+
+    private claimLeadership() {
+        const lease = this.readLease();
+        if (lease === undefined) return;
+        const now = Date.now();
+        if (lease === null || lease.expiresAt <= now || lease.tabId === this.tabId) {
+            const wasLeader = lease?.tabId === this.tabId;
+            this.writeLease({ tabId: this.tabId, expiresAt: now + this.leaseMs });
+            if (!wasLeader && this.options.debug) {
+                console.log('🛡️ [NIS2 Guard] This tab is now the session leader');
+            }
+        }
+    }
+
+    /** `undefined` when localStorage is not usable. */
+    private readLease(): LeaderLease | null | undefined {
+        let raw: string | null;
+        try {
+            raw = window.localStorage.getItem(this.leaseKey);
+        } catch {
+            return undefined;
+        }
+        try {
+            return raw ? JSON.parse(raw) : null;
+        } catch {
+            // Corrupted lease: treat as vacant
+            return null;
+        }
+    }
+
+    private writeLease(lease: LeaderLease | null) {
+        try {
+            if (lease) {
+                window.localStorage.setItem(this.leaseKey, JSON.stringify(lease));
+            } else {
+                window.localStorage.removeItem(this.leaseKey);
+            }
+        } catch {
+            // Storage disabled
+        }
+    }
+}
@@ -0,0 +1,449 @@
+import { TelemetryEvent, Nis2Severity } from './eventEnvelope';
+
+/**
+ * Wire format of outgoing events.
+ * - `json`: the native envelope (default)
+ * - `ecs`: Elastic Common Schema 8.x documents
+ * - `cef`: ArcSight Common Event Format lines (sent as text/plain, one per line)
+ * - `ocsf`: Open Cybersecurity Schema Framework 1.1 events
+ */
+export type SiemFormat = 'json' | 'ecs' | 'cef' | 'ocsf';
+
+const ECS_VERSION = '8.11.0';
+const OCSF_VERSION = '1.1.0';
+const VENDOR = 'NIS2 Shield';
+const PRODUCT = 'react-guard';
+
+interface EventTypeMapping {
+    ecs: { kind: 'event' | 'alert'; category: string[]; type: string[]; outcome?: 'failure' | 'success' };
+    ocsf: {
+        classUid: number;
+        className: string;
+        categoryUid: number;
+        categoryName: string;
+        activityId: number;
+        activityName: string;
+    };
+    cefSignatureId: string;
+}
+
+const BASE_EVENT: EventTypeMapping['ocsf'] = {
+    classUid: 0,
+    className: 'Base Event',
+    categoryUid: 0,
+    categoryName: 'Uncategorized',
+    activityId: 99,
+    activityName: 'Other',
+};
+
+const DETECTION_FINDING: EventTypeMapping['ocsf'] = {
+    classUid: 2004,
+    className: 'Detection Finding',
+    categoryUid: 2,
+    categoryName: 'Findings',
+    activityId: 1,
+    activityName: 'Create',
+};
+
+const AUTHENTICATION_LOGOFF: EventTypeMapping['ocsf'] = {
+    classUid: 3002,
+    className: 'Authentication',
+    categoryUid: 3,
+    categoryName: 'Identity & Access Management',
+    activityId: 2,
+    activityName: 'Logoff',
+};
+
+const AUTHENTICATION_LOGON: EventTypeMapping['ocsf'] = {
+    ...AUTHENTICATION_LOGOFF,
+    activityId: 1,
+    activityName: 'Logon',
+};
+
+/**
+ * Mappings for the event types raised by react-guard itself.
+ * Unknown types fall back to a generic web event / OCSF Base Event.
+ */
+const TYPE_MAPPINGS: Record<string, EventTypeMapping> = {
+    REACT_COMPONENT_CRASH: {
+        ecs: { kind: 'event', category: ['web'], type: ['error'], outcome: 'failure' },
+        ocsf: {
+            classUid: 6002,
+            className: 'Application Lifecycle',
+            categoryUid: 6,
+            categoryName: 'Application Activity',
+            activityId: 4,
+            activityName: 'Stop',
+        },
+        cefSignatureId: 'NIS2-100',
+    },
+    UNCAUGHT_ERROR: {
+        ecs: { kind: 'event', category: ['web'], type: ['error'], outcome: 'failure' },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-101',
+    },
+    INSECURE_CONNECTION: {
+        ecs: { kind: 'alert', category: ['network'], type: ['protocol'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-200',
+    },
+    OUTDATED_BROWSER: {
+        ecs: { kind: 'alert', category: ['configuration'], type: ['info'] },
+        ocsf: {
+            classUid: 2003,
+            className: 'Compliance Finding',
+            categoryUid: 2,
+            categoryName: 'Findings',
+            activityId: 1,
+            activityName: 'Create',
+        },
+        cefSignatureId: 'NIS2-201',
+    },
+    SECURITY_BANNER_DISMISSED: {
+        ecs: { kind: 'event', category: ['web'], type: ['info'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-202',
+    },
+    DEVICE_FINGERPRINT: {
+        ecs: { kind: 'event', category: ['session'], type: ['info'] },
+        ocsf: {
+            classUid: 5001,
+            className: 'Device Inventory Info',
+            categoryUid: 5,
+            categoryName: 'Discovery',
+            activityId: 2,
+            activityName: 'Collect',
+        },
+        cefSignatureId: 'NIS2-300',
+    },
+    SESSION_IDLE_TIMEOUT: {
+        ecs: { kind: 'event', category: ['session'], type: ['info'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-500',
+    },
+    SESSION_LOGOUT: {
+        ecs: { kind: 'event', category: ['authentication', 'session'], type: ['end'], outcome: 'success' },
+        ocsf: AUTHENTICATION_LOGOFF,
+        cefSignatureId: 'NIS2-501',
+    },
+    SESSION_EXTENDED: {
+        ecs: { kind: 'event', category: ['session'], type: ['change'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-502',
+    },
+    SESSION_EXPIRED: {
+        ecs: { kind: 'event', category: ['session'], type: ['end'] },
+        ocsf: AUTHENTICATION_LOGOFF,
+        cefSignatureId: 'NIS2-503',
+    },
+    REAUTH_REQUIRED: {
+        ecs: { kind: 'event', category: ['authentication'], type: ['info'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-504',
+    },
+    SESSION_LOCKED: {
+        ecs: { kind: 'event', category: ['session'], type: ['change'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-505',
+    },
+    SESSION_UNLOCKED: {
+        ecs: { kind: 'event', category: ['authentication', 'session'], type: ['start'], outcome: 'success' },
+        ocsf: AUTHENTICATION_LOGON,
+        cefSignatureId: 'NIS2-506',
+    },
+    SESSION_UNLOCK_FAILED: {
+        ecs: { kind: 'event', category: ['authentication'], type: ['start'], outcome: 'failure' },
+        ocsf: AUTHENTICATION_LOGON,
+        cefSignatureId: 'NIS2-507',
+    },
+    REAUTH_SUCCEEDED: {
+        ecs: { kind: 'event', category: ['authentication'], type: ['start'], outcome: 'success' },
+        ocsf: AUTHENTICATION_LOGON,
+        cefSignatureId: 'NIS2-508',
+    },
+    REAUTH_FAILED: {
+        ecs: { kind: 'event', category: ['authentication'], type: ['start'], outcome: 'failure' },
+        ocsf: AUTHENTICATION_LOGON,
+        cefSignatureId: 'NIS2-509',
+    },
+    REAUTH_LOCKOUT: {
+        ecs: { kind: 'alert', category: ['authentication'], type: ['denied'], outcome: 'failure' },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-510',
+    },
+    SESSION_COMPROMISED: {
+        ecs: { kind: 'alert', category: ['session', 'intrusion_detection'], type: ['end'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-511',
+    },
+    IDLE_POLICY_CHANGED: {
+        ecs: { kind: 'event', category: ['configuration', 'session'], type: ['change'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-512',
+    },
+    CLOCK_SKEW_DETECTED: {
+        ecs: { kind: 'event', category: ['host', 'configuration'], type: ['change'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-513',
+    },
+    CSP_VIOLATION: {
+        ecs: { kind: 'alert', category: ['web', 'intrusion_detection'], type: ['denied'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-600',
+    },
+    DOM_TAMPERING: {
+        ecs: { kind: 'alert', category: ['web', 'intrusion_detection', 'malware'], type: ['indicator'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-601',
+    },
+    UNAUTHORIZED_SCRIPT: {
+        ecs: { kind: 'alert', category: ['web', 'intrusion_detection'], type: ['indicator'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-602',
+    },
+    SCRIPT_INVENTORY: {
+        ecs: { kind: 'event', category: ['web', 'configuration'], type: ['info'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-603',
+    },
+    NETWORK_POLICY_VIOLATION: {
+        ecs: { kind: 'alert', category: ['network', 'intrusion_detection'], type: ['connection', 'indicator'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-604',
+    },
+    FRAMED_CONTEXT: {
+        ecs: { kind: 'alert', category: ['web', 'intrusion_detection'], type: ['indicator'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-605',
+    },
+    TABNABBING_RISK: {
+        ecs: { kind: 'alert', category: ['web', 'intrusion_detection'], type: ['indicator'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-606',
+    },
+    RISK_POLICY_TRIGGERED: {
+        ecs: { kind: 'alert', category: ['web', 'intrusion_detection'], type: ['indicator'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-607',
+    },
+    EVENTS_SUPPRESSED: {
+        ecs: { kind: 'event', category: ['web'], type: ['info'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-400',
+    },
+    INFO: {
+        ecs: { kind: 'event', category: ['web'], type: ['info'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-001',
+    },
+    WARNING: {
+        ecs: { kind: 'event', category: ['web'], type: ['info'] },
+        ocsf: BASE_EVENT,
+        cefSignatureId: 'NIS2-002',
+    },
+    CRITICAL: {
+        ecs: { kind: 'alert', category: ['intrusion_detection'], type: ['indicator'] },
+        ocsf: DETECTION_FINDING,
+        cefSignatureId: 'NIS2-003',
+    },
+};
+
+const DEFAULT_MAPPING: EventTypeMapping = {
+    ecs: { kind: 'event', category: ['web'], type: ['info'] },
+    ocsf: BASE_EVENT,
+    cefSignatureId: 'NIS2-999',
+};
+
+/** ECS `event.severity` (0-100 scale). */
+const ECS_SEVERITY: Record<Nis2Severity, number> = { INFO: 20, WARNING: 50, ERROR: 70, CRITICAL: 90 };
+/** CEF header severity (0-10). */
+const CEF_SEVERITY: Record<Nis2Severity, number> = { INFO: 3, WARNING: 6, ERROR: 8, CRITICAL: 10 };
+/** OCSF `severity_id`: 1 Informational, 3 Medium, 4 High, 5 Critical. */
+const OCSF_SEVERITY: Record<Nis2Severity, { id: number; name: string }> = {
+    INFO: { id: 1, name: 'Informational' },
+    WARNING: { id: 3, name: 'Medium' },
+    ERROR: { id: 4, name: 'High' },
+    CRITICAL: { id: 5, name: 'Critical' },
+};
+
+const mappingFor = (type: string) => TYPE_MAPPINGS[type] ?? DEFAULT_MAPPING;
+
+/**
+ * Human-readable message for an event: the crash message, the custom event name
+ * passed to `useNis2Log`, or the event type itself.
+ */
+const messageFor = (event: TelemetryEvent): string => {
+    const { payload } = event;
+    if (typeof payload.message === 'string') return payload.message;
+    if (typeof payload.event === 'string') return payload.event;
+    return event.type;
+};
+
+const actionFor = (event: TelemetryEvent): string =>
+    (typeof event.payload.event === 'string' ? event.payload.event : event.type)
+        .toLowerCase()
+        .replace(/_/g, '-');
+
+/**
+ * Maps an event to an Elastic Common Schema document.
+ * The original payload is kept under the `nis2shield` custom field set.
+ */
+export const toEcs = (event: TelemetryEvent): Record<string, any> => {
+    const { ecs } = mappingFor(event.type);
+    const doc: Record<string, any> = {
+        '@timestamp': event.timestamp,
+        ecs: { version: ECS_VERSION },
+        message: messageFor(event),
+        event: {
+            id: event.id,
+            kind: ecs.kind,
+            category: ecs.category,
+            type: ecs.type,
+            action: actionFor(event),
+            severity: ECS_SEVERITY[event.severity],
+            sequence: event.sequence,
+            provider: PRODUCT,
+            dataset: 'nis2shield.client',
+            ...(ecs.outcome ? { outcome: ecs.outcome } : {}),
+        },
+        log: { level: event.severity.toLowerCase() },
+        url: { full: event.url },
+        labels: { session_id: event.sessionId, schema_version: event.schemaVersion },
+        nis2shield: {
+            type: event.type,
+            payload: event.payload,
+            ...(event.redactions ? { redactions: event.redactions } : {}),
+            ...(event.integrity ? { integrity: event.integrity } : {}),
+        },
+    };
+
+    if (event.appVersion) doc.service = { version: event.appVersion };
+    if (event.tenant) doc.organization = { id: event.tenant };
+    if (typeof navigator !== 'undefined') doc.user_agent = { original: navigator.userAgent };
+    if (event.type === 'REACT_COMPONENT_CRASH') {
+        doc.error = {
+            message: event.payload.message,
+            stack_trace: event.payload.stack,
+        };
+    }
+
+    return doc;
+};
+
+const escapeCefHeader = (value: string) => value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+
+const escapeCefExtension = (value: string) =>
+    value
+        .replace(/\\/g, '\\\\')
+        .replace(/=/g, '\\=')
+        .replace(/\r?\n/g, '\\n');
+
+/** CEF custom field with its label, omitted entirely when there is no value. */
+const customField = (key: string, label: string, value: string | number | undefined): [string, string | number | undefined][] =>
+    value === undefined ? [] : [[`${key}Label`, label], [key, value]];
+
+/**
+ * Maps an event to a single ArcSight CEF line.
+ * Session id, tenant and sequence go to custom string/number fields, the payload to `cs3` as JSON
+ * and the integrity chain, when enabled, to `cs4`-`cs6`.
+ */
+export const toCef = (event: TelemetryEvent): string => {
+    const header = [
+        'CEF:0',
+        VENDOR,
+        PRODUCT,
+        event.appVersion ?? event.schemaVersion,
+        mappingFor(event.type).cefSignatureId,
+        event.type,
+        String(CEF_SEVERITY[event.severity]),
+    ].map(escapeCefHeader).join('|');
+
+    const extensions: [string, string | number | undefined][] = [
+        ['rt', new Date(event.timestamp).getTime()],
+        ['externalId', event.id],
+        ['msg', messageFor(event)],
+        ['act', actionFor(event)],
+        ['request', event.url],
+        ...customField('cn1', 'sequence', event.sequence),
+        ...customField('cs1', 'sessionId', event.sessionId),
+        ...customField('cs2', 'tenant', event.tenant),
+        ...customField('cs3', 'payload', JSON.stringify(event.payload)),
+        ...customField('cs4', 'prevHash', event.integrity?.prevHash),
+        ...customField('cs5', 'hash', event.integrity?.hash),
+        ...customField('cs6', 'hmac', event.integrity?.hmac ?? undefined),
+    ];
+
+    const extension = extensions
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${escapeCefExtension(String(value))}`)
+        .join(' ');
+
+    return `${header}|${extension}`;
+};
+
+/**
+ * Maps an event to an OCSF 1.1 event.
+ * Security detections become Detection/Compliance Findings; the payload is kept in `unmapped`.
+ */
+export const toOcsf = (event: TelemetryEvent): Record<string, any> => {
+    const { ocsf } = mappingFor(event.type);
+    const severity = OCSF_SEVERITY[event.severity];
+    const doc: Record<string, any> = {
+        class_uid: ocsf.classUid,
+        class_name: ocsf.className,
+        category_uid: ocsf.categoryUid,
+        category_name: ocsf.categoryName,
+        activity_id: ocsf.activityId,
+        activity_name: ocsf.activityName,
+        type_uid: ocsf.classUid * 100 + ocsf.activityId,
+        severity_id: severity.id,
+        severity: severity.name,
+        time: new Date(event.timestamp).getTime(),
+        message: messageFor(event),
+        metadata: {
+            version: OCSF_VERSION,
+            uid: event.id,
+            sequence: event.sequence,
+            log_name: event.type,
+            product: {
+                name: PRODUCT,
+                vendor_name: VENDOR,
+                ...(event.appVersion ? { version: event.appVersion } : {}),
+            },
+            ...(event.tenant ? { tenant_uid: event.tenant } : {}),
+        },
+        actor: { session: { uid: event.sessionId } },
+        http_request: { url: { url_string: event.url } },
+        unmapped: {
+            payload: event.payload,
+            ...(event.redactions ? { redactions: event.redactions } : {}),
+            ...(event.integrity ? { integrity: event.integrity } : {}),
+        },
+    };
+
+    if (ocsf.categoryUid === 2) {
+        doc.finding_info = { uid: event.id, title: messageFor(event) };
+    }
+    if (event.type === 'REACT_COMPONENT_CRASH') {
+        doc.status_id = 2;
+        doc.status = 'Failure';
+    }
+
+    return doc;
+};
+
+/**
+ * Serializes events for a request body in the given format.
+ * JSON formats wrap batches as `{ events: [...] }`; CEF is newline-delimited.
+ */
+export const formatEvents = (events: TelemetryEvent[], batched: boolean, format: SiemFormat = 'json'): string => {
+    if (format === 'cef') {
+        return events.map(toCef).join('\n');
+    }
+    const mapper = format === 'ecs' ? toEcs : format === 'ocsf' ? toOcsf : (event: TelemetryEvent) => event;
+    const documents = events.map(mapper);
+    return JSON.stringify(batched ? { events: documents } : documents[0]);
+};
+
+export const contentTypeFor = (format: SiemFormat = 'json') =>
+    format === 'cef' ? 'text/plain' : 'application/json';
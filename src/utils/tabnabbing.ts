@@ -0,0 +1,181 @@
+export type TabnabbingFindingKind =
+    | 'opener_present'
+    | 'hidden_title_change'
+    | 'hidden_favicon_change'
+    | 'background_navigation'
+    | 'unsafe_link';
+
+export interface TabnabbingFinding {
+    kind: TabnabbingFindingKind;
+    /** `opener_present`: origin of the opener, null when cross-origin. */
+    openerOrigin?: string | null;
+    /** `hidden_title_change` / `hidden_favicon_change`: value when the tab was hidden, and now. */
+    previous?: string;
+    current?: string;
+    /** `unsafe_link`: link target without query and fragment. */
+    href?: string;
+    /** `unsafe_link`: `rel` before sanitising. */
+    previousRel?: string;
+}
+
+export interface TabnabbingWatcherOptions {
+    onFinding: (finding: TabnabbingFinding) => void;
+    /**
+     * Set `window.opener` to null, so neither the app nor injected code can navigate the opener.
+     * @default false
+     */
+    detachOpener?: boolean;
+    /**
+     * Report title and favicon changes made while the tab is hidden.
+     * Disable for apps that show unread counts in the title.
+     * @default true
+     */
+    watchTitle?: boolean;
+    debug?: boolean;
+}
+
+const REQUIRED_REL = ['noopener', 'noreferrer'];
+
+const stripUrl = (value: string) => value.split(/[?#]/)[0];
+
+/** `target="_blank"` link whose `rel` lacks `noopener` or `noreferrer`. */
+export const isUnsafeLink = (element: Element): element is HTMLAnchorElement | HTMLAreaElement => {
+    if (!(element instanceof HTMLAnchorElement || element instanceof HTMLAreaElement)) return false;
+    if (element.target.toLowerCase() !== '_blank') return false;
+    const rel = (element.getAttribute('rel') ?? '').toLowerCase().split(/\s+/);
+    return REQUIRED_REL.some(token => !rel.includes(token));
+};
+
+/**
+ * Adds `noopener noreferrer` to an unsafe `target="_blank"` link.
+ * Returns the finding, or null when the link was already safe.
+ */
+export const sanitizeLink = (element: Element): TabnabbingFinding | null => {
+    if (!isUnsafeLink(element)) return null;
+    const previousRel = element.getAttribute('rel') ?? '';
+    const tokens = previousRel.split(/\s+/).filter(token => token && token.toLowerCase() !== 'opener');
+    REQUIRED_REL.forEach(token => {
+        if (!tokens.some(existing => existing.toLowerCase() === token)) tokens.push(token);
+    });
+    element.setAttribute('rel', tokens.join(' '));
+    return { kind: 'unsafe_link', href: stripUrl(element.href), previousRel };
+};
+
+const currentFavicon = () =>
+    document.querySelector<HTMLLinkElement>('link[rel~="icon"]')?.href ?? '';
+
+/**
+ * Detects tab-napping and reverse tabnabbing:
+ * - the page was opened with `window.opener` access (the opener can navigate it)
+ * - title or favicon changed while the tab is hidden (a background tab posing as a login page)
+ * - the page is navigated away while hidden, after opening a window that kept `opener` access
+ *   (that window replacing this tab with a look-alike)
+ */
+export class TabnabbingWatcher {
+    private observer: MutationObserver | null = null;
+    private hiddenSnapshot: { title: string; favicon: string } | null = null;
+    private reportedWhileHidden = new Set<TabnabbingFindingKind>();
+    private openerExposed = false;
+    private originalOpen: typeof window.open | null = null;
+    private wrappedOpen: typeof window.open | null = null;
+
+    constructor(private options: TabnabbingWatcherOptions) { }
+
+    start() {
+        if (this.observer) return;
+        this.checkOpener();
+
+        this.observer = new MutationObserver(this.checkHead);
+        this.observer.observe(document.head, {
+            childList: true,
+            subtree: true,
+            characterData: true,
+            attributes: true,
+            attributeFilter: ['href', 'rel'],
+        });
+        if (document.visibilityState === 'hidden') this.onVisibilityChange();
+        document.addEventListener('visibilitychange', this.onVisibilityChange);
+        document.addEventListener('click', this.onClick, true);
+        window.addEventListener('beforeunload', this.onBeforeUnload);
+
+        const originalOpen = window.open;
+        this.originalOpen = originalOpen;
+        this.wrappedOpen = (url?: string | URL, target?: string, features?: string) => {
+            if (!/\bno(opener|referrer)\b/i.test(features ?? '')) this.openerExposed = true;
+            return originalOpen.call(window, url, target, features);
+        };
+        window.open = this.wrappedOpen;
+    }
+
+    stop() {
+        this.observer?.disconnect();
+        this.observer = null;
+        document.removeEventListener('visibilitychange', this.onVisibilityChange);
+        document.removeEventListener('click', this.onClick, true);
+        window.removeEventListener('beforeunload', this.onBeforeUnload);
+        // A wrapper installed after ours stays in place
+        if (this.originalOpen && window.open === this.wrappedOpen) window.open = this.originalOpen;
+        this.originalOpen = this.wrappedOpen = null;
+    }
+
+    private checkOpener() {
+        if (!window.opener) return;
+        let openerOrigin: string | null = null;
+        try {
+            openerOrigin = window.opener.location.origin;
+        } catch {
+            // Cross-origin opener
+        }
+        this.report({ kind: 'opener_present', openerOrigin });
+        if (this.options.detachOpener) window.opener = null;
+    }
+
+    private onVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') {
+            this.hiddenSnapshot = { title: document.title, favicon: currentFavicon() };
+        } else {
+            this.hiddenSnapshot = null;
+            this.reportedWhileHidden.clear();
+        }
+    };
+
+    private checkHead = () => {
+        const snapshot = this.hiddenSnapshot;
+        if (!snapshot || this.options.watchTitle === false) return;
+        const title = document.title;
+        if (title !== snapshot.title) {
+            this.reportOncePerHide({ kind: 'hidden_title_change', previous: snapshot.title, current: title });
+        }
+        const favicon = currentFavicon();
+        if (favicon !== snapshot.favicon) {
+            this.reportOncePerHide({ kind: 'hidden_favicon_change', previous: stripUrl(snapshot.favicon), current: stripUrl(favicon) });
+        }
+    };
+
+    private onClick = (event: MouseEvent) => {
+        const link = (event.target as Element | null)?.closest?.('a, area');
+        if (link && isUnsafeLink(link) && /\bopener\b/i.test(link.getAttribute('rel') ?? '')) {
+            // Browsers imply noopener for target=_blank, except with an explicit rel="opener"
+            this.openerExposed = true;
+        }
+    };
+
+    private onBeforeUnload = () => {
+        if (document.visibilityState === 'hidden' && this.openerExposed) {
+            this.report({ kind: 'background_navigation' });
+        }
+    };
+
+    private reportOncePerHide(finding: TabnabbingFinding) {
+        if (this.reportedWhileHidden.has(finding.kind)) return;
+        this.reportedWhileHidden.add(finding.kind);
+        this.report(finding);
+    }
+
+    private report(finding: TabnabbingFinding) {
+        if (this.options.debug) {
+            console.log(`🛡️ [NIS2 Guard] Tabnabbing risk: ${finding.kind}`);
+        }
+        this.options.onFinding(finding);
+    }
+}
@@ -0,0 +1,409 @@
+import { TelemetryEvent } from './eventEnvelope';
+
+/**
+ * An event waiting in the outbound queue, with its retry bookkeeping.
+ */
+export interface QueueEntry {
+    id: string;
+    event: TelemetryEvent;
+    enqueuedAt: number;
+    attempts: number;
+    nextAttemptAt: number;
+}
+
+/**
+ * Persistence backend for the outbound queue.
+ * The queue keeps its own in-memory copy, storage only has to survive reloads.
+ */
+export interface QueueStorage {
+    load(): Promise<QueueEntry[]>;
+    save(entry: QueueEntry): Promise<void>;
+    remove(ids: string[]): Promise<void>;
+}
+
+/**
+ * Delivery status of the outbound queue, exposed through `useNis2Context().telemetryStatus`.
+ */
+export interface TelemetryQueueStatus {
+    /** Number of events waiting to be delivered. */
+    depth: number;
+    /** Epoch ms of the last flush attempt, or null if none happened yet. */
+    lastFlushAt: number | null;
+    lastFlushStatus: 'idle' | 'success' | 'error' | 'offline';
+    lastError: string | null;
+}
+
+export interface TelemetryQueueOptions {
+    /** Sends a batch of events. Must reject when the batch was not accepted by the backend. */
+    deliver: (events: TelemetryEvent[]) => Promise<void>;
+    /**
+     * Synchronous, fire-and-forget delivery used on `pagehide` and when the tab is hidden, while online.
+     * Returns true if the browser accepted the events.
+     */
+    deliverOnUnload?: (events: TelemetryEvent[]) => boolean;
+    storage?: QueueStorage;
+    /** Maximum number of events per delivery. @default 1 */
+    batchSize?: number;
+    /**
+     * Interval for periodic flushes. When 0, every event is flushed as soon as it is queued;
+     * otherwise events are held until the interval elapses or a full batch is ready.
+     * @default 0
+     */
+    flushIntervalMs?: number;
+    /** Oldest events are dropped beyond this size. @default 500 */
+    maxQueueSize?: number;
+    /** Events older than this are dropped instead of sent. @default 24h */
+    maxEventAgeMs?: number;
+    /** First retry delay, doubled on each failure. @default 1000 */
+    baseRetryDelayMs?: number;
+    /** Upper bound for the retry delay. @default 5 minutes */
+    maxRetryDelayMs?: number;
+    onStatusChange?: (status: TelemetryQueueStatus) => void;
+    debug?: boolean;
+}
+
+const DB_NAME = 'nis2shield';
+const STORE_NAME = 'telemetry_queue';
+
+/**
+ * Non-persistent storage, used when IndexedDB is not available (SSR, private mode, tests).
+ */
+export class MemoryQueueStorage implements QueueStorage {
+    private entries = new Map<string, QueueEntry>();
+
+    async load() {
+        return Array.from(this.entries.values());
+    }
+
+    async save(entry: QueueEntry) {
+        this.entries.set(entry.id, entry);
+    }
+
+    async remove(ids: string[]) {
+        ids.forEach(id => this.entries.delete(id));
+    }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * IndexedDB-backed storage, so queued events survive reloads and navigations.
+ */
+export class IndexedDbQueueStorage implements QueueStorage {
+    private db: Promise<IDBDatabase>;
+
+    constructor() {
+        this.db = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private async store(mode: IDBTransactionMode) {
+        const db = await this.db;
+        return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    }
+
+    async load() {
+        return requestToPromise((await this.store('readonly')).getAll() as IDBRequest<QueueEntry[]>);
+    }
+
+    async save(entry: QueueEntry) {
+        await requestToPromise((await this.store('readwrite')).put(entry));
+    }
+
+    async remove(ids: string[]) {
+        const store = await this.store('readwrite');
+        await Promise.all(ids.map(id => requestToPromise(store.delete(id))));
+    }
+}
+
+/**
+ * Picks IndexedDB when the browser has it, in-memory storage otherwise.
+ */
+export const createQueueStorage = (): QueueStorage =>
+    typeof indexedDB !== 'undefined' ? new IndexedDbQueueStorage() : new MemoryQueueStorage();
+
+/**
+ * Durable outbound queue for telemetry.
+ * Events are persisted before delivery, retried with exponential backoff,
+ * and replayed when the browser comes back online or the page is reloaded.
+ *
+ * Delivery is at-least-once: the backend should de-duplicate on `event.id`.
+ */
+export class TelemetryQueue {
+    private entries: QueueEntry[] = [];
+    private storage: QueueStorage;
+    private options: Required<Omit<TelemetryQueueOptions, 'storage' | 'onStatusChange' | 'deliverOnUnload'>> &
+        Pick<TelemetryQueueOptions, 'onStatusChange' | 'deliverOnUnload'>;
+    private status: TelemetryQueueStatus = {
+        depth: 0,
+        lastFlushAt: null,
+        lastFlushStatus: 'idle',
+        lastError: null,
+    };
+    private flushing: Promise<void> | null = null;
+    private inFlight = new Set<string>();
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private flushTimer: ReturnType<typeof setInterval> | null = null;
+    private started = false;
+
+    constructor(options: TelemetryQueueOptions) {
+        this.storage = options.storage ?? createQueueStorage();
+        this.options = {
+            deliver: options.deliver,
+            deliverOnUnload: options.deliverOnUnload,
+            onStatusChange: options.onStatusChange,
+            batchSize: Math.max(1, options.batchSize ?? 1),
+            flushIntervalMs: options.flushIntervalMs ?? 0,
+            maxQueueSize: options.maxQueueSize ?? 500,
+            maxEventAgeMs: options.maxEventAgeMs ?? 24 * 60 * 60 * 1000,
+            baseRetryDelayMs: options.baseRetryDelayMs ?? 1000,
+            maxRetryDelayMs: options.maxRetryDelayMs ?? 5 * 60 * 1000,
+            debug: options.debug ?? false,
+        };
+    }
+
+    /**
+     * Loads events left over from previous page loads and starts listening for `online`.
+     */
+    start() {
+        if (this.started || typeof window === 'undefined') return;
+        this.started = true;
+        window.addEventListener('online', this.handleOnline);
+        window.addEventListener('pagehide', this.flushOnUnload);
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+        if (this.options.flushIntervalMs > 0) {
+            this.flushTimer = setInterval(() => this.flush(), this.options.flushIntervalMs);
+        }
+
+        this.storage.load()
+            .then(stored => {
+                const known = new Set(this.entries.map(entry => entry.id));
+                const replayed = stored.filter(entry => !known.has(entry.id));
+                if (replayed.length > 0) {
+                    this.log(`Replaying ${replayed.length} queued event(s)`);
+                    this.entries = [...replayed, ...this.entries]
+                        .sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+                    this.updateStatus({});
+                }
+            })
+            .catch(error => this.log('Queue storage unavailable, using memory only', error))
+            .finally(() => this.flush());
+    }
+
+    stop() {
+        this.started = false;
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('online', this.handleOnline);
+            window.removeEventListener('pagehide', this.flushOnUnload);
+            document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        }
+        if (this.flushTimer) {
+            clearInterval(this.flushTimer);
+            this.flushTimer = null;
+        }
+        this.clearRetryTimer();
+    }
+
+    /**
+     * Adds an event to the queue. Delivery is immediate, or deferred to the next
+     * periodic flush when `flushIntervalMs` is set and the batch is not full yet.
+     */
+    async enqueue(event: TelemetryEvent) {
+        const now = Date.now();
+        const entry: QueueEntry = {
+            id: event.id,
+            event,
+            enqueuedAt: now,
+            attempts: 0,
+            nextAttemptAt: now,
+        };
+
+        this.entries.push(entry);
+        const overflow = this.entries.length - this.options.maxQueueSize;
+        if (overflow > 0) {
+            const dropped = this.entries.splice(0, overflow);
+            this.log(`Queue full, dropped ${dropped.length} oldest event(s)`);
+            this.persistRemoval(dropped.map(e => e.id));
+        }
+        this.updateStatus({});
+
+        try {
+            await this.storage.save(entry);
+        } catch (error) {
+            this.log('Failed to persist event, keeping it in memory', error);
+        }
+
+        if (this.options.flushIntervalMs > 0 && this.entries.length < this.options.batchSize) {
+            return;
+        }
+        return this.flush();
+    }
+
+    /**
+     * Delivers every due event, oldest first, in batches of `batchSize`.
+     * Stops at the first failed batch and schedules a retry.
+     */
+    flush(): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.drain().finally(() => {
+                this.flushing = null;
+            });
+        }
+        return this.flushing;
+    }
+
+    getStatus(): TelemetryQueueStatus {
+        return this.status;
+    }
+
+    private async drain() {
+        this.dropExpired();
+
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+            this.updateStatus({ lastFlushStatus: 'offline' });
+            return;
+        }
+
+        while (this.entries.length > 0) {
+            const now = Date.now();
+            if (this.entries[0].nextAttemptAt > now) {
+                this.scheduleRetry(this.entries[0].nextAttemptAt - now);
+                return;
+            }
+
+            const batch: QueueEntry[] = [];
+            for (const entry of this.entries) {
+                if (batch.length >= this.options.batchSize || entry.nextAttemptAt > now) break;
+                batch.push(entry);
+            }
+
+            batch.forEach(entry => this.inFlight.add(entry.id));
+            try {
+                await this.options.deliver(batch.map(entry => entry.event));
+            } catch (error) {
+                const attempts = Math.max(...batch.map(entry => entry.attempts)) + 1;
+                const delay = Math.min(
+                    this.options.baseRetryDelayMs * 2 ** (attempts - 1),
+                    this.options.maxRetryDelayMs
+                );
+                batch.forEach(entry => {
+                    entry.attempts = attempts;
+                    entry.nextAttemptAt = Date.now() + delay;
+                    this.storage.save(entry).catch(() => undefined);
+                });
+                this.updateStatus({
+                    lastFlushAt: Date.now(),
+                    lastFlushStatus: 'error',
+                    lastError: error instanceof Error ? error.message : String(error),
+                });
+                this.log(`Delivery failed, retrying in ${delay}ms`, error);
+                this.scheduleRetry(delay);
+                return;
+            } finally {
+                batch.forEach(entry => this.inFlight.delete(entry.id));
+            }
+
+            const sent = new Set(batch.map(entry => entry.id));
+            this.entries = this.entries.filter(entry => !sent.has(entry.id));
+            this.persistRemoval(Array.from(sent));
+            this.updateStatus({ lastFlushAt: Date.now(), lastFlushStatus: 'success', lastError: null });
+        }
+    }
+
+    private dropExpired() {
+        const cutoff = Date.now() - this.options.maxEventAgeMs;
+        const expired = this.entries.filter(entry => entry.enqueuedAt < cutoff);
+        if (expired.length === 0) return;
+
+        this.entries = this.entries.filter(entry => entry.enqueuedAt >= cutoff);
+        this.persistRemoval(expired.map(entry => entry.id));
+        this.log(`Dropped ${expired.length} expired event(s)`);
+        this.updateStatus({});
+    }
+
+    private scheduleRetry(delay: number) {
+        this.clearRetryTimer();
+        if (!this.started) return;
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.flush();
+        }, delay);
+    }
+
+    private clearRetryTimer() {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private persistRemoval(ids: string[]) {
+        this.storage.remove(ids).catch(error => this.log('Failed to remove events from storage', error));
+    }
+
+    private updateStatus(patch: Partial<TelemetryQueueStatus>) {
+        this.status = { ...this.status, ...patch, depth: this.entries.length };
+        this.options.onStatusChange?.(this.status);
+    }
+
+    /**
+     * Hands every queued event, including those waiting for a retry, to `deliverOnUnload`.
+     * Runs on `pagehide` and when the tab is hidden, where async deliveries may be cancelled.
+     */
+    flushOnUnload = () => {
+        if (!this.options.deliverOnUnload || this.entries.length === 0) return;
+        // The browser accepts a beacon when it is queued, not delivered: offline, that would drop the events
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+            this.log('Offline on unload, events stay persisted for the next page load');
+            return;
+        }
+
+        // In-flight events are left alone: if the unload cancels them they stay persisted and replay later
+        const pending = this.entries.filter(entry => !this.inFlight.has(entry.id));
+        for (let i = 0; i < pending.length; i += this.options.batchSize) {
+            const batch = pending.slice(i, i + this.options.batchSize);
+            if (!this.options.deliverOnUnload(batch.map(entry => entry.event))) {
+                this.log('Browser refused unload delivery, events stay queued');
+                return;
+            }
+            const sent = new Set(batch.map(entry => entry.id));
+            this.entries = this.entries.filter(entry => !sent.has(entry.id));
+            this.persistRemoval(Array.from(sent));
+            this.updateStatus({ lastFlushAt: Date.now(), lastFlushStatus: 'success', lastError: null });
+        }
+    };
+
+    private handleVisibilityChange = () => {
+        // A hidden tab may be frozen or discarded without `pagehide` (common on mobile)
+        if (document.visibilityState === 'hidden') {
+            this.flushOnUnload();
+        }
+    };
+
+    private handleOnline = () => {
+        this.log('Back online, flushing queue');
+        this.entries.forEach(entry => {
+            entry.nextAttemptAt = Date.now();
+        });
+        this.flush();
+    };
+
+    private log(message: string, detail?: unknown) {
+        if (!this.options.debug) return;
+        if (detail !== undefined) {
+            console.warn(`🛡️ [NIS2 Guard] ${message}`, detail);
+        } else {
+            console.log(`🛡️ [NIS2 Guard] ${message}`);
+        }
+    }
+}
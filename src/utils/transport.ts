@@ -0,0 +1,219 @@
+import { TelemetryEvent } from './eventEnvelope';
+import { SiemFormat, formatEvents, contentTypeFor } from './siemFormats';
+
+/**
+ * Delivers telemetry events to a backend.
+ * Implement this to route events through an authenticated gateway, a WebSocket,
+ * a postMessage bridge, an in-memory sink for tests, etc.
+ *
+ * @example
+ * ```ts
+ * const sent: TelemetryEvent[] = [];
+ * const memoryTransport: Nis2Transport = {
+ *   send: async (events) => { sent.push(...events); }
+ * };
+ * ```
+ */
+export interface Nis2Transport {
+    /**
+     * Delivers a batch of events (a single event unless `batchSize` is set).
+     * Must reject when the events were not accepted, so the queue retries them later.
+     */
+    send(events: TelemetryEvent[]): Promise<void>;
+
+    /**
+     * Optional synchronous delivery used on `pagehide` and when the tab is hidden, while online,
+     * where awaited requests may be cancelled. Return true if the events were handed off.
+     * Without it, pending events stay queued and are replayed on the next page load.
+     */
+    sendOnUnload?(events: TelemetryEvent[]): boolean;
+}
+
+type HeadersProvider = Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>);
+
+export interface FetchTransportOptions {
+    /** URL receiving POST requests with JSON payload. */
+    endpoint: string;
+    /**
+     * Extra request headers, e.g. an API gateway token.
+     * A function is called before every request, so tokens can be refreshed.
+     */
+    headers?: HeadersProvider;
+    /** Wrap events as `{ events: [...] }`. @default false */
+    batched?: boolean;
+    /** Wire format of the request body. @default 'json' */
+    format?: SiemFormat;
+    /** @default 'same-origin' */
+    credentials?: RequestCredentials;
+}
+
+export interface BeaconTransportOptions {
+    endpoint: string;
+    /** @default false */
+    batched?: boolean;
+    /** @default 'json' */
+    format?: SiemFormat;
+}
+
+/**
+ * Builds the request bodies for a set of events: one body for a batch,
+ * or one per event when not batched (the format the backend adapters accept since v0.1).
+ */
+const splitBodies = (events: TelemetryEvent[], batched: boolean, format: SiemFormat) =>
+    batched
+        ? [formatEvents(events, true, format)]
+        : events.map(event => formatEvents([event], false, format));
+
+/**
+ * POSTs events to the audit endpoint. Rejects when the backend does not accept them,
+ * so the queue can retry.
+ */
+export const postEvents = async (
+    endpoint: string,
+    events: TelemetryEvent[],
+    batched: boolean,
+    init: Pick<RequestInit, 'headers' | 'credentials' | 'keepalive'> = {},
+    format: SiemFormat = 'json'
+) => {
+    for (const body of splitBodies(events, batched, format)) {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            ...init,
+            headers: { 'Content-Type': contentTypeFor(format), ...(init.headers as Record<string, string>) },
+            body,
+        });
+        if (response && response.ok === false) {
+            throw new Error(`Audit endpoint responded with ${response.status}`);
+        }
+    }
+};
+
+/** Bytes of `keepalive` bodies a page may have in flight. Beyond it the browser rejects the request. */
+const KEEPALIVE_BUDGET_BYTES = 64 * 1024;
+
+let keepaliveBytesInFlight = 0;
+
+/**
+ * Starts a `keepalive` POST for each body, synchronously. Returns false when the browser would refuse
+ * them, so the events stay queued: the budget is checked up front, because over it the browser only
+ * rejects the returned promise, after the events would have been counted as sent.
+ */
+const sendKeepalive = (
+    endpoint: string,
+    bodies: string[],
+    init: Pick<RequestInit, 'headers' | 'credentials'>,
+    format: SiemFormat
+): boolean => {
+    if (typeof fetch !== 'function') return false;
+    const sizes = bodies.map(body => new TextEncoder().encode(body).length);
+    if (keepaliveBytesInFlight + sizes.reduce((sum, size) => sum + size, 0) > KEEPALIVE_BUDGET_BYTES) return false;
+
+    return bodies.every((body, index) => {
+        keepaliveBytesInFlight += sizes[index];
+        const release = () => {
+            keepaliveBytesInFlight -= sizes[index];
+        };
+        try {
+            fetch(endpoint, {
+                method: 'POST',
+                ...init,
+                headers: { 'Content-Type': contentTypeFor(format), ...(init.headers as Record<string, string>) },
+                body,
+                keepalive: true,
+            }).then(release, release);
+            return true;
+        } catch {
+            release();
+            return false;
+        }
+    });
+};
+
+/**
+ * Fire-and-forget delivery for page unload, where an awaited fetch would be cancelled.
+ * Prefers `navigator.sendBeacon`, falls back to `fetch` with `keepalive`.
+ *
+ * @returns true if the browser accepted the events for delivery.
+ */
+export const beaconEvents = (
+    endpoint: string,
+    events: TelemetryEvent[],
+    batched: boolean,
+    format: SiemFormat = 'json'
+): boolean =>
+    splitBodies(events, batched, format).every(body => {
+        try {
+            if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+                if (navigator.sendBeacon(endpoint, new Blob([body], { type: contentTypeFor(format) }))) {
+                    return true;
+                }
+            }
+        } catch {
+            // Some browsers reject non-CORS-safelisted content types, fall through to fetch
+        }
+
+        return sendKeepalive(endpoint, [body], {}, format);
+    });
+
+/**
+ * Default transport: JSON POST with optional custom headers.
+ * On unload it re-sends with `keepalive` and the last resolved headers,
+ * since `sendBeacon` cannot carry an Authorization header.
+ *
+ * @example
+ * ```ts
+ * const transport = createFetchTransport({
+ *   endpoint: 'https://gateway.example.com/nis2/events',
+ *   headers: async () => ({ Authorization: `Bearer ${await auth.getToken()}` }),
+ * });
+ * ```
+ */
+export const createFetchTransport = (options: FetchTransportOptions): Nis2Transport => {
+    const { endpoint, batched = false, format = 'json', credentials = 'same-origin' } = options;
+    let lastHeaders: Record<string, string> = typeof options.headers === 'object' ? options.headers : {};
+
+    return {
+        async send(events) {
+            if (typeof options.headers === 'function') {
+                lastHeaders = await options.headers();
+            }
+            await postEvents(endpoint, events, batched, { headers: lastHeaders, credentials }, format);
+        },
+        sendOnUnload(events) {
+            // One request per body, all started synchronously before the page goes away
+            return sendKeepalive(endpoint, splitBodies(events, batched, format), { headers: lastHeaders, credentials }, format);
+        },
+    };
+};
+
+/**
+ * Sends every event with `navigator.sendBeacon`. Cheap and unload-safe,
+ * but delivery cannot be confirmed and custom headers are not supported.
+ */
+export const createBeaconTransport = (options: BeaconTransportOptions): Nis2Transport => {
+    const { endpoint, batched = false, format = 'json' } = options;
+    return {
+        async send(events) {
+            if (!beaconEvents(endpoint, events, batched, format)) {
+                throw new Error('Browser refused beacon delivery');
+            }
+        },
+        sendOnUnload: (events) => beaconEvents(endpoint, events, batched, format),
+    };
+};
+
+/**
+ * Logs events to the browser console instead of sending them. Useful in development and demos.
+ */
+export const createConsoleTransport = (): Nis2Transport => {
+    const log = (events: TelemetryEvent[]) => {
+        events.forEach(event => console.info(`🛡️ [NIS2 Guard] ${event.type}`, event));
+        return true;
+    };
+    return {
+        async send(events) {
+            log(events);
+        },
+        sendOnUnload: log,
+    };
+};